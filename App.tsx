@@ -8,6 +8,16 @@ import MessageScreen from './src/screens/MessageScreen';
 import SettingsScreen from './src/screens/SettingsScreen';
 import PinEntryModal from './src/components/PinEntryModal';
 import TwilioService from './src/services/TwilioService';
+import PushNotificationService from './src/services/PushNotificationService';
+import ContactResolver from './src/services/ContactResolver';
+import { loadDefaultCountry } from './src/services/PhoneNumbers';
+import SecureStorage from './src/services/SecureStorage';
+import PinService from './src/services/PinService';
+import CaregiverCommandService from './src/services/CaregiverCommandService';
+import DeviceStatusService from './src/services/DeviceStatusService';
+import CloudSyncService from './src/services/CloudSyncService';
+import CaregiverNotificationService from './src/services/CaregiverNotificationService';
+import { clearContactsCache } from './src/screens/ContactsScreen';
 import { Contact } from './src/types/Contact';
 
 type Screen = 'contacts' | 'detail' | 'message' | 'settings';
@@ -25,10 +35,75 @@ export default function App() {
   const [nextOpacity, setNextOpacity] = useState<Animated.Value | null>(null);
   const [isAnimating, setIsAnimating] = useState(false);
 
+  useEffect(() => {
+    // A step that fails is logged and skipped - it mustn't stop the rest of startup
+    const step = async (name: string, run: () => unknown) => {
+      try {
+        await run();
+      } catch (error) {
+        console.error(`Startup step failed (${name}):`, error);
+      }
+    };
+
+    const startServices = async () => {
+      // Encrypt anything an older version saved in plain text before the services read it
+      await step('storage migration', () => SecureStorage.migrate());
+      await step('default country', () => loadDefaultCountry());
+      await step('Twilio settings', async () => {
+        await TwilioService.loadConfig();
+        if (TwilioService.isConfigured()) {
+          await PinService.adoptLegacyPin();
+        }
+      });
+      // File older conversations under their contacts before anything new arrives
+      await step('contacts', () => ContactResolver.refresh());
+      // Pick up any texts that were waiting for signal when the app was last closed
+      await step('outbox', () => TwilioService.startOutboxWatcher());
+
+      // Limits changed by caregiver text commands should show up on the next visit to a contact
+      CaregiverCommandService.onContactsChanged(clearContactsCache);
+
+      await step('push notifications', async () => {
+        // The webhook server pushes 'refresh_messages' when a text arrives at the Twilio number
+        PushNotificationService.onAction('refresh_messages', () => {
+          TwilioService.fetchRecentMessages();
+        });
+        PushNotificationService.startListening();
+        const pushToken = await PushNotificationService.register();
+        TwilioService.setPushAvailable(pushToken !== null);
+        if (pushToken) {
+          await PushNotificationService.registerWithServer(TwilioService.getConfig());
+        }
+      });
+      // Keep the server's copy of contacts and limits current for calls to the Twilio number
+      step('call routing', () => TwilioService.syncCallRouting());
+      await step('message polling', () => TwilioService.startMessagePolling());
+      // Tell backup caregivers about any alert left unreset while the app was closed
+      step('backup alerts', () => CaregiverNotificationService.getInstance().checkBackupAlert());
+      // Keep the caregiver dashboard up to date and pick up changes made there
+      await step('device status', () => DeviceStatusService.startReporting());
+      await step('dashboard sync', () => CloudSyncService.startSyncing());
+    };
+
+    startServices();
+    return () => {
+      TwilioService.stopOutboxWatcher();
+      TwilioService.stopMessagePolling();
+      DeviceStatusService.stopReporting();
+      CloudSyncService.stopSyncing();
+      PushNotificationService.stopListening();
+    };
+  }, []);
+
   useEffect(() => {
     const handleAppStateChange = (nextAppState: string) => {
       if (nextAppState === 'active') {
         TwilioService.setPollingMode('active');
+        // Catch up on anything a missed push would have told us about
+        TwilioService.fetchRecentMessages();
+        DeviceStatusService.report();
+        CloudSyncService.sync();
+        CaregiverNotificationService.getInstance().checkBackupAlert();
       } else if (nextAppState === 'background') {
         TwilioService.setPollingMode('background');
       }
@@ -0,0 +1,285 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Alert,
+  ScrollView,
+} from 'react-native';
+import { normalizePhoneNumber, isValidPhoneNumber } from '../services/PhoneNumbers';
+import {
+  CAREGIVER_ALERT_LABELS,
+  DEFAULT_ALERTS,
+  Caregiver,
+  CaregiverRole,
+  CaregiverAlert,
+} from '../services/CaregiverNotificationService';
+
+interface CaregiverEditModalProps {
+  visible: boolean;
+  caregiver: Caregiver | null; // null adds a new caregiver
+  onSave: (caregiver: Caregiver) => void;
+  onRemove: (caregiver: Caregiver) => void;
+  onClose: () => void;
+}
+
+const ROLES: { role: CaregiverRole; label: string; description: string }[] = [
+  { role: 'primary', label: 'Primary', description: 'Resets alerts and gets PIN reset codes. Only one caregiver can be primary.' },
+  { role: 'backup', label: 'Backup', description: 'Gets Level 1 and 2 alerts only if the primary caregiver hasn\'t reset them in time.' },
+  { role: 'observer', label: 'Observer', description: 'Just gets the texts chosen below. Can\'t use text commands.' },
+];
+
+export default function CaregiverEditModal({ visible, caregiver, onSave, onRemove, onClose }: CaregiverEditModalProps) {
+  const [name, setName] = useState('');
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [role, setRole] = useState<CaregiverRole>('primary');
+  const [alerts, setAlerts] = useState<CaregiverAlert[]>(DEFAULT_ALERTS.primary);
+
+  useEffect(() => {
+    if (visible) {
+      setName(caregiver?.name || '');
+      setPhoneNumber(caregiver?.phoneNumber || '');
+      setRole(caregiver?.role || 'primary');
+      setAlerts(caregiver?.alerts || DEFAULT_ALERTS.primary);
+    }
+  }, [visible, caregiver]);
+
+  // New caregivers start with the usual alerts for their role
+  const chooseRole = (newRole: CaregiverRole) => {
+    setRole(newRole);
+    if (!caregiver) {
+      setAlerts(DEFAULT_ALERTS[newRole]);
+    }
+  };
+
+  const toggleAlert = (alert: CaregiverAlert) => {
+    setAlerts(alerts.includes(alert) ? alerts.filter(existing => existing !== alert) : [...alerts, alert]);
+  };
+
+  const save = () => {
+    if (!name.trim() || !isValidPhoneNumber(phoneNumber)) {
+      Alert.alert('Missing Information', 'Please enter a name and a valid phone number.');
+      return;
+    }
+
+    onSave({
+      id: caregiver?.id || Date.now().toString(),
+      name: name.trim(),
+      phoneNumber: normalizePhoneNumber(phoneNumber),
+      role,
+      alerts: (Object.keys(CAREGIVER_ALERT_LABELS) as CaregiverAlert[]).filter(alert => alerts.includes(alert)),
+    });
+  };
+
+  const confirmRemove = () => {
+    if (!caregiver) return;
+    Alert.alert(
+      'Remove Caregiver?',
+      `${caregiver.name} will no longer get any alerts.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Remove', style: 'destructive', onPress: () => onRemove(caregiver) },
+      ]
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.modal}>
+          <Text style={styles.title}>{caregiver ? 'Edit Caregiver' : 'Add Caregiver'}</Text>
+
+          <ScrollView style={styles.form} showsVerticalScrollIndicator={false}>
+            <Text style={styles.label}>Name</Text>
+            <TextInput
+              style={styles.input}
+              value={name}
+              onChangeText={setName}
+              placeholder="Sarah"
+              placeholderTextColor="#666"
+            />
+
+            <Text style={styles.label}>Phone Number</Text>
+            <TextInput
+              style={styles.input}
+              value={phoneNumber}
+              onChangeText={setPhoneNumber}
+              placeholder="+15551234567"
+              placeholderTextColor="#666"
+              keyboardType="phone-pad"
+              autoCapitalize="none"
+            />
+
+            <Text style={styles.label}>Role</Text>
+            <View style={styles.toggleContainer}>
+              {ROLES.map(option => (
+                <TouchableOpacity
+                  key={option.role}
+                  style={[styles.toggleButton, role === option.role && styles.toggleButtonActive]}
+                  onPress={() => chooseRole(option.role)}
+                >
+                  <Text style={[styles.toggleText, role === option.role && styles.toggleTextActive]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.description}>
+              {ROLES.find(option => option.role === role)!.description}
+            </Text>
+
+            <Text style={styles.label}>Texts to Get</Text>
+            {(Object.keys(CAREGIVER_ALERT_LABELS) as CaregiverAlert[]).map(alert => (
+              <TouchableOpacity
+                key={alert}
+                style={[styles.alertOption, alerts.includes(alert) && styles.alertOptionActive]}
+                onPress={() => toggleAlert(alert)}
+              >
+                <Text style={styles.alertOptionText}>
+                  {alerts.includes(alert) ? '✅' : '⬜'} {CAREGIVER_ALERT_LABELS[alert]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+
+          <TouchableOpacity style={styles.saveButton} onPress={save}>
+            <Text style={styles.buttonText}>Save</Text>
+          </TouchableOpacity>
+          {caregiver && (
+            <TouchableOpacity style={styles.removeButton} onPress={confirmRemove}>
+              <Text style={styles.buttonText}>Remove</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+            <Text style={styles.buttonText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.8)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modal: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 20,
+    padding: 24,
+    borderWidth: 1,
+    borderColor: '#333',
+    width: '90%',
+    maxHeight: '90%',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  form: {
+    alignSelf: 'stretch',
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 8,
+    marginTop: 20,
+  },
+  input: {
+    backgroundColor: '#111',
+    borderWidth: 2,
+    borderColor: '#333',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    color: '#fff',
+    minHeight: 56,
+  },
+  toggleContainer: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  toggleButton: {
+    flex: 1,
+    backgroundColor: '#333',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: '#333',
+  },
+  toggleButtonActive: {
+    backgroundColor: '#4CAF50',
+    borderColor: '#4CAF50',
+  },
+  toggleText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#ccc',
+  },
+  toggleTextActive: {
+    color: '#fff',
+  },
+  description: {
+    fontSize: 16,
+    color: '#ccc',
+    lineHeight: 22,
+    marginTop: 8,
+  },
+  alertOption: {
+    backgroundColor: '#111',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+    borderWidth: 2,
+    borderColor: '#333',
+  },
+  alertOptionActive: {
+    borderColor: '#4CAF50',
+  },
+  alertOptionText: {
+    fontSize: 18,
+    color: '#fff',
+  },
+  saveButton: {
+    backgroundColor: '#4CAF50',
+    paddingVertical: 16,
+    borderRadius: 16,
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  removeButton: {
+    backgroundColor: '#F44336',
+    paddingVertical: 16,
+    borderRadius: 16,
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  cancelButton: {
+    backgroundColor: '#666',
+    paddingVertical: 16,
+    borderRadius: 16,
+    alignItems: 'center',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+});
@@ -9,12 +9,34 @@ import {
   TextInput,
 } from 'react-native';
 import * as Contacts from 'expo-contacts';
-import { Contact } from '../types/Contact';
+import { Contact, ContactPhoneNumber, PhoneNumberLabel } from '../types/Contact';
 
 interface DeviceContact {
   id: string;
   name: string;
-  phoneNumbers: { number: string }[];
+  phoneNumbers: { number: string; label?: string }[];
+}
+
+const LABEL_NAMES: Record<PhoneNumberLabel, string> = {
+  mobile: 'Mobile',
+  home: 'Home',
+  work: 'Work',
+  other: 'Other',
+};
+
+// Address book labels vary by platform ('mobile', 'iPhone', 'home fax'...)
+function toNumberLabel(label?: string): PhoneNumberLabel {
+  const lower = (label || '').toLowerCase();
+  if (lower.includes('mobile') || lower.includes('cell') || lower.includes('iphone')) return 'mobile';
+  if (lower.includes('home')) return 'home';
+  if (lower.includes('work')) return 'work';
+  return 'other';
+}
+
+function toContactNumbers(deviceContact: DeviceContact): ContactPhoneNumber[] {
+  return deviceContact.phoneNumbers
+    .filter(entry => !!entry.number)
+    .map(entry => ({ label: toNumberLabel(entry.label), number: entry.number }));
 }
 
 interface ContactSelectorProps {
@@ -75,12 +97,14 @@ export default function ContactSelector({ selectedContacts, onContactsChange }:
       const updatedContacts = selectedContacts.filter(contact => contact.id !== deviceContact.id);
       onContactsChange(updatedContacts);
     } else {
-      // Add contact (no limit)
-      const primaryPhone = deviceContact.phoneNumbers[0]?.number || '';
+      // Add contact (no limit). Texts and calls start on the mobile number if there is one.
+      const numbers = toContactNumbers(deviceContact);
+      const primaryPhone = (numbers.find(entry => entry.label === 'mobile') || numbers[0])?.number || '';
       const newContact: Contact = {
         id: deviceContact.id,
         name: deviceContact.name,
         phoneNumber: primaryPhone,
+        phoneNumbers: numbers,
         birthdate: 'Not set', // Default birthdate
       };
 
@@ -88,6 +112,48 @@ export default function ContactSelector({ selectedContacts, onContactsChange }:
     }
   };
 
+  const setPreferredNumber = (deviceContact: DeviceContact, use: 'text' | 'call', number: string) => {
+    const updatedContacts = selectedContacts.map(contact => {
+      if (contact.id !== deviceContact.id) return contact;
+
+      const phoneNumbers = contact.phoneNumbers || toContactNumbers(deviceContact);
+      return use === 'text'
+        ? { ...contact, phoneNumbers, phoneNumber: number }
+        : { ...contact, phoneNumbers, callNumber: number };
+    });
+    onContactsChange(updatedContacts);
+  };
+
+  const renderNumberChoices = (deviceContact: DeviceContact, selected: Contact) => {
+    const numbers = selected.phoneNumbers || toContactNumbers(deviceContact);
+    if (numbers.length < 2) return null;
+
+    const callNumber = selected.callNumber || selected.phoneNumber;
+    return (
+      <View style={styles.numberChoices}>
+        {(['text', 'call'] as const).map(use => (
+          <View key={use}>
+            <Text style={styles.numberChoiceTitle}>{use === 'text' ? '💬 Texts go to:' : '📞 Calls go to:'}</Text>
+            {numbers.map(entry => {
+              const isChosen = entry.number === (use === 'text' ? selected.phoneNumber : callNumber);
+              return (
+                <TouchableOpacity
+                  key={`${use}-${entry.number}`}
+                  style={[styles.numberChip, isChosen && styles.numberChipSelected]}
+                  onPress={() => setPreferredNumber(deviceContact, use, entry.number)}
+                >
+                  <Text style={[styles.numberChipText, isChosen && styles.numberChipTextSelected]}>
+                    {isChosen ? '✓ ' : ''}{LABEL_NAMES[entry.label]}: {entry.number}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        ))}
+      </View>
+    );
+  };
+
   const filteredContacts = deviceContacts
     .filter(contact =>
       contact.name.toLowerCase().includes(searchText.toLowerCase())
@@ -105,22 +171,23 @@ export default function ContactSelector({ selectedContacts, onContactsChange }:
     });
 
   const renderContact = ({ item }: { item: DeviceContact }) => {
-    const isSelected = isContactSelected(item);
-    const primaryPhone = item.phoneNumbers[0]?.number || 'No phone';
+    const selected = selectedContacts.find(contact => contact.id === item.id);
+    const primaryPhone = selected?.phoneNumber || item.phoneNumbers[0]?.number || 'No phone';
+    const extraNumbers = item.phoneNumbers.length > 1 ? ` (+${item.phoneNumbers.length - 1} more)` : '';
 
     return (
-      <TouchableOpacity
-        style={[styles.contactItem, isSelected && styles.contactItemSelected]}
-        onPress={() => toggleContact(item)}
-      >
-        <View style={styles.contactInfo}>
-          <Text style={styles.contactName}>{item.name}</Text>
-          <Text style={styles.contactPhone}>{primaryPhone}</Text>
-        </View>
-        <View style={[styles.checkbox, isSelected && styles.checkboxSelected]}>
-          {isSelected && <Text style={styles.checkmark}>✓</Text>}
-        </View>
-      </TouchableOpacity>
+      <View style={[styles.contactItem, selected && styles.contactItemSelected]}>
+        <TouchableOpacity style={styles.contactRow} onPress={() => toggleContact(item)}>
+          <View style={styles.contactInfo}>
+            <Text style={styles.contactName}>{item.name}</Text>
+            <Text style={styles.contactPhone}>{primaryPhone}{extraNumbers}</Text>
+          </View>
+          <View style={[styles.checkbox, selected && styles.checkboxSelected]}>
+            {selected && <Text style={styles.checkmark}>✓</Text>}
+          </View>
+        </TouchableOpacity>
+        {selected && renderNumberChoices(item, selected)}
+      </View>
     );
   };
 
@@ -181,8 +248,6 @@ const styles = StyleSheet.create({
     flex: 1,
   },
   contactItem: {
-    flexDirection: 'row',
-    alignItems: 'center',
     padding: 16,
     backgroundColor: '#1a1a1a',
     borderRadius: 12,
@@ -194,9 +259,44 @@ const styles = StyleSheet.create({
     borderColor: '#4CAF50',
     backgroundColor: '#1a2a1a',
   },
+  contactRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   contactInfo: {
     flex: 1,
   },
+  numberChoices: {
+    marginTop: 12,
+    gap: 12,
+  },
+  numberChoiceTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 6,
+  },
+  numberChip: {
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: '#333',
+    backgroundColor: '#111',
+    marginBottom: 6,
+  },
+  numberChipSelected: {
+    borderColor: '#4CAF50',
+    backgroundColor: '#1a2a1a',
+  },
+  numberChipText: {
+    fontSize: 16,
+    color: '#ccc',
+  },
+  numberChipTextSelected: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
   contactName: {
     fontSize: 18,
     fontWeight: 'bold',
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   View,
   Text,
@@ -7,35 +7,191 @@ import {
   Modal,
   Alert,
 } from 'react-native';
+import PinService, { PIN_MIN_LENGTH, PIN_MAX_LENGTH, RECOVERY_CODE_LENGTH } from '../services/PinService';
+import { formatPhoneNumber } from '../services/PhoneNumbers';
 
 interface PinEntryModalProps {
   visible: boolean;
   onClose: () => void;
   onSuccess: () => void;
+  // 'change' skips straight to choosing a new PIN - settings are already unlocked
+  mode?: 'unlock' | 'change';
 }
 
-const CORRECT_PIN = '1234'; // You can change this to any 4-digit PIN
+type Stage = 'enter' | 'recover' | 'create' | 'confirm';
 
-export default function PinEntryModal({ visible, onClose, onSuccess }: PinEntryModalProps) {
+function formatWait(milliseconds: number): string {
+  const seconds = Math.ceil(milliseconds / 1000);
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+export default function PinEntryModal({ visible, onClose, onSuccess, mode = 'unlock' }: PinEntryModalProps) {
   const [enteredPin, setEnteredPin] = useState('');
+  const [stage, setStage] = useState<Stage>('enter');
+  const [newPin, setNewPin] = useState('');
+  const [checking, setChecking] = useState(false);
+  const [lockedUntil, setLockedUntil] = useState(0);
+  const [now, setNow] = useState(Date.now());
+  const [biometricsReady, setBiometricsReady] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    const prepare = async () => {
+      setEnteredPin('');
+      setNewPin('');
+      const hasPin = await PinService.hasPin();
+      setStage(mode === 'change' || !hasPin ? 'create' : 'enter');
+      setLockedUntil(await PinService.getLockedUntil());
+      setBiometricsReady(hasPin && mode === 'unlock' &&
+        await PinService.isBiometricEnabled() && await PinService.isBiometricAvailable());
+    };
+    prepare();
+  }, [visible, mode]);
+
+  // Count down while locked out
+  useEffect(() => {
+    if (!lockedUntil) return;
+
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= lockedUntil) {
+        setLockedUntil(0);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [lockedUntil]);
+
+  const isLocked = stage === 'enter' && lockedUntil > now;
+
+  const maxLength = stage === 'recover' ? RECOVERY_CODE_LENGTH : PIN_MAX_LENGTH;
 
   const handleNumberPress = (number: string) => {
-    if (enteredPin.length < 4) {
-      const newPin = enteredPin + number;
-      setEnteredPin(newPin);
-      
-      if (newPin.length === 4) {
-        // Check PIN after a short delay for better UX
-        setTimeout(() => {
-          if (newPin === CORRECT_PIN) {
-            setEnteredPin('');
-            onSuccess();
-          } else {
-            Alert.alert('Incorrect PIN', 'Please try again.');
-            setEnteredPin('');
-          }
-        }, 300);
+    if (checking || isLocked || enteredPin.length >= maxLength) return;
+    setEnteredPin(enteredPin + number);
+  };
+
+  const checkPin = async (pin: string) => {
+    setChecking(true);
+    try {
+      const result = await PinService.verifyPin(pin);
+      setEnteredPin('');
+      if (result.ok) {
+        onSuccess();
+        return;
+      }
+
+      if (result.lockedUntil) {
+        setNow(Date.now());
+        setLockedUntil(result.lockedUntil);
+        Alert.alert('Too Many Tries 🔒', `Please wait ${formatWait(result.lockedUntil - Date.now())} before trying again.`);
+      } else if (result.attemptsLeft <= 2) {
+        Alert.alert('Incorrect PIN', `Please try again. ${result.attemptsLeft} more ${result.attemptsLeft === 1 ? 'try' : 'tries'} before settings lock for a while.`);
+      } else {
+        Alert.alert('Incorrect PIN', 'Please try again.');
+      }
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const requestRecoveryCode = async () => {
+    setChecking(true);
+    try {
+      const result = await PinService.requestRecoveryCode();
+      if (result.sent) {
+        setEnteredPin('');
+        setStage('recover');
+        Alert.alert('Code Sent 📱', `A reset code was texted to the primary caregiver's phone (${formatPhoneNumber(result.sentTo)}). It works once, for 10 minutes.`);
+      } else {
+        Alert.alert('Code Not Sent', result.error);
+      }
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleForgotPin = () => {
+    Alert.alert(
+      'Forgot PIN? 🔑',
+      'We can text a reset code to the caregiver\'s phone. Enter the code here to choose a new PIN.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Send Code', onPress: requestRecoveryCode },
+      ]
+    );
+  };
+
+  const checkRecoveryCode = async (code: string) => {
+    setChecking(true);
+    try {
+      const result = await PinService.verifyRecoveryCode(code);
+      if (result.ok) {
+        setStage('create');
+      } else if (result.expired || result.attemptsLeft <= 0) {
+        Alert.alert('Code No Longer Works', 'The code has expired or was entered wrong too many times. Ask for a new one with "Forgot PIN?".');
+        setStage('enter');
+      } else {
+        Alert.alert('Incorrect Code', `Please check the text and try again. ${result.attemptsLeft} ${result.attemptsLeft === 1 ? 'try' : 'tries'} left.`);
       }
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const saveNewPin = async (pin: string) => {
+    if (pin !== newPin) {
+      Alert.alert('PINs Don\'t Match', 'Please choose your new PIN again.');
+      setNewPin('');
+      setStage('create');
+      return;
+    }
+
+    setChecking(true);
+    try {
+      await PinService.setPin(pin);
+      Alert.alert('PIN Saved ✅', 'Use this PIN to open settings from now on.');
+      onSuccess();
+    } catch (error) {
+      Alert.alert('Error', 'Failed to save the PIN. Please try again.');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleSubmit = () => {
+    if (checking || isLocked) return;
+    if (stage === 'recover') {
+      if (enteredPin.length === RECOVERY_CODE_LENGTH) {
+        const code = enteredPin;
+        setEnteredPin('');
+        checkRecoveryCode(code);
+      }
+      return;
+    }
+    if (enteredPin.length < PIN_MIN_LENGTH) {
+      Alert.alert('PIN Too Short', `PINs are ${PIN_MIN_LENGTH} to ${PIN_MAX_LENGTH} digits.`);
+      return;
+    }
+
+    const pin = enteredPin;
+    setEnteredPin('');
+    if (stage === 'enter') {
+      checkPin(pin);
+    } else if (stage === 'create') {
+      setNewPin(pin);
+      setStage('confirm');
+    } else {
+      saveNewPin(pin);
+    }
+  };
+
+  const handleBiometrics = async () => {
+    if (await PinService.authenticateWithBiometrics()) {
+      setLockedUntil(0);
+      onSuccess();
     }
   };
 
@@ -48,10 +204,26 @@ export default function PinEntryModal({ visible, onClose, onSuccess }: PinEntryM
     onClose();
   };
 
+  const getTitle = () => {
+    if (stage === 'create') return mode === 'change' ? 'New PIN' : 'Create PIN';
+    if (stage === 'confirm') return 'Confirm PIN';
+    if (stage === 'recover') return 'Enter Code';
+    return 'Enter PIN';
+  };
+
+  const getSubtitle = () => {
+    if (isLocked) return `Too many tries. Try again in ${formatWait(lockedUntil - now)}.`;
+    if (checking) return 'Checking...';
+    if (stage === 'create') return `Choose a ${PIN_MIN_LENGTH} to ${PIN_MAX_LENGTH} digit PIN for settings`;
+    if (stage === 'confirm') return 'Enter the new PIN again';
+    if (stage === 'recover') return `Enter the ${RECOVERY_CODE_LENGTH}-digit code texted to the caregiver`;
+    return 'Enter your PIN to access settings';
+  };
+
   const renderPinDots = () => {
     return (
       <View style={styles.pinDots}>
-        {[...Array(4)].map((_, index) => (
+        {[...Array(stage === 'recover' ? RECOVERY_CODE_LENGTH : Math.max(PIN_MIN_LENGTH, enteredPin.length))].map((_, index) => (
           <View
             key={index}
             style={[
@@ -69,11 +241,11 @@ export default function PinEntryModal({ visible, onClose, onSuccess }: PinEntryM
       ['1', '2', '3'],
       ['4', '5', '6'],
       ['7', '8', '9'],
-      ['Clear', '0', 'Cancel'],
+      ['Clear', '0', 'OK'],
     ];
 
     return (
-      <View style={styles.numberPad}>
+      <View style={[styles.numberPad, isLocked && styles.numberPadLocked]}>
         {numbers.map((row, rowIndex) => (
           <View key={rowIndex} style={styles.numberRow}>
             {row.map((item, colIndex) => (
@@ -81,13 +253,15 @@ export default function PinEntryModal({ visible, onClose, onSuccess }: PinEntryM
                 key={colIndex}
                 style={[
                   styles.numberButton,
-                  (item === 'Clear' || item === 'Cancel') && styles.actionButton,
+                  item === 'Clear' && styles.actionButton,
+                  item === 'OK' && styles.okButton,
                 ]}
+                disabled={isLocked}
                 onPress={() => {
                   if (item === 'Clear') {
                     handleClear();
-                  } else if (item === 'Cancel') {
-                    handleClose();
+                  } else if (item === 'OK') {
+                    handleSubmit();
                   } else {
                     handleNumberPress(item);
                   }
@@ -96,7 +270,7 @@ export default function PinEntryModal({ visible, onClose, onSuccess }: PinEntryM
                 <Text
                   style={[
                     styles.numberButtonText,
-                    (item === 'Clear' || item === 'Cancel') && styles.actionButtonText,
+                    (item === 'Clear' || item === 'OK') && styles.actionButtonText,
                   ]}
                 >
                   {item}
@@ -118,11 +292,27 @@ export default function PinEntryModal({ visible, onClose, onSuccess }: PinEntryM
     >
       <View style={styles.overlay}>
         <View style={styles.modal}>
-          <Text style={styles.title}>Enter PIN</Text>
-          <Text style={styles.subtitle}>Enter 4-digit PIN to access settings</Text>
+          <Text style={styles.title}>{getTitle()}</Text>
+          <Text style={styles.subtitle}>{getSubtitle()}</Text>
           
           {renderPinDots()}
           {renderNumberPad()}
+
+          {stage === 'enter' && biometricsReady && (
+            <TouchableOpacity style={styles.biometricButton} onPress={handleBiometrics}>
+              <Text style={styles.biometricButtonText}>👆 Use Fingerprint or Face</Text>
+            </TouchableOpacity>
+          )}
+
+          {stage === 'enter' && mode === 'unlock' && (
+            <TouchableOpacity style={styles.forgotButton} onPress={handleForgotPin} disabled={checking}>
+              <Text style={styles.forgotButtonText}>Forgot PIN?</Text>
+            </TouchableOpacity>
+          )}
+
+          <TouchableOpacity style={styles.cancelButton} onPress={handleClose}>
+            <Text style={styles.cancelButtonText}>Cancel</Text>
+          </TouchableOpacity>
         </View>
       </View>
     </Modal>
@@ -191,10 +381,17 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#555',
   },
+  numberPadLocked: {
+    opacity: 0.4,
+  },
   actionButton: {
     backgroundColor: '#2196F3',
     borderColor: '#2196F3',
   },
+  okButton: {
+    backgroundColor: '#4CAF50',
+    borderColor: '#4CAF50',
+  },
   numberButtonText: {
     fontSize: 24,
     fontWeight: 'bold',
@@ -205,4 +402,37 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#fff',
   },
+  biometricButton: {
+    marginTop: 25,
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderRadius: 12,
+    backgroundColor: '#333',
+    borderWidth: 1,
+    borderColor: '#555',
+  },
+  biometricButtonText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  forgotButton: {
+    marginTop: 20,
+    paddingVertical: 10,
+    paddingHorizontal: 30,
+  },
+  forgotButtonText: {
+    fontSize: 18,
+    color: '#2196F3',
+    textDecorationLine: 'underline',
+  },
+  cancelButton: {
+    marginTop: 20,
+    paddingVertical: 10,
+    paddingHorizontal: 30,
+  },
+  cancelButtonText: {
+    fontSize: 18,
+    color: '#ccc',
+  },
 });
\ No newline at end of file
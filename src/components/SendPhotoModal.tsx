@@ -0,0 +1,223 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Alert,
+  Image,
+  ScrollView,
+} from 'react-native';
+import SecureStorage from '../services/SecureStorage';
+import { Contact } from '../types/Contact';
+import TwilioService from '../services/TwilioService';
+import MessageService from '../services/MessageService';
+import { formatPhoneNumber } from '../services/PhoneNumbers';
+import FrequencyTracker from '../services/FrequencyTracker';
+import CaregiverNotificationService from '../services/CaregiverNotificationService';
+
+interface SendPhotoModalProps {
+  visible: boolean;
+  photoUri: string;
+  onClose: () => void;
+}
+
+// Text stored with blocked photos so the caregiver can tell them apart from texts
+const BLOCKED_PHOTO_TEXT = '📷 Photo';
+
+export default function SendPhotoModal({ visible, photoUri, onClose }: SendPhotoModalProps) {
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [sendingTo, setSendingTo] = useState<string | null>(null);
+  const [frequencyTracker] = useState(() => FrequencyTracker.getInstance());
+  const [caregiverNotifications] = useState(() => CaregiverNotificationService.getInstance());
+
+  useEffect(() => {
+    if (visible) {
+      loadContacts();
+    }
+  }, [visible]);
+
+  const loadContacts = async () => {
+    try {
+      const contactsString = await SecureStorage.getItem('selected_contacts');
+      setContacts(contactsString ? JSON.parse(contactsString) : []);
+    } catch (error) {
+      console.error('Failed to load selected contacts:', error);
+    }
+  };
+
+  const confirmSend = (contact: Contact) => {
+    Alert.alert(
+      'Send Photo? 📷',
+      `Do you want to send this photo to ${contact.name}?\n\nPhone: ${formatPhoneNumber(contact.phoneNumber)}`,
+      [
+        { text: 'Cancel', style: 'default', onPress: () => {} },
+        { text: 'Yes, Send Photo', style: 'default', onPress: () => sendPhoto(contact) }
+      ],
+      { cancelable: false }
+    );
+  };
+
+  const showSentConfirmation = (contact: Contact) => {
+    Alert.alert(
+      'Photo Sent Successfully! ✅',
+      `Your photo was sent to ${contact.name}.`,
+      [{ text: 'OK', style: 'default', onPress: onClose }],
+      { cancelable: false }
+    );
+  };
+
+  const sendPhoto = async (contact: Contact) => {
+    setSendingTo(contact.id);
+
+    try {
+      await TwilioService.loadConfig();
+      if (!TwilioService.isConfigured()) {
+        Alert.alert('Twilio Not Configured', 'Please configure Twilio settings first to send photos.');
+        return;
+      }
+
+      await frequencyTracker.loadRecords();
+
+      const queued = await MessageService.countQueued(contact.id);
+      if (!frequencyTracker.canCommunicate(contact, 'text', queued)) {
+        await frequencyTracker.storeBlockedMessage(contact.id, BLOCKED_PHOTO_TEXT);
+        await caregiverNotifications.onCommunicationBlocked();
+
+        // Same as blocked texts: show the photo as sent so the user isn't confused
+        const message = await MessageService.addMessage(contact.id, contact.phoneNumber, '', 'sent');
+        await MessageService.attachMedia(contact.phoneNumber, message.id, [{
+          sid: message.id,
+          contentType: 'image/jpeg',
+          remoteUrl: photoUri,
+          localUri: photoUri,
+        }]);
+
+        await new Promise(resolve => setTimeout(resolve, 800));
+        showSentConfirmation(contact);
+        return;
+      }
+
+      await TwilioService.sendMMS(contact.phoneNumber, photoUri, '', contact.id);
+      // Like texts, only photos that actually went out count towards the limits
+      await frequencyTracker.recordCommunication(contact.id, 'text');
+      showSentConfirmation(contact);
+    } catch (error) {
+      Alert.alert(
+        'Photo Not Sent',
+        `Could not send your photo to ${contact.name}.\n\nPlease try again or ask for help.`,
+        [{ text: 'OK', style: 'default' }]
+      );
+    } finally {
+      setSendingTo(null);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.modal}>
+          <Text style={styles.title}>Send Photo To...</Text>
+          <Image source={{ uri: photoUri }} style={styles.preview} />
+
+          <ScrollView style={styles.contactList} showsVerticalScrollIndicator={false}>
+            {contacts.length === 0 ? (
+              <Text style={styles.emptyText}>No contacts have been set up yet.</Text>
+            ) : (
+              contacts.map(contact => (
+                <TouchableOpacity
+                  key={contact.id}
+                  style={[styles.contactButton, sendingTo !== null && styles.contactButtonDisabled]}
+                  onPress={() => confirmSend(contact)}
+                  disabled={sendingTo !== null}
+                >
+                  <Text style={styles.contactButtonText}>
+                    {sendingTo === contact.id ? 'Sending...' : contact.name}
+                  </Text>
+                </TouchableOpacity>
+              ))
+            )}
+          </ScrollView>
+
+          <TouchableOpacity style={styles.cancelButton} onPress={onClose} disabled={sendingTo !== null}>
+            <Text style={styles.cancelButtonText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.8)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modal: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 20,
+    padding: 24,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#333',
+    width: '90%',
+    maxHeight: '85%',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 16,
+  },
+  preview: {
+    width: 160,
+    height: 160,
+    borderRadius: 12,
+    marginBottom: 20,
+  },
+  contactList: {
+    alignSelf: 'stretch',
+  },
+  contactButton: {
+    backgroundColor: '#2196F3',
+    paddingVertical: 20,
+    borderRadius: 16,
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  contactButtonDisabled: {
+    backgroundColor: '#666',
+  },
+  contactButtonText: {
+    color: '#fff',
+    fontSize: 22,
+    fontWeight: 'bold',
+  },
+  emptyText: {
+    fontSize: 18,
+    color: '#ccc',
+    textAlign: 'center',
+    marginVertical: 20,
+  },
+  cancelButton: {
+    backgroundColor: '#666',
+    paddingVertical: 16,
+    borderRadius: 16,
+    alignItems: 'center',
+    alignSelf: 'stretch',
+    marginTop: 8,
+  },
+  cancelButtonText: {
+    color: '#fff',
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+});
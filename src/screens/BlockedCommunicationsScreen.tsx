@@ -9,8 +9,12 @@ import {
   Alert,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import FrequencyTracker, { BlockedMessage, BlockedCall } from '../services/FrequencyTracker';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useAudioPlayer, useAudioPlayerStatus } from 'expo-audio';
+import FrequencyTracker, { BlockedMessage, BlockedCall, BlockedIncomingCall, HeldMessage } from '../services/FrequencyTracker';
+import TwilioService from '../services/TwilioService';
+import { formatPhoneNumber } from '../services/PhoneNumbers';
+import SecureStorage from '../services/SecureStorage';
+import { PermanentSendError } from '../services/telephony';
 import { Contact } from '../types/Contact';
 
 interface BlockedCommunicationsScreenProps {
@@ -20,22 +24,45 @@ interface BlockedCommunicationsScreenProps {
 export default function BlockedCommunicationsScreen({ onBack }: BlockedCommunicationsScreenProps) {
   const [blockedMessages, setBlockedMessages] = useState<BlockedMessage[]>([]);
   const [blockedCalls, setBlockedCalls] = useState<BlockedCall[]>([]);
+  const [blockedIncomingCalls, setBlockedIncomingCalls] = useState<BlockedIncomingCall[]>([]);
+  const [heldMessages, setHeldMessages] = useState<HeldMessage[]>([]);
   const [contacts, setContacts] = useState<Contact[]>([]);
   const [frequencyTracker] = useState(() => FrequencyTracker.getInstance());
+  const [playingCallId, setPlayingCallId] = useState<string | null>(null);
+  const [loadingCallId, setLoadingCallId] = useState<string | null>(null);
+  const player = useAudioPlayer();
+  const playerStatus = useAudioPlayerStatus(player);
   const insets = useSafeAreaInsets();
 
   useEffect(() => {
     loadData();
   }, []);
 
+  useEffect(() => {
+    if (playerStatus.didJustFinish) {
+      setPlayingCallId(null);
+    }
+  }, [playerStatus.didJustFinish]);
+
   const loadData = async () => {
     try {
       await frequencyTracker.loadRecords();
       setBlockedMessages(frequencyTracker.getBlockedMessages());
       setBlockedCalls(frequencyTracker.getBlockedCalls());
+      setBlockedIncomingCalls(frequencyTracker.getBlockedIncomingCalls());
+      setHeldMessages([...frequencyTracker.getHeldMessages()]);
+
+      // Pick up calls turned away by the server and any voicemails recorded since last time
+      await TwilioService.loadConfig();
+      const newCalls = await TwilioService.syncIncomingCalls();
+      const newVoicemails = await TwilioService.syncVoicemails();
+      if (newCalls > 0 || newVoicemails > 0) {
+        setBlockedCalls([...frequencyTracker.getBlockedCalls()]);
+        setBlockedIncomingCalls([...frequencyTracker.getBlockedIncomingCalls()]);
+      }
       
       // Load contacts for names
-      const contactsString = await AsyncStorage.getItem('selected_contacts');
+      const contactsString = await SecureStorage.getItem('selected_contacts');
       if (contactsString) {
         setContacts(JSON.parse(contactsString));
       }
@@ -49,11 +76,84 @@ export default function BlockedCommunicationsScreen({ onBack }: BlockedCommunica
     return contact?.name || 'Unknown Contact';
   };
 
+  const getIncomingReason = (call: BlockedIncomingCall): string => {
+    const outcome = call.wentToVoicemail ? 'sent to voicemail' : 'turned away';
+    switch (call.reason) {
+      case 'unknown-caller': return `Unknown number - ${outcome}`;
+      case 'frequency-limit': return `Over the call limit - ${outcome}`;
+      case 'quiet-hours': return `During quiet hours - ${outcome}`;
+      default: return `Not put through - ${outcome}`;
+    }
+  };
+
   const formatTimestamp = (timestamp: number): string => {
     const date = new Date(timestamp);
     return date.toLocaleString();
   };
 
+  const formatDuration = (seconds?: number): string => {
+    if (!seconds) return '';
+    const minutes = Math.floor(seconds / 60);
+    return ` (${minutes}:${String(seconds % 60).padStart(2, '0')})`;
+  };
+
+  const toggleVoicemail = async (call: BlockedCall) => {
+    if (playingCallId === call.id) {
+      player.pause();
+      setPlayingCallId(null);
+      return;
+    }
+
+    setLoadingCallId(call.id);
+    try {
+      const audioUri = await TwilioService.getVoicemailAudio(call);
+      if (!audioUri) {
+        Alert.alert('Voicemail Not Available', 'This voicemail could not be downloaded. Please check the internet connection and try again.');
+        return;
+      }
+
+      player.replace({ uri: audioUri });
+      player.play();
+      setPlayingCallId(call.id);
+    } catch (error) {
+      console.error('Failed to play voicemail:', error);
+      Alert.alert('Voicemail Not Available', 'This voicemail could not be played.');
+    } finally {
+      setLoadingCallId(null);
+    }
+  };
+
+  const sendHeldMessage = (held: HeldMessage) => {
+    Alert.alert(
+      'Send This Message?',
+      `It will be sent to ${getContactName(held.contactId)} as written.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Send',
+          onPress: async () => {
+            try {
+              await TwilioService.loadConfig();
+              await TwilioService.queueSMS(held.phoneNumber, held.message, held.contactId);
+              await frequencyTracker.removeHeldMessage(held.id);
+              await loadData();
+            } catch (error) {
+              console.error('Failed to send held message:', error);
+              Alert.alert('Error', error instanceof PermanentSendError
+                ? `The carrier refused this message: ${error.message}`
+                : 'The message could not be sent. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const deleteHeldMessage = async (held: HeldMessage) => {
+    await frequencyTracker.removeHeldMessage(held.id);
+    await loadData();
+  };
+
   const clearAllBlocked = async () => {
     Alert.alert(
       'Clear All Blocked Communications',
@@ -64,6 +164,8 @@ export default function BlockedCommunicationsScreen({ onBack }: BlockedCommunica
           text: 'Clear All',
           style: 'destructive',
           onPress: async () => {
+            player.pause();
+            setPlayingCallId(null);
             await frequencyTracker.clearAllBlocked();
             await loadData();
             Alert.alert('Cleared', 'All blocked communications have been cleared.');
@@ -76,7 +178,9 @@ export default function BlockedCommunicationsScreen({ onBack }: BlockedCommunica
   // Combine and sort all violations by timestamp
   const allViolations = [
     ...blockedMessages.map(msg => ({ ...msg, type: 'message' as const })),
-    ...blockedCalls.map(call => ({ ...call, type: 'call' as const }))
+    ...blockedCalls.map(call => ({ ...call, type: 'call' as const })),
+    ...blockedIncomingCalls.map(call => ({ ...call, type: 'incoming-call' as const })),
+    ...heldMessages.map(msg => ({ ...msg, type: 'held' as const }))
   ].sort((a, b) => b.timestamp - a.timestamp); // Most recent first
 
   return (
@@ -93,6 +197,16 @@ export default function BlockedCommunicationsScreen({ onBack }: BlockedCommunica
           <Text style={styles.summaryText}>
             📝 {blockedMessages.length} blocked messages • 📞 {blockedCalls.length} blocked calls
           </Text>
+          {blockedIncomingCalls.length > 0 && (
+            <Text style={styles.summaryText}>
+              📲 {blockedIncomingCalls.length} incoming calls not put through
+            </Text>
+          )}
+          {heldMessages.length > 0 && (
+            <Text style={styles.summaryText}>
+              🔒 {heldMessages.length} messages waiting for your review
+            </Text>
+          )}
           <Text style={styles.summarySubtext}>
             Total: {allViolations.length} blocked communications
           </Text>
@@ -112,29 +226,69 @@ export default function BlockedCommunicationsScreen({ onBack }: BlockedCommunica
                 <View style={styles.violationHeader}>
                   <View style={styles.violationTypeContainer}>
                     <Text style={styles.violationIcon}>
-                      {violation.type === 'message' ? '💬' : '📞'}
+                      {violation.type === 'message' ? '💬' : violation.type === 'call' ? '📞' : violation.type === 'held' ? '🔒' : '📲'}
                     </Text>
                     <Text style={styles.violationType}>
-                      {violation.type === 'message' ? 'Message' : 'Call'}
+                      {violation.type === 'message' ? 'Message' : violation.type === 'call' ? 'Call' : violation.type === 'held' ? 'Held for Review' : 'Incoming Call'}
                     </Text>
                   </View>
                   <Text style={styles.violationNumber}>#{allViolations.length - index}</Text>
                 </View>
                 
                 <Text style={styles.contactName}>
-                  {getContactName(violation.contactId)}
+                  {violation.type === 'incoming-call' && violation.contactId === 'unknown'
+                    ? formatPhoneNumber(violation.phoneNumber)
+                    : getContactName(violation.contactId)}
                 </Text>
+
+                {violation.type === 'incoming-call' && (
+                  <Text style={styles.timestamp}>{getIncomingReason(violation)}</Text>
+                )}
                 
                 <Text style={styles.timestamp}>
                   {formatTimestamp(violation.timestamp)}
                 </Text>
                 
-                {violation.type === 'message' && (
+                {(violation.type === 'message' || violation.type === 'held') && (
                   <View style={styles.messageContainer}>
                     <Text style={styles.messageLabel}>Message:</Text>
                     <Text style={styles.messageText}>"{(violation as any).message}"</Text>
                   </View>
                 )}
+
+                {violation.type === 'held' && (
+                  <>
+                    <Text style={styles.heldReason}>Contains: {violation.reasons.join(', ')}</Text>
+                    <View style={styles.heldButtonRow}>
+                      <TouchableOpacity style={styles.heldSendButton} onPress={() => sendHeldMessage(violation)}>
+                        <Text style={styles.voicemailButtonText}>📤 Send Anyway</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity style={styles.heldDeleteButton} onPress={() => deleteHeldMessage(violation)}>
+                        <Text style={styles.voicemailButtonText}>🗑️ Delete</Text>
+                      </TouchableOpacity>
+                    </View>
+                  </>
+                )}
+
+                {(violation.type === 'call' || violation.type === 'incoming-call') && violation.voicemailRecordingUrl && (
+                  <TouchableOpacity
+                    style={[styles.voicemailButton, playingCallId === violation.id && styles.voicemailButtonPlaying]}
+                    onPress={() => toggleVoicemail(violation as BlockedCall)}
+                    disabled={loadingCallId === violation.id}
+                  >
+                    <Text style={styles.voicemailButtonText}>
+                      {loadingCallId === violation.id
+                        ? '⏳ Loading...'
+                        : playingCallId === violation.id
+                          ? '⏹️ Stop Voicemail'
+                          : `▶️ Play Voicemail${formatDuration((violation as BlockedCall).voicemailDuration)}`}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+
+                {violation.type === 'call' && violation.callSid && !violation.voicemailRecordingUrl && (
+                  <Text style={styles.voicemailPending}>📼 Voicemail call placed - no recording yet</Text>
+                )}
               </View>
             ))
           )}
@@ -280,6 +434,51 @@ const styles = StyleSheet.create({
     color: '#fff',
     lineHeight: 18,
   },
+  voicemailButton: {
+    marginTop: 8,
+    backgroundColor: '#2196F3',
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  voicemailButtonPlaying: {
+    backgroundColor: '#FF9800',
+  },
+  voicemailButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  heldReason: {
+    marginTop: 8,
+    fontSize: 14,
+    color: '#FF9800',
+    fontWeight: 'bold',
+  },
+  heldButtonRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  heldSendButton: {
+    flex: 1,
+    backgroundColor: '#4CAF50',
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  heldDeleteButton: {
+    flex: 1,
+    backgroundColor: '#FF5722',
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  voicemailPending: {
+    marginTop: 8,
+    fontSize: 14,
+    color: '#888',
+  },
   buttonContainer: {
     padding: 16,
     borderTopWidth: 1,
@@ -0,0 +1,377 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import SecureStorage from '../services/SecureStorage';
+import CallLogService from '../services/CallLogService';
+import TwilioService from '../services/TwilioService';
+import { formatPhoneNumber } from '../services/PhoneNumbers';
+import { CallRecord } from '../types/Call';
+import { Contact } from '../types/Contact';
+
+interface CallHistoryScreenProps {
+  onBack: () => void;
+}
+
+type CallFilter = 'all' | 'outgoing' | 'incoming' | 'blocked' | 'problems';
+
+const FILTERS: { id: CallFilter; label: string }[] = [
+  { id: 'all', label: 'All' },
+  { id: 'outgoing', label: 'Outgoing' },
+  { id: 'incoming', label: 'Incoming' },
+  { id: 'blocked', label: 'Blocked' },
+  { id: 'problems', label: 'Missed/Failed' },
+];
+
+export default function CallHistoryScreen({ onBack }: CallHistoryScreenProps) {
+  const [calls, setCalls] = useState<CallRecord[]>([]);
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [filter, setFilter] = useState<CallFilter>('all');
+  const [contactFilter, setContactFilter] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const insets = useSafeAreaInsets();
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      await CallLogService.loadCalls();
+      setCalls(CallLogService.getCalls());
+
+      const contactsString = await SecureStorage.getItem('selected_contacts');
+      if (contactsString) {
+        setContacts(JSON.parse(contactsString));
+      }
+
+      // Fetch incoming calls and finished call durations in the background
+      setRefreshing(true);
+      await TwilioService.loadConfig();
+      await TwilioService.syncIncomingCalls();
+      await TwilioService.checkCallDetails();
+      setCalls(CallLogService.getCalls());
+    } catch (error) {
+      console.error('Failed to load call history:', error);
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const getContactName = (call: CallRecord): string => {
+    const contact = contacts.find(c => c.id === call.contactId);
+    if (contact) return contact.name;
+    return call.contactId === 'unknown' ? formatPhoneNumber(call.phoneNumber) : 'Removed Contact';
+  };
+
+  const matchesFilter = (call: CallRecord): boolean => {
+    if (contactFilter && call.contactId !== contactFilter) return false;
+    switch (filter) {
+      case 'outgoing': return call.direction === 'outgoing';
+      case 'incoming': return call.direction === 'incoming';
+      case 'blocked': return call.outcome === 'blocked' || call.outcome === 'voicemail';
+      case 'problems': return call.outcome === 'missed' || call.outcome === 'failed';
+      default: return true;
+    }
+  };
+
+  const getOutcomeLabel = (call: CallRecord): string => {
+    switch (call.outcome) {
+      case 'completed': return '✅ Connected';
+      case 'in-progress': return '⏳ In progress';
+      case 'missed': return '📵 Not answered';
+      case 'failed': return '❌ Failed';
+      case 'voicemail': return '📼 Blocked - went to voicemail';
+      case 'blocked': return '🚫 Blocked';
+    }
+  };
+
+  const getReasonLabel = (reason?: string): string | null => {
+    switch (reason) {
+      case 'frequency-limit': return 'Over the call limit';
+      case 'quiet-hours': return 'During quiet hours';
+      case 'unknown-caller': return 'Not a selected contact';
+      case 'not-configured': return 'Call forwarding not set up';
+      default: return null;
+    }
+  };
+
+  const formatDuration = (seconds?: number): string | null => {
+    if (!seconds) return null;
+    const minutes = Math.floor(seconds / 60);
+    return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+  };
+
+  const clearHistory = () => {
+    Alert.alert(
+      'Clear Call History',
+      'Are you sure you want to delete the whole call history? Blocked communications are kept.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Clear',
+          style: 'destructive',
+          onPress: async () => {
+            await CallLogService.clearCalls();
+            setCalls([]);
+          },
+        },
+      ]
+    );
+  };
+
+  const filteredCalls = calls.filter(matchesFilter);
+  const hasUnknownCallers = calls.some(call => call.contactId === 'unknown');
+
+  return (
+    <View style={{ flex: 1, backgroundColor: '#000', paddingTop: insets.top }}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={onBack}>
+            <Text style={styles.backButtonText}>← Back</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Call History</Text>
+        </View>
+
+        <View style={styles.filters}>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            {FILTERS.map(option => (
+              <TouchableOpacity
+                key={option.id}
+                style={[styles.filterChip, filter === option.id && styles.filterChipActive]}
+                onPress={() => setFilter(option.id)}
+              >
+                <Text style={[styles.filterText, filter === option.id && styles.filterTextActive]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.contactFilters}>
+            <TouchableOpacity
+              style={[styles.filterChip, contactFilter === null && styles.filterChipActive]}
+              onPress={() => setContactFilter(null)}
+            >
+              <Text style={[styles.filterText, contactFilter === null && styles.filterTextActive]}>Everyone</Text>
+            </TouchableOpacity>
+            {contacts.map(contact => (
+              <TouchableOpacity
+                key={contact.id}
+                style={[styles.filterChip, contactFilter === contact.id && styles.filterChipActive]}
+                onPress={() => setContactFilter(contact.id)}
+              >
+                <Text style={[styles.filterText, contactFilter === contact.id && styles.filterTextActive]}>
+                  {contact.name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+            {hasUnknownCallers && (
+              <TouchableOpacity
+                style={[styles.filterChip, contactFilter === 'unknown' && styles.filterChipActive]}
+                onPress={() => setContactFilter('unknown')}
+              >
+                <Text style={[styles.filterText, contactFilter === 'unknown' && styles.filterTextActive]}>
+                  Unknown Numbers
+                </Text>
+              </TouchableOpacity>
+            )}
+          </ScrollView>
+          <Text style={styles.summaryText}>
+            {filteredCalls.length} of {calls.length} calls{refreshing ? ' • Updating...' : ''}
+          </Text>
+        </View>
+
+        <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+          {filteredCalls.length === 0 ? (
+            <View style={styles.emptyContainer}>
+              <Text style={styles.emptyText}>No calls to show.</Text>
+              <Text style={styles.emptySubtext}>
+                Calls made from this phone and calls to the Twilio number will appear here.
+              </Text>
+            </View>
+          ) : (
+            filteredCalls.map(call => {
+              const reason = getReasonLabel(call.reason);
+              const duration = formatDuration(call.durationSeconds);
+              return (
+                <View key={call.id} style={styles.callCard}>
+                  <View style={styles.callHeader}>
+                    <Text style={styles.callDirection}>
+                      {call.direction === 'outgoing' ? '📞 Outgoing' : '📲 Incoming'}
+                    </Text>
+                    {duration && <Text style={styles.callDuration}>{duration}</Text>}
+                  </View>
+                  <Text style={styles.contactName}>{getContactName(call)}</Text>
+                  <Text style={styles.timestamp}>{new Date(call.timestamp).toLocaleString()}</Text>
+                  <Text style={styles.outcome}>{getOutcomeLabel(call)}</Text>
+                  {reason && <Text style={styles.reason}>{reason}</Text>}
+                </View>
+              );
+            })
+          )}
+        </ScrollView>
+
+        {calls.length > 0 && (
+          <View style={styles.buttonContainer}>
+            <TouchableOpacity style={styles.clearButton} onPress={clearHistory}>
+              <Text style={styles.clearButtonText}>🗑️ Clear History</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingTop: 10,
+    paddingBottom: 16,
+    paddingHorizontal: 20,
+    backgroundColor: '#1a1a1a',
+    borderBottomWidth: 1,
+    borderBottomColor: '#333',
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    marginRight: 16,
+  },
+  backButtonText: {
+    fontSize: 20,
+    color: '#2196F3',
+    fontWeight: 'bold',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#fff',
+    flex: 1,
+  },
+  filters: {
+    padding: 16,
+    backgroundColor: '#1a1a1a',
+    borderBottomWidth: 1,
+    borderBottomColor: '#333',
+  },
+  contactFilters: {
+    marginTop: 8,
+  },
+  filterChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    backgroundColor: '#333',
+    marginRight: 8,
+  },
+  filterChipActive: {
+    backgroundColor: '#2196F3',
+  },
+  filterText: {
+    fontSize: 15,
+    color: '#ccc',
+    fontWeight: 'bold',
+  },
+  filterTextActive: {
+    color: '#fff',
+  },
+  summaryText: {
+    fontSize: 14,
+    color: '#ccc',
+    marginTop: 12,
+  },
+  scrollView: {
+    flex: 1,
+    padding: 16,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyText: {
+    fontSize: 18,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#888',
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+  callCard: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  callHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  callDirection: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  callDuration: {
+    fontSize: 16,
+    color: '#888',
+    fontWeight: 'bold',
+  },
+  contactName: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#2196F3',
+    marginBottom: 4,
+  },
+  timestamp: {
+    fontSize: 14,
+    color: '#ccc',
+    marginBottom: 8,
+  },
+  outcome: {
+    fontSize: 16,
+    color: '#fff',
+  },
+  reason: {
+    fontSize: 14,
+    color: '#888',
+    marginTop: 4,
+  },
+  buttonContainer: {
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#333',
+  },
+  clearButton: {
+    backgroundColor: '#FF5722',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  clearButtonText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+});
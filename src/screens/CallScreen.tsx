@@ -11,6 +11,8 @@ import {
 import * as Linking from 'expo-linking';
 import { Contact } from '../types/Contact';
 import FrequencyTracker from '../services/FrequencyTracker';
+import ContactResolver from '../services/ContactResolver';
+import { formatPhoneNumber } from '../services/PhoneNumbers';
 
 interface CallScreenProps {
   contact: Contact;
@@ -18,6 +20,7 @@ interface CallScreenProps {
 }
 
 export default function CallScreen({ contact, onBack }: CallScreenProps) {
+  const callNumber = ContactResolver.getCallNumber(contact);
   const [isCalling, setIsCalling] = useState(false);
   const [frequencyTracker] = useState(() => FrequencyTracker.getInstance());
 
@@ -40,7 +43,7 @@ export default function CallScreen({ contact, onBack }: CallScreenProps) {
     try {
       await frequencyTracker.recordCommunication(contact.id, 'call');
       
-      const phoneUrl = `tel:${contact.phoneNumber}`;
+      const phoneUrl = `tel:${callNumber}`;
       const canOpen = await Linking.canOpenURL(phoneUrl);
       if (canOpen) {
         await Linking.openURL(phoneUrl);
@@ -75,7 +78,7 @@ export default function CallScreen({ contact, onBack }: CallScreenProps) {
             </View>
           )}
           <Text style={styles.name}>{contact.name}</Text>
-          <Text style={styles.phoneNumber}>{contact.phoneNumber}</Text>
+          <Text style={styles.phoneNumber}>{formatPhoneNumber(callNumber)}</Text>
         </View>
 
         <View style={styles.callActions}>
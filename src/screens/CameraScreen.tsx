@@ -10,6 +10,7 @@ import {
 } from 'react-native';
 import * as ImagePicker from 'expo-image-picker';
 import * as MediaLibrary from 'expo-media-library';
+import SendPhotoModal from '../components/SendPhotoModal';
 
 interface CameraScreenProps {
   onBack: () => void;
@@ -17,6 +18,7 @@ interface CameraScreenProps {
 
 export default function CameraScreen({ onBack }: CameraScreenProps) {
   const [lastMedia, setLastMedia] = useState<{ uri: string; type: 'photo' | 'video' } | null>(null);
+  const [showSendModal, setShowSendModal] = useState(false);
 
   const takePhoto = async () => {
     try {
@@ -49,6 +51,7 @@ export default function CameraScreen({ onBack }: CameraScreenProps) {
           await MediaLibrary.saveToLibraryAsync(photoUri);
           Alert.alert('Photo saved!', 'Your photo has been saved to your camera roll', [
             { text: 'Take Another', onPress: () => {} },
+            { text: 'Send to...', onPress: () => setShowSendModal(true) },
             { text: 'Done', onPress: onBack }
           ]);
         } catch (saveError) {
@@ -119,7 +122,12 @@ export default function CameraScreen({ onBack }: CameraScreenProps) {
               Last {lastMedia.type} {lastMedia.type === 'photo' ? 'taken' : 'recorded'}:
             </Text>
             {lastMedia.type === 'photo' ? (
-              <Image source={{ uri: lastMedia.uri }} style={styles.lastMedia} />
+              <>
+                <Image source={{ uri: lastMedia.uri }} style={styles.lastMedia} />
+                <TouchableOpacity style={styles.sendButton} onPress={() => setShowSendModal(true)}>
+                  <Text style={styles.sendButtonText}>📤 Send to...</Text>
+                </TouchableOpacity>
+              </>
             ) : (
               <View style={styles.videoPlaceholder}>
                 <Text style={styles.videoIcon}>🎥</Text>
@@ -143,6 +151,14 @@ export default function CameraScreen({ onBack }: CameraScreenProps) {
           </TouchableOpacity>
         </View>
       </View>
+
+      {lastMedia?.type === 'photo' && (
+        <SendPhotoModal
+          visible={showSendModal}
+          photoUri={lastMedia.uri}
+          onClose={() => setShowSendModal(false)}
+        />
+      )}
     </SafeAreaView>
   );
 }
@@ -199,6 +215,18 @@ const styles = StyleSheet.create({
     borderWidth: 2,
     borderColor: '#333',
   },
+  sendButton: {
+    backgroundColor: '#2196F3',
+    paddingVertical: 14,
+    paddingHorizontal: 32,
+    borderRadius: 16,
+    marginTop: 12,
+  },
+  sendButtonText: {
+    color: '#fff',
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
   videoPlaceholder: {
     width: 150,
     height: 150,
@@ -12,9 +12,13 @@ import {
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import TwilioService from '../services/TwilioService';
+import ContactResolver from '../services/ContactResolver';
+import { normalizePhoneNumber, formatPhoneNumber } from '../services/PhoneNumbers';
 import { Contact } from '../types/Contact';
 import FrequencyTracker from '../services/FrequencyTracker';
 import CaregiverNotificationService from '../services/CaregiverNotificationService';
+import CallLogService from '../services/CallLogService';
+import { CallRecord } from '../types/Call';
 
 interface ContactDetailScreenProps {
   contact: Contact;
@@ -24,13 +28,16 @@ interface ContactDetailScreenProps {
 
 export default function ContactDetailScreen({ contact, onBack, onMessage }: ContactDetailScreenProps) {
   const [isCalling, setIsCalling] = useState(false);
+  const callNumber = ContactResolver.getCallNumber(contact); // May differ from the number texts go to
   const [twilioConfigured, setTwilioConfigured] = useState(false);
   const [frequencyTracker] = useState(() => FrequencyTracker.getInstance());
   const [caregiverNotifications] = useState(() => CaregiverNotificationService.getInstance());
+  const [recentCalls, setRecentCalls] = useState<CallRecord[]>([]);
   const insets = useSafeAreaInsets();
 
   useEffect(() => {
     checkTwilioConfig();
+    loadRecentCalls();
     
     // iOS Assistive Access back button handling
     const onBackPress = () => {
@@ -51,6 +58,46 @@ export default function ContactDetailScreen({ contact, onBack, onMessage }: Cont
     setTwilioConfigured(TwilioService.isConfigured());
   };
 
+  // Calls the limits stopped from ringing through are hidden from the user - blocked
+  // outgoing calls look like ordinary calls, and blocked incoming ones never happened for them
+  const loadRecentCalls = async () => {
+    await CallLogService.loadCalls();
+    const visibleCalls = () => CallLogService.getCallsForContact(contact.id)
+      .filter(call => call.direction === 'outgoing' || (call.outcome !== 'blocked' && call.outcome !== 'voicemail'))
+      .slice(0, 5);
+    setRecentCalls(visibleCalls());
+
+    await TwilioService.checkCallDetails();
+    setRecentCalls(visibleCalls());
+  };
+
+  const formatCallTime = (timestamp: number): string => {
+    const date = new Date(timestamp);
+    const time = date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+    const today = new Date();
+    const yesterday = new Date(today.getTime() - 24 * 60 * 60 * 1000);
+
+    if (date.toDateString() === today.toDateString()) return `Today ${time}`;
+    if (date.toDateString() === yesterday.toDateString()) return `Yesterday ${time}`;
+    return `${date.toLocaleDateString([], { weekday: 'long', month: 'short', day: 'numeric' })} ${time}`;
+  };
+
+  const describeCall = (call: CallRecord): string => {
+    if (call.direction === 'incoming') {
+      return call.outcome === 'missed' ? `📲 Missed call from ${contact.name}` : `📲 ${contact.name} called you`;
+    }
+    if (call.outcome === 'failed') {
+      return `📞 Call didn't go through`;
+    }
+    return '📞 You called';
+  };
+
+  const formatCallDuration = (call: CallRecord): string => {
+    if (call.outcome !== 'completed' || !call.durationSeconds) return '';
+    const minutes = Math.round(call.durationSeconds / 60);
+    return minutes < 1 ? ' · under a minute' : ` · ${minutes} min`;
+  };
+
   const handleCall = async () => {
     if (!twilioConfigured) {
       Alert.alert(
@@ -67,7 +114,7 @@ export default function ContactDetailScreen({ contact, onBack, onMessage }: Cont
     // Show confirmation dialog before calling
     Alert.alert(
       'Make Phone Call? 📞',
-      `Do you want to call ${contact.name}?\n\nPhone: ${contact.phoneNumber}\n\nYou will receive a call on your phone that connects you to ${contact.name}.`,
+      `Do you want to call ${contact.name}?\n\nPhone: ${formatPhoneNumber(callNumber)}\n\nYou will receive a call on your phone that connects you to ${contact.name}.`,
       [
         {
           text: 'Cancel',
@@ -93,12 +140,42 @@ export default function ContactDetailScreen({ contact, onBack, onMessage }: Cont
       
       if (!frequencyTracker.canCommunicate(contact, 'call')) {
         // Store blocked call for caregiver review
-        await frequencyTracker.storeBlockedCall(contact.id);
+        const blockedCall = await frequencyTracker.storeBlockedCall(contact.id);
+        const loggedCall = await CallLogService.addCall({
+          contactId: contact.id,
+          phoneNumber: normalizePhoneNumber(callNumber),
+          direction: 'outgoing',
+          outcome: 'blocked',
+          timestamp: blockedCall.timestamp,
+          reason: 'frequency-limit',
+        });
         
         // Notify caregiver of blocked communication
         await caregiverNotifications.onCommunicationBlocked();
         
         // Check if voicemail is still allowed
+        if (frequencyTracker.canLeaveVoicemail(contact) && TwilioService.canRecordVoicemail()) {
+          // Ring the user's phone so they can leave a real voicemail the caregiver can play later.
+          // This looks just like a normal call starting.
+          try {
+            const callSid = await TwilioService.startVoicemailCall(contact);
+            await frequencyTracker.setBlockedCallSid(blockedCall.id, callSid);
+            if (loggedCall) {
+              await CallLogService.updateCall(loggedCall.id, { outcome: 'voicemail', providerSid: callSid });
+            }
+            setIsCalling(false);
+            Alert.alert(
+              'Call Started Successfully! ✅',
+              `Your call to ${contact.name} has been started.\n\nPhone: ${formatPhoneNumber(callNumber)}\n\nYou should receive a call on your phone shortly.`,
+              [{ text: 'OK', style: 'default', onPress: onBack }],
+              { cancelable: false }
+            );
+            return;
+          } catch (error) {
+            console.error('Voicemail call failed:', error);
+          }
+        }
+
         if (frequencyTracker.canLeaveVoicemail(contact)) {
           // Ring longer (4 seconds) then show completed - simulates voicemail
           setTimeout(() => {
@@ -118,10 +195,10 @@ export default function ContactDetailScreen({ contact, onBack, onMessage }: Cont
       // Record the allowed communication
       await frequencyTracker.recordCommunication(contact.id, 'call');
       
-      await TwilioService.makeCall(contact.phoneNumber);
+      await TwilioService.makeCall(callNumber, contact.id);
       Alert.alert(
         'Call Started Successfully! ✅', 
-        `Your call to ${contact.name} has been started.\n\nPhone: ${contact.phoneNumber}\n\nYou should receive a call on your phone shortly.`,
+        `Your call to ${contact.name} has been started.\n\nPhone: ${formatPhoneNumber(callNumber)}\n\nYou should receive a call on your phone shortly.`,
         [{ 
           text: 'OK', 
           style: 'default',
@@ -187,7 +264,7 @@ export default function ContactDetailScreen({ contact, onBack, onMessage }: Cont
             </View>
           )}
           <Text style={styles.name}>{contact.name}</Text>
-          <Text style={styles.phoneNumber}>{contact.phoneNumber}</Text>
+          <Text style={styles.phoneNumber}>{formatPhoneNumber(callNumber)}</Text>
           <Text style={styles.birthdate}>Birthday: {contact.birthdate}</Text>
         </View>
 
@@ -206,6 +283,20 @@ export default function ContactDetailScreen({ contact, onBack, onMessage }: Cont
             <Text style={styles.buttonText}>💬 Text {contact.name}</Text>
           </TouchableOpacity>
         </View>
+
+        {recentCalls.length > 0 && (
+          <View style={styles.recentCalls}>
+            <Text style={styles.recentCallsTitle}>Recent Calls</Text>
+            {recentCalls.map(call => (
+              <View key={call.id} style={styles.recentCallRow}>
+                <Text style={styles.recentCallText}>
+                  {describeCall(call)}{formatCallDuration(call)}
+                </Text>
+                <Text style={styles.recentCallTime}>{formatCallTime(call.timestamp)}</Text>
+              </View>
+            ))}
+          </View>
+        )}
       </ScrollView>
       </View>
     </View>
@@ -310,4 +401,30 @@ const styles = StyleSheet.create({
     fontSize: 22,
     fontWeight: 'bold',
   },
+  recentCalls: {
+    marginTop: 32,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 16,
+    padding: 16,
+  },
+  recentCallsTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 8,
+  },
+  recentCallRow: {
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#333',
+  },
+  recentCallText: {
+    fontSize: 20,
+    color: '#fff',
+  },
+  recentCallTime: {
+    fontSize: 18,
+    color: '#ccc',
+    marginTop: 4,
+  },
 });
\ No newline at end of file
@@ -3,7 +3,7 @@ import { StyleSheet, SafeAreaView, FlatList, View, Text, TouchableOpacity } from
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import ContactCard from '../components/ContactCard';
 import { Contact } from '../types/Contact';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import SecureStorage from '../services/SecureStorage';
 
 interface ContactsScreenProps {
   onContactPress: (contact: Contact) => void;
@@ -45,7 +45,7 @@ export default function ContactsScreen({ onContactPress, onPinEntryPress }: Cont
 
   const loadSelectedContacts = async () => {
     try {
-      const contactsString = await AsyncStorage.getItem('selected_contacts');
+      const contactsString = await SecureStorage.getItem('selected_contacts');
       if (contactsString) {
         const selectedContacts = JSON.parse(contactsString);
         setContacts(selectedContacts);
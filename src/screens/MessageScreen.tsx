@@ -12,16 +12,30 @@ import {
   TouchableWithoutFeedback,
   Keyboard,
   ScrollView,
-  FlatList
+  FlatList,
+  Image
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import TwilioService from '../services/TwilioService';
 import MessageService from '../services/MessageService';
+import ContactResolver from '../services/ContactResolver';
+import { formatPhoneNumber } from '../services/PhoneNumbers';
 import { Contact } from '../types/Contact';
-import { Message } from '../types/Message';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Message, MessageMedia } from '../types/Message';
+import SecureStorage from '../services/SecureStorage';
 import FrequencyTracker from '../services/FrequencyTracker';
 import CaregiverNotificationService from '../services/CaregiverNotificationService';
+import ContentPolicyService from '../services/ContentPolicyService';
+import PhotoViewScreen from './PhotoViewScreen';
+import { PermanentSendError, SendFailureReason } from '../services/telephony';
+
+// What to tell the user when the carrier refuses a text for good
+const SEND_FAILURE_MESSAGES: Record<SendFailureReason, (name: string) => string> = {
+  'invalid-number': name => `${name}'s phone number doesn't seem to be right, so the message can't be sent.\n\nPlease ask your caregiver to check it.`,
+  'unverified-recipient': name => `This phone isn't allowed to text ${name} yet.\n\nPlease ask your caregiver to add ${name}'s number to the Twilio account.`,
+  'auth': () => 'This phone isn\'t signed in to its texting service.\n\nPlease ask your caregiver to check the Twilio settings.',
+  'rejected': name => `The phone company wouldn't send your message to ${name}.\n\nPlease ask your caregiver for help.`,
+};
 
 interface MessageScreenProps {
   contact: Contact;
@@ -35,6 +49,7 @@ export default function MessageScreen({ contact, onBack }: MessageScreenProps) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [showConversations, setShowConversations] = useState(true);
   const [initialLoad, setInitialLoad] = useState(true);
+  const [viewingPhoto, setViewingPhoto] = useState<MessageMedia | null>(null);
   const flatListRef = React.useRef<FlatList>(null);
   const [frequencyTracker] = useState(() => FrequencyTracker.getInstance());
   const [caregiverNotifications] = useState(() => CaregiverNotificationService.getInstance());
@@ -51,18 +66,20 @@ export default function MessageScreen({ contact, onBack }: MessageScreenProps) {
       TwilioService.setPollingMode('conversation');
     }, 100);
     
-    // Set up polling to refresh messages periodically
-    const interval = setInterval(async () => {
-      const hasNewMessages = await TwilioService.fetchRecentMessages();
+    // New messages arrive via push (or fallback polling) in TwilioService
+    const unsubscribe = TwilioService.onMessagesUpdated(hasNewMessages => {
       if (hasNewMessages) {
         // Only reload and auto-scroll if there are actually new messages
         loadMessages(true);
+      } else {
+        // Only delivery statuses changed - pick them up without scrolling
+        refreshDeliveryStatuses();
       }
-    }, 5000);
+    });
     
     return () => {
       clearTimeout(initTimer);
-      clearInterval(interval);
+      unsubscribe();
       // Reset to normal polling when leaving conversation
       TwilioService.setPollingMode('active');
     };
@@ -70,7 +87,7 @@ export default function MessageScreen({ contact, onBack }: MessageScreenProps) {
 
   const loadDisplaySettings = async () => {
     try {
-      const showConversationsString = await AsyncStorage.getItem('show_conversations');
+      const showConversationsString = await SecureStorage.getItem('show_conversations');
       if (showConversationsString !== null) {
         setShowConversations(JSON.parse(showConversationsString));
       }
@@ -81,15 +98,18 @@ export default function MessageScreen({ contact, onBack }: MessageScreenProps) {
 
   const loadMessages = async (shouldAutoScroll: boolean = false) => {
     await MessageService.loadConversations();
+    await ContactResolver.load();
     
-    const conversationMessages = MessageService.getMessages(contact.phoneNumber);
+    // Keyed by contact so texts from a previous number stay in the conversation
+    const phoneNumbers = ContactResolver.getNumbersForContact(contact);
+    const conversationMessages = MessageService.getContactConversation(contact.id, phoneNumbers).messages;
     
-    console.log(`Loading messages for ${contact.phoneNumber}: found ${conversationMessages.length} messages`);
+    console.log(`Loading messages for ${contact.name}: found ${conversationMessages.length} messages`);
     
     setMessages([...conversationMessages]);
     
     // Mark messages as read
-    await MessageService.markAsRead(contact.phoneNumber);
+    await MessageService.markContactAsRead(contact.id, phoneNumbers);
     
     // Only auto-scroll when explicitly requested or on initial load
     if (initialLoad) {
@@ -106,6 +126,27 @@ export default function MessageScreen({ contact, onBack }: MessageScreenProps) {
     }
   };
 
+  const refreshDeliveryStatuses = () => {
+    const latest = MessageService.getContactConversation(contact.id, ContactResolver.getNumbersForContact(contact)).messages;
+    setMessages(current => {
+      const changed = latest.length !== current.length ||
+        latest.some((msg, index) => msg.status !== current[index]?.status);
+      return changed ? [...latest] : current;
+    });
+  };
+
+  const getStatusLabel = (msg: Message): string | null => {
+    switch (msg.status) {
+      case 'sending': return '⏳ Sending...';
+      case 'queued':
+      case 'sent': return '✓ Sent';
+      case 'delivered': return '✓✓ Delivered';
+      case 'undelivered':
+      case 'failed': return '⚠️ Not delivered';
+      default: return null;
+    }
+  };
+
   const checkTwilioConfig = async () => {
     await TwilioService.loadConfig();
     setTwilioConfigured(TwilioService.isConfigured());
@@ -132,7 +173,7 @@ export default function MessageScreen({ contact, onBack }: MessageScreenProps) {
     // Show confirmation dialog before sending
     Alert.alert(
       'Send Text Message? 💬',
-      `Do you want to send this message to ${contact.name}?\n\nPhone: ${contact.phoneNumber}\n\nYour message:\n"${message.trim()}"`,
+      `Do you want to send this message to ${contact.name}?\n\nPhone: ${formatPhoneNumber(contact.phoneNumber)}\n\nYour message:\n"${message.trim()}"`,
       [
         {
           text: 'Cancel',
@@ -176,8 +217,28 @@ export default function MessageScreen({ contact, onBack }: MessageScreenProps) {
     
     try {
       await frequencyTracker.loadRecords();
+
+      // Private details (card numbers, passwords...) wait for the caregiver instead of going out
+      await ContentPolicyService.loadPolicy();
+      const holdReasons = ContentPolicyService.checkMessage(message.trim());
+      if (holdReasons.length > 0) {
+        await frequencyTracker.storeHeldMessage(contact.id, contact.phoneNumber, message.trim(), holdReasons);
+        await caregiverNotifications.notifyHeldMessage(contact.name, holdReasons);
+
+        setMessage('');
+        Keyboard.dismiss();
+
+        Alert.alert(
+          'Message Saved for Your Caregiver 🔒',
+          `This message looks like it has private information in it (${holdReasons.join(', ')}).\n\nYour caregiver will check it before it is sent to ${contact.name}.`,
+          [{ text: 'OK', style: 'default' }],
+          { cancelable: false }
+        );
+        return;
+      }
       
-      if (!frequencyTracker.canCommunicate(contact, 'text')) {
+      const queued = await MessageService.countQueued(contact.id);
+      if (!frequencyTracker.canCommunicate(contact, 'text', queued)) {
         await frequencyTracker.storeBlockedMessage(contact.id, message.trim());
         
         // Notify caregiver of blocked communication
@@ -196,7 +257,7 @@ export default function MessageScreen({ contact, onBack }: MessageScreenProps) {
         
         Alert.alert(
           'Message Sent Successfully! ✅',
-          `Your message was sent to ${contact.name}.\n\nPhone: ${contact.phoneNumber}`,
+          `Your message was sent to ${contact.name}.\n\nPhone: ${formatPhoneNumber(contact.phoneNumber)}`,
           [
             { 
               text: 'OK', 
@@ -208,35 +269,50 @@ export default function MessageScreen({ contact, onBack }: MessageScreenProps) {
         return;
       }
       
-      await frequencyTracker.recordCommunication(contact.id, 'text');
-      
       // Add a small delay to show loading state
       await new Promise(resolve => setTimeout(resolve, 800));
       
-      await TwilioService.sendSMS(contact.phoneNumber, message.trim(), contact.id);
+      // Counts towards the frequency limits once it has actually been sent
+      const sentNow = await TwilioService.queueSMS(contact.phoneNumber, message.trim(), contact.id);
       setMessage('');
       Keyboard.dismiss();
       
       // Refresh messages after sending and auto-scroll to show sent message
       await loadMessages(true);
       
-      // Show clear success confirmation
-      Alert.alert(
-        'Message Sent Successfully! ✅',
-        `Your message was sent to ${contact.name}.\n\nPhone: ${contact.phoneNumber}`,
-        [
-          { 
-            text: 'OK', 
-            style: 'default'
-          }
-        ],
-        { cancelable: false }
-      );
+      if (sentNow) {
+        // Show clear success confirmation
+        Alert.alert(
+          'Message Sent Successfully! ✅',
+          `Your message was sent to ${contact.name}.\n\nPhone: ${formatPhoneNumber(contact.phoneNumber)}`,
+          [
+            { 
+              text: 'OK', 
+              style: 'default'
+            }
+          ],
+          { cancelable: false }
+        );
+      } else {
+        Alert.alert(
+          'Message Saved 📤',
+          `There is no signal right now.\n\nYour message to ${contact.name} will be sent automatically when the phone is connected again.`,
+          [{ text: 'OK', style: 'default' }],
+          { cancelable: false }
+        );
+      }
       
     } catch (error: any) {
+      // The refused message stays in the conversation marked as failed
+      if (error instanceof PermanentSendError) {
+        setMessage('');
+        await loadMessages(true);
+      }
       Alert.alert(
         'Message Not Sent', 
-        `Could not send your message to ${contact.name}.\n\nPlease try again or ask for help.`,
+        error instanceof PermanentSendError
+          ? SEND_FAILURE_MESSAGES[error.reason](contact.name)
+          : `Could not send your message to ${contact.name}.\n\nPlease try again or ask for help.`,
         [{ text: 'OK', style: 'default' }]
       );
     } finally {
@@ -297,25 +373,68 @@ export default function MessageScreen({ contact, onBack }: MessageScreenProps) {
         )}
         <View style={[
           styles.messageBubble,
-          msg.type === 'sent' ? styles.sentMessage : styles.receivedMessage
+          msg.type === 'sent' ? styles.sentMessage : styles.receivedMessage,
+          msg.risk && styles.riskyMessage
         ]}>
-          <Text style={[
-            styles.messageText,
-            msg.type === 'sent' ? styles.sentMessageText : styles.receivedMessageText
-          ]}>
-            {msg.text}
-          </Text>
+          {msg.risk && (
+            <Text style={styles.riskWarning}>
+              ⚠️ Be careful - this may be a scam. Ask your caregiver before you reply or send money.
+            </Text>
+          )}
+          {msg.media?.map(media => (
+            media.localUri ? (
+              <TouchableOpacity
+                key={media.sid}
+                onPress={() => setViewingPhoto(media)}
+                accessibilityRole="imagebutton"
+                accessibilityLabel="Photo. Tap to see it bigger."
+              >
+                <Image source={{ uri: media.localUri }} style={styles.mediaThumbnail} />
+              </TouchableOpacity>
+            ) : (
+              <View key={media.sid} style={[styles.mediaThumbnail, styles.mediaPlaceholder]}>
+                <Text style={styles.mediaPlaceholderText}>📷 Photo not available</Text>
+              </View>
+            )
+          ))}
+          {msg.text ? (
+            <Text style={[
+              styles.messageText,
+              msg.type === 'sent' ? styles.sentMessageText : styles.receivedMessageText
+            ]}>
+              {msg.text}
+            </Text>
+          ) : null}
           <Text style={[
             styles.messageTime,
             msg.type === 'sent' ? styles.sentMessageTime : styles.receivedMessageTime
           ]}>
             {formatTime(msg.timestamp)}
           </Text>
+          {msg.type === 'sent' && getStatusLabel(msg) && (
+            <Text style={[
+              styles.deliveryStatus,
+              (msg.status === 'undelivered' || msg.status === 'failed') && styles.deliveryStatusFailed
+            ]}>
+              {getStatusLabel(msg)}
+            </Text>
+          )}
         </View>
       </View>
     );
   };
 
+  if (viewingPhoto?.localUri) {
+    return (
+      <PhotoViewScreen
+        photo={{ id: viewingPhoto.sid, uri: viewingPhoto.localUri, filename: viewingPhoto.sid }}
+        onBack={() => setViewingPhoto(null)}
+        backLabel={`← Back to ${contact.name}`}
+        allowSending={false}
+      />
+    );
+  }
+
   return (
     <View style={{ flex: 1, backgroundColor: '#000', paddingTop: insets.top }}>
       <View style={styles.container}>
@@ -362,7 +481,7 @@ export default function MessageScreen({ contact, onBack }: MessageScreenProps) {
           <View style={styles.simpleContainer}>
             <View style={styles.simpleHeader}>
               <Text style={styles.simpleTitle}>Send a message to {contact.name}</Text>
-              <Text style={styles.simpleSubtitle}>{contact.phoneNumber}</Text>
+              <Text style={styles.simpleSubtitle}>{formatPhoneNumber(contact.phoneNumber)}</Text>
             </View>
           </View>
         )}
@@ -503,10 +622,36 @@ const styles = StyleSheet.create({
     alignSelf: 'flex-start',
     borderBottomLeftRadius: 4,
   },
+  riskyMessage: {
+    borderWidth: 3,
+    borderColor: '#FFEB3B',
+  },
+  riskWarning: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#FFEB3B',
+    marginBottom: 8,
+  },
   messageText: {
     fontSize: 16,
     lineHeight: 20,
   },
+  mediaThumbnail: {
+    width: 220,
+    height: 220,
+    borderRadius: 12,
+    marginBottom: 6,
+  },
+  mediaPlaceholder: {
+    backgroundColor: '#1a1a1a',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  mediaPlaceholderText: {
+    color: '#ccc',
+    fontSize: 18,
+    textAlign: 'center',
+  },
   sentMessageText: {
     color: '#fff',
   },
@@ -525,6 +670,16 @@ const styles = StyleSheet.create({
     color: '#aaa',
     textAlign: 'left',
   },
+  deliveryStatus: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#fff',
+    textAlign: 'right',
+    marginTop: 4,
+  },
+  deliveryStatusFailed: {
+    color: '#FFEB3B',
+  },
   inputSection: {
     borderTopWidth: 1,
     borderTopColor: '#333',
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { 
   View, 
   Text, 
@@ -8,6 +8,7 @@ import {
   Image,
   Dimensions
 } from 'react-native';
+import SendPhotoModal from '../components/SendPhotoModal';
 
 interface Photo {
   id: string;
@@ -18,14 +19,18 @@ interface Photo {
 interface PhotoViewScreenProps {
   photo: Photo;
   onBack: () => void;
+  backLabel?: string;
+  allowSending?: boolean;
 }
 
-export default function PhotoViewScreen({ photo, onBack }: PhotoViewScreenProps) {
+export default function PhotoViewScreen({ photo, onBack, backLabel = '← Back to Photos', allowSending = true }: PhotoViewScreenProps) {
+  const [showSendModal, setShowSendModal] = useState(false);
+
   return (
     <SafeAreaView style={styles.container}>
       <View style={styles.header}>
         <TouchableOpacity style={styles.backButton} onPress={onBack}>
-          <Text style={styles.backButtonText}>← Back to Photos</Text>
+          <Text style={styles.backButtonText}>{backLabel}</Text>
         </TouchableOpacity>
       </View>
 
@@ -36,6 +41,20 @@ export default function PhotoViewScreen({ photo, onBack }: PhotoViewScreenProps)
           resizeMode="contain"
         />
       </View>
+
+      {allowSending && (
+        <View style={styles.footer}>
+          <TouchableOpacity style={styles.sendButton} onPress={() => setShowSendModal(true)}>
+            <Text style={styles.sendButtonText}>📤 Send to...</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <SendPhotoModal
+        visible={showSendModal}
+        photoUri={photo.uri}
+        onClose={() => setShowSendModal(false)}
+      />
     </SafeAreaView>
   );
 }
@@ -72,6 +91,22 @@ const styles = StyleSheet.create({
   },
   photo: {
     width: width - 40,
-    height: height - 200,
+    height: height - 300,
+  },
+  footer: {
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: '#333',
+  },
+  sendButton: {
+    backgroundColor: '#2196F3',
+    paddingVertical: 20,
+    borderRadius: 16,
+    alignItems: 'center',
+  },
+  sendButtonText: {
+    color: '#fff',
+    fontSize: 24,
+    fontWeight: 'bold',
   },
 });
\ No newline at end of file
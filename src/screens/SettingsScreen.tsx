@@ -11,16 +11,30 @@ import {
   KeyboardAvoidingView,
   Platform,
   BackHandler,
+  Share,
 } from 'react-native';
 import TwilioService, { TwilioConfig } from '../services/TwilioService';
+import { getAvailableProviders, getTelephonyProvider, TelephonyProviderId, CredentialCheck } from '../services/telephony';
 import ContactSelector from '../components/ContactSelector';
 import { clearContactsCache } from './ContactsScreen';
 import { Contact, ContactFrequencySettings } from '../types/Contact';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import FrequencyTracker, { BlockedMessage, BlockedCall } from '../services/FrequencyTracker';
-import CaregiverNotificationService, { CaregiverSettings } from '../services/CaregiverNotificationService';
+import SecureStorage from '../services/SecureStorage';
+import FrequencyTracker, { BlockedMessage, BlockedCall, BlockedIncomingCall, HeldMessage } from '../services/FrequencyTracker';
+import CaregiverNotificationService, { CaregiverSettings, Caregiver, CAREGIVER_ALERT_LABELS } from '../services/CaregiverNotificationService';
 import BlockedCommunicationsScreen from './BlockedCommunicationsScreen';
+import CallHistoryScreen from './CallHistoryScreen';
+import UnknownSendersScreen from './UnknownSendersScreen';
+import QuarantineService from '../services/QuarantineService';
+import ContactResolver from '../services/ContactResolver';
+import { normalizePhoneNumber, formatPhoneNumber, isValidPhoneNumber, loadDefaultCountry, setDefaultCountry, toCountryCode, getCallingCode } from '../services/PhoneNumbers';
+import ContentPolicyService, { ContentPolicy, SensitiveCategory, CATEGORY_LABELS } from '../services/ContentPolicyService';
 import MessageService from '../services/MessageService';
+import PushNotificationService from '../services/PushNotificationService';
+import PinService from '../services/PinService';
+import PinEntryModal from '../components/PinEntryModal';
+import CaregiverEditModal from '../components/CaregiverEditModal';
+import CaregiverCommandService from '../services/CaregiverCommandService';
+import { Message } from '../types/Message';
 
 interface SettingsScreenProps {
   onBack: () => void;
@@ -29,8 +43,20 @@ interface SettingsScreenProps {
 export default function SettingsScreen({ onBack }: SettingsScreenProps) {
   const [accountSid, setAccountSid] = useState('');
   const [authToken, setAuthToken] = useState('');
+  const [credentialType, setCredentialType] = useState<'api-key' | 'auth-token'>('api-key');
+  const [apiKeySid, setApiKeySid] = useState('');
+  const [apiKeySecret, setApiKeySecret] = useState('');
+  const [savedApiKeySid, setSavedApiKeySid] = useState<string | null>(null);
+  const [newApiKeySid, setNewApiKeySid] = useState('');
+  const [newApiKeySecret, setNewApiKeySecret] = useState('');
+  const [rotating, setRotating] = useState(false);
   const [phoneNumber, setPhoneNumber] = useState('');
   const [userPhoneNumber, setUserPhoneNumber] = useState('');
+  const [provider, setProvider] = useState<TelephonyProviderId>('twilio');
+  const [serverUrl, setServerUrl] = useState('');
+  const [serverApiKey, setServerApiKey] = useState('');
+  const [unknownCallers, setUnknownCallers] = useState<'reject' | 'voicemail'>('reject');
+  const [homeCountry, setHomeCountry] = useState('US');
   const [saving, setSaving] = useState(false);
   const [testing, setTesting] = useState(false);
   const [currentTab, setCurrentTab] = useState<'twilio' | 'contacts' | 'display' | 'communication' | 'caregiver'>('twilio');
@@ -38,11 +64,27 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
   const [showConversations, setShowConversations] = useState(true);
   const [blockedMessages, setBlockedMessages] = useState<BlockedMessage[]>([]);
   const [blockedCalls, setBlockedCalls] = useState<BlockedCall[]>([]);
+  const [blockedIncomingCalls, setBlockedIncomingCalls] = useState<BlockedIncomingCall[]>([]);
+  const [heldMessages, setHeldMessages] = useState<HeldMessage[]>([]);
+  const [contentPolicy, setContentPolicy] = useState<ContentPolicy | null>(null);
+  const [policyKeywords, setPolicyKeywords] = useState('');
   const [frequencyTracker] = useState(() => FrequencyTracker.getInstance());
   const [caregiverNotifications] = useState(() => CaregiverNotificationService.getInstance());
   const [caregiverSettings, setCaregiverSettings] = useState<CaregiverSettings | null>(null);
+  const [showCaregiverModal, setShowCaregiverModal] = useState(false);
+  const [editingCaregiver, setEditingCaregiver] = useState<Caregiver | null>(null);
   const [violationStats, setViolationStats] = useState<any>(null);
   const [showBlockedScreen, setShowBlockedScreen] = useState(false);
+  const [showCallHistory, setShowCallHistory] = useState(false);
+  const [showUnknownSenders, setShowUnknownSenders] = useState(false);
+  const [quarantinedCount, setQuarantinedCount] = useState(0);
+  const [undeliveredMessages, setUndeliveredMessages] = useState<Message[]>([]);
+  const [flaggedMessages, setFlaggedMessages] = useState<Message[]>([]);
+  const [pushToken, setPushToken] = useState<string | null>(null);
+  const [showChangePin, setShowChangePin] = useState(false);
+  const [pinIsLegacyDefault, setPinIsLegacyDefault] = useState(false);
+  const [biometricsAvailable, setBiometricsAvailable] = useState(false);
+  const [biometricsEnabled, setBiometricsEnabled] = useState(false);
 
   useEffect(() => {
     loadExistingConfig();
@@ -50,6 +92,11 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
     loadDisplaySettings();
     loadBlockedMessages();
     loadCaregiverSettings();
+    loadUndeliveredMessages();
+    loadQuarantinedCount();
+    loadContentPolicy();
+    loadPinSettings();
+    PushNotificationService.getSavedToken().then(setPushToken);
     
     // iOS Assistive Access back button handling
     const onBackPress = () => {
@@ -66,18 +113,27 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
   }, [onBack]);
 
   const loadExistingConfig = async () => {
+    setHomeCountry(await loadDefaultCountry());
     const config = await TwilioService.loadConfig();
     if (config) {
       setAccountSid(config.accountSid);
       setAuthToken(config.authToken);
+      setCredentialType(config.apiKeySid || !config.authToken ? 'api-key' : 'auth-token');
+      setApiKeySid(config.apiKeySid || '');
+      setApiKeySecret(config.apiKeySecret || '');
+      setSavedApiKeySid(config.apiKeySid || null);
       setPhoneNumber(config.phoneNumber);
       setUserPhoneNumber(config.userPhoneNumber || '');
+      setProvider(config.provider || 'twilio');
+      setServerUrl(config.serverUrl || '');
+      setServerApiKey(config.serverApiKey || '');
+      setUnknownCallers(config.unknownCallers || 'reject');
     }
   };
 
   const loadSelectedContacts = async () => {
     try {
-      const contactsString = await AsyncStorage.getItem('selected_contacts');
+      const contactsString = await SecureStorage.getItem('selected_contacts');
       if (contactsString) {
         const contacts = JSON.parse(contactsString);
         setSelectedContacts(contacts);
@@ -89,7 +145,7 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
 
   const loadDisplaySettings = async () => {
     try {
-      const showConversationsString = await AsyncStorage.getItem('show_conversations');
+      const showConversationsString = await SecureStorage.getItem('show_conversations');
       if (showConversationsString !== null) {
         setShowConversations(JSON.parse(showConversationsString));
       }
@@ -103,11 +159,36 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
       await frequencyTracker.loadRecords();
       setBlockedMessages(frequencyTracker.getBlockedMessages());
       setBlockedCalls(frequencyTracker.getBlockedCalls());
+      setBlockedIncomingCalls(frequencyTracker.getBlockedIncomingCalls());
+      setHeldMessages([...frequencyTracker.getHeldMessages()]);
+
+      await TwilioService.loadConfig();
+      if (await TwilioService.syncIncomingCalls() > 0) {
+        setBlockedIncomingCalls([...frequencyTracker.getBlockedIncomingCalls()]);
+      }
     } catch (error) {
       console.error('Failed to load blocked communications:', error);
     }
   };
 
+  const loadContentPolicy = async () => {
+    const policy = await ContentPolicyService.loadPolicy();
+    setContentPolicy(policy);
+    setPolicyKeywords(policy.keywords.join(', '));
+  };
+
+  const updateContentPolicy = async (policy: ContentPolicy) => {
+    await ContentPolicyService.savePolicy(policy);
+    setContentPolicy(policy);
+  };
+
+  const savePolicyKeywords = async () => {
+    if (!contentPolicy) return;
+    const keywords = policyKeywords.split(',').map(keyword => keyword.trim()).filter(Boolean);
+    await updateContentPolicy({ ...contentPolicy, keywords });
+    setPolicyKeywords(keywords.join(', '));
+  };
+
   const loadCaregiverSettings = async () => {
     try {
       const settings = await caregiverNotifications.loadSettings();
@@ -123,11 +204,95 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
     }
   };
 
+  const loadPinSettings = async () => {
+    setPinIsLegacyDefault(await PinService.isLegacyDefault());
+    setBiometricsAvailable(await PinService.isBiometricAvailable());
+    setBiometricsEnabled(await PinService.isBiometricEnabled());
+  };
+
+  const setBiometrics = async (enabled: boolean) => {
+    try {
+      // Prove a fingerprint or face works before relying on it
+      if (enabled && !(await PinService.authenticateWithBiometrics('Turn on fingerprint or face unlock'))) {
+        return;
+      }
+      await PinService.setBiometricEnabled(enabled);
+      setBiometricsEnabled(enabled);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to change fingerprint or face unlock');
+    }
+  };
+
+  // The phone can't tell whose fingerprint or face it is, so spell that out before turning it on
+  const confirmEnableBiometrics = () => {
+    Alert.alert(
+      'Turn On Fingerprint or Face Unlock?',
+      'Anyone whose fingerprint or face is set up on this phone will be able to open these settings without the PIN - including the person who uses the phone. Only turn this on if you are the only one enrolled.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Turn On', style: 'destructive', onPress: () => setBiometrics(true) },
+      ]
+    );
+  };
+
+  const handlePinChanged = () => {
+    setShowChangePin(false);
+    setPinIsLegacyDefault(false);
+  };
+
+  const loadUndeliveredMessages = async () => {
+    try {
+      await MessageService.loadConversations();
+      setUndeliveredMessages(MessageService.getUndeliveredMessages());
+      setFlaggedMessages(MessageService.getFlaggedMessages());
+    } catch (error) {
+      console.error('Failed to load undelivered messages:', error);
+    }
+  };
+
+  const loadQuarantinedCount = async () => {
+    await QuarantineService.load();
+    setQuarantinedCount(QuarantineService.getMessageCount());
+  };
+
+  const markMessageSafe = (message: Message) => {
+    Alert.alert(
+      'Mark as Safe?',
+      'The warning will be removed and the message will be shown normally.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Mark Safe',
+          onPress: async () => {
+            await MessageService.clearMessageRisk(message.phoneNumber, message.id);
+            await loadUndeliveredMessages();
+          },
+        },
+      ]
+    );
+  };
+
+  const recheckDeliveryStatuses = async () => {
+    await TwilioService.loadConfig();
+    await TwilioService.checkDeliveryStatuses();
+    await loadUndeliveredMessages();
+  };
+
+  const getRecipientName = (message: Message): string => {
+    const contact = selectedContacts.find(c =>
+      c.id === message.contactId || normalizePhoneNumber(c.phoneNumber) === message.phoneNumber
+    );
+    if (contact) return contact.name;
+    return message.contactId === 'caregiver-alert' ? 'Caregiver alert' : formatPhoneNumber(message.phoneNumber);
+  };
+
   const saveSelectedContacts = async (contacts: Contact[]) => {
     try {
-      await AsyncStorage.setItem('selected_contacts', JSON.stringify(contacts));
+      await SecureStorage.setItem('selected_contacts', JSON.stringify(contacts));
       setSelectedContacts(contacts);
       clearContactsCache(); // Clear cache so ContactsScreen refreshes
+      TwilioService.syncCallRouting(); // Inbound calls from new contacts should ring through
+      ContactResolver.refresh(); // Link existing conversations to new or renumbered contacts
       Alert.alert('Success', 'Selected contacts saved successfully!');
     } catch (error) {
       Alert.alert('Error', 'Failed to save selected contacts');
@@ -141,15 +306,16 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
           ? { ...contact, frequencySettings: settings }
           : contact
       );
-      await AsyncStorage.setItem('selected_contacts', JSON.stringify(updatedContacts));
+      await SecureStorage.setItem('selected_contacts', JSON.stringify(updatedContacts));
       setSelectedContacts(updatedContacts);
+      TwilioService.syncCallRouting(); // Same limits apply to calls coming in
     } catch (error) {
       console.error('Failed to update settings:', error);
     }
   };
 
   const viewBlockedMessages = async () => {
-    if (blockedMessages.length === 0 && blockedCalls.length === 0) {
+    if (blockedMessages.length === 0 && blockedCalls.length === 0 && blockedIncomingCalls.length === 0) {
       Alert.alert('No Blocked Communications', 'There are no blocked calls or messages to display.');
       return;
     }
@@ -191,6 +357,7 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
             await caregiverNotifications.resetAlerts();
             setBlockedMessages([]);
             setBlockedCalls([]);
+            setBlockedIncomingCalls([]);
             await loadCaregiverSettings(); // Refresh alert status
             Alert.alert('Cleared', 'All blocked communications have been cleared and alert system has been reset.');
           },
@@ -208,29 +375,45 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
     }
   };
 
+  const openCaregiver = (caregiver: Caregiver | null) => {
+    setEditingCaregiver(caregiver);
+    setShowCaregiverModal(true);
+  };
+
+  const saveCaregiver = async (caregiver: Caregiver) => {
+    const demotedPrimary = caregiver.role === 'primary'
+      ? caregiverSettings?.caregivers.find(existing => existing.role === 'primary' && existing.id !== caregiver.id)
+      : undefined;
+    setCaregiverSettings(await caregiverNotifications.saveCaregiver(caregiver));
+    setShowCaregiverModal(false);
+    if (demotedPrimary) {
+      Alert.alert('Primary Caregiver Changed', `${caregiver.name} is now the primary caregiver. ${demotedPrimary.name} is now a backup.`);
+    }
+  };
+
+  const removeCaregiver = async (caregiver: Caregiver) => {
+    setCaregiverSettings(await caregiverNotifications.removeCaregiver(caregiver.id));
+    setShowCaregiverModal(false);
+  };
+
   const testNotification = async () => {
-    if (!caregiverSettings?.phoneNumber) {
-      Alert.alert('No Contact Info', 'Please add a phone number first.');
+    if (!caregiverSettings?.caregivers.length) {
+      Alert.alert('No Caregivers', 'Please add a caregiver first.');
       return;
     }
 
     Alert.alert(
       'Test Notification',
-      'This will send a test alert to the caregiver contact.',
+      'This will send a test text to every caregiver, listing the alerts they get.',
       [
         { text: 'Cancel', style: 'cancel' },
         {
           text: 'Send Test',
           onPress: async () => {
-            try {
-              // Force trigger an alert by simulating threshold
-              const testSettings = { ...caregiverSettings!, alertThreshold: 0 };
-              await caregiverNotifications.saveSettings(testSettings);
-              await caregiverNotifications.checkAndSendAlerts();
-              await caregiverNotifications.saveSettings(caregiverSettings!);
-              
-              Alert.alert('Test Sent', 'Test notification has been sent to the caregiver.');
-            } catch (error) {
+            const sent = await caregiverNotifications.sendTestAlert();
+            if (sent > 0) {
+              Alert.alert('Test Sent', `Test alert sent to ${sent} caregiver${sent === 1 ? '' : 's'}.`);
+            } else {
               Alert.alert('Test Failed', 'Could not send test notification.');
             }
           }
@@ -263,7 +446,7 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
 
   const saveDisplaySettings = async (showConv: boolean) => {
     try {
-      await AsyncStorage.setItem('show_conversations', JSON.stringify(showConv));
+      await SecureStorage.setItem('show_conversations', JSON.stringify(showConv));
       setShowConversations(showConv);
       Alert.alert(
         'Setting Saved ✅', 
@@ -277,22 +460,59 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
     }
   };
 
+  const hasCredentials = () => {
+    if (!accountSid.trim()) return false;
+    return credentialType === 'api-key'
+      ? !!apiKeySid.trim() && !!apiKeySecret.trim()
+      : !!authToken.trim();
+  };
+
+  // Only the chosen kind of credential is kept, so switching to a key drops the auth token
+  const credentialFields = () => credentialType === 'api-key'
+    ? { authToken: '', apiKeySid: apiKeySid.trim(), apiKeySecret: apiKeySecret.trim() }
+    : { authToken: authToken.trim(), apiKeySid: undefined, apiKeySecret: undefined };
+
+  const describeWarnings = (result: CredentialCheck) =>
+    result.warnings?.length ? `\n\n⚠️ ${result.warnings.join('\n\n⚠️ ')}` : '';
+
   const saveConfig = async () => {
-    if (!accountSid.trim() || !authToken.trim() || !phoneNumber.trim() || !userPhoneNumber.trim()) {
+    const needsCredentials = getTelephonyProvider(provider).requiresCredentials;
+    if ((needsCredentials && !hasCredentials()) || !phoneNumber.trim() || !userPhoneNumber.trim()) {
       Alert.alert('Missing Information', 'Please fill in all fields including your phone number');
       return;
     }
 
+    const country = toCountryCode(homeCountry);
+    if (!country) {
+      Alert.alert('Unknown Country', 'Please enter a two-letter country code such as US, GB or AU.');
+      return;
+    }
+
     setSaving(true);
     try {
+      // Numbers below are read using the new home country
+      await setDefaultCountry(country);
+      if (!isValidPhoneNumber(phoneNumber) || !isValidPhoneNumber(userPhoneNumber)) {
+        Alert.alert('Check Phone Numbers', 'One of the phone numbers doesn\'t look right. Include the country code (like +44) for numbers in another country.');
+        return;
+      }
+
       const config: TwilioConfig = {
         accountSid: accountSid.trim(),
-        authToken: authToken.trim(),
-        phoneNumber: phoneNumber.trim(),
-        userPhoneNumber: userPhoneNumber.trim(),
+        ...credentialFields(),
+        phoneNumber: normalizePhoneNumber(phoneNumber),
+        userPhoneNumber: normalizePhoneNumber(userPhoneNumber),
+        provider,
+        serverUrl: serverUrl.trim() || undefined,
+        serverApiKey: serverApiKey.trim() || undefined,
+        unknownCallers,
       };
 
       await TwilioService.saveConfig(config);
+      setSavedApiKeySid(config.apiKeySid || null);
+      await ContactResolver.refresh(); // Stored numbers follow the home country
+      await PushNotificationService.registerWithServer(config);
+      await TwilioService.syncCallRouting();
       Alert.alert('Success', 'Twilio settings saved successfully!', [
         { text: 'OK', onPress: onBack }
       ]);
@@ -304,34 +524,32 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
   };
 
   const testConnection = async () => {
-    if (!accountSid.trim() || !authToken.trim() || !phoneNumber.trim()) {
-      Alert.alert('Missing Information', 'Please fill in Account SID, Auth Token, and Phone Number first');
+    const selectedProvider = getTelephonyProvider(provider);
+    if ((selectedProvider.requiresCredentials && !hasCredentials()) || !phoneNumber.trim()) {
+      Alert.alert('Missing Information', `Please fill in Account SID, ${credentialType === 'api-key' ? 'API Key SID and Secret' : 'Auth Token'}, and Phone Number first`);
       return;
     }
 
     setTesting(true);
     try {
-      const auth = btoa(`${accountSid.trim()}:${authToken.trim()}`);
-      
-      // Test by fetching account info
-      const response = await fetch(
-        `https://api.twilio.com/2010-04-01/Accounts/${accountSid.trim()}.json`,
-        {
-          headers: {
-            'Authorization': `Basic ${auth}`,
-          },
-        }
-      );
+      const result = await TwilioService.validateCredentials({
+        accountSid: accountSid.trim(),
+        ...credentialFields(),
+        phoneNumber: normalizePhoneNumber(phoneNumber),
+        userPhoneNumber: userPhoneNumber.trim(),
+        provider,
+      });
 
-      if (response.ok) {
-        const data = await response.json();
+      if (result.ok) {
         Alert.alert(
           'Connection Successful! ✅', 
-          `Connected to Twilio account: ${data.friendly_name || data.sid}\n\nStatus: ${data.status}`
+          `Connected to ${selectedProvider.displayName} account: ${result.accountName}` +
+          (result.status ? `\n\nStatus: ${result.status}` : '') +
+          (result.isSubaccount ? '\n\nThis is a subaccount.' : '') +
+          describeWarnings(result)
         );
       } else {
-        const error = await response.json();
-        Alert.alert('Connection Failed', `Could not connect to Twilio:\n${error.message || 'Invalid credentials'}`);
+        Alert.alert('Connection Failed', `Could not connect to ${selectedProvider.displayName}:\n${result.error || 'Invalid credentials'}`);
       }
     } catch (error) {
       Alert.alert('Connection Failed', 'Could not connect to Twilio. Please check your internet connection and credentials.');
@@ -340,6 +558,51 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
     }
   };
 
+  const rotateApiKey = async () => {
+    if (!newApiKeySid.trim() || !newApiKeySecret.trim()) {
+      Alert.alert('Missing Information', 'Please enter the new API Key SID and Secret');
+      return;
+    }
+
+    setRotating(true);
+    try {
+      const oldKeySid = savedApiKeySid;
+      const result = await TwilioService.rotateApiKey(newApiKeySid.trim(), newApiKeySecret.trim());
+      if (!result.ok) {
+        Alert.alert('Key Not Changed', `The new key didn't work, so the old one is still in use:\n${result.error || 'Invalid credentials'}`);
+        return;
+      }
+
+      setApiKeySid(newApiKeySid.trim());
+      setApiKeySecret(newApiKeySecret.trim());
+      setSavedApiKeySid(newApiKeySid.trim());
+      setCredentialType('api-key');
+      setAuthToken('');
+      setNewApiKeySid('');
+      setNewApiKeySecret('');
+      Alert.alert(
+        'Key Replaced 🔑',
+        (oldKeySid
+          ? `The app now uses the new key. Delete the old key (${oldKeySid}) in the Twilio Console so it stops working.`
+          : 'The app now uses the new key. Consider changing the account Auth Token in the Twilio Console, since this phone used to hold it.') +
+        describeWarnings(result)
+      );
+    } catch (error) {
+      Alert.alert('Key Not Changed', 'Could not reach Twilio. Please check your internet connection and try again.');
+    } finally {
+      setRotating(false);
+    }
+  };
+
+  const sharePushToken = async () => {
+    if (!pushToken) return;
+    try {
+      await Share.share({ message: pushToken });
+    } catch (error) {
+      console.error('Failed to share push token:', error);
+    }
+  };
+
   const clearConfig = async () => {
     Alert.alert(
       'Clear Settings',
@@ -355,6 +618,10 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
             setAuthToken('');
             setPhoneNumber('');
             setUserPhoneNumber('');
+            setProvider('twilio');
+            setServerUrl('');
+            setServerApiKey('');
+            setUnknownCallers('reject');
             Alert.alert('Cleared', 'Twilio settings have been cleared.');
           },
         },
@@ -384,6 +651,22 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
     );
   }
 
+  if (showCallHistory) {
+    return <CallHistoryScreen onBack={() => setShowCallHistory(false)} />;
+  }
+
+  if (showUnknownSenders) {
+    return (
+      <UnknownSendersScreen
+        onBack={() => {
+          setShowUnknownSenders(false);
+          loadQuarantinedCount();
+          loadSelectedContacts(); // Approved senders become contacts
+        }}
+      />
+    );
+  }
+
   return (
     <SafeAreaView 
       style={styles.container}
@@ -447,35 +730,131 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
               <Text style={styles.infoTitle}>📱 Setup Instructions</Text>
               <Text style={styles.infoText}>
                 1. Sign up at twilio.com{'\n'}
-                2. Buy a phone number{'\n'}
-                3. Get your Account SID and Auth Token{'\n'}
-                4. Enter them below
+                2. Create a subaccount and buy a phone number on it{'\n'}
+                3. Create a Standard API key for the subaccount{'\n'}
+                4. Enter the subaccount SID and the key below
               </Text>
             </View>
 
             <View style={styles.form}>
-              <Text style={styles.label}>Account SID</Text>
-              <TextInput
-                style={styles.input}
-                value={accountSid}
-                onChangeText={setAccountSid}
-                placeholder="AC1234567890abcdef..."
-                placeholderTextColor="#666"
-                autoCapitalize="none"
-                autoCorrect={false}
-              />
+              <Text style={styles.label}>Phone Service</Text>
+              <View style={styles.toggleContainer}>
+                {getAvailableProviders().map(option => (
+                  <TouchableOpacity
+                    key={option.id}
+                    style={[styles.toggleButton, provider === option.id && styles.toggleButtonActive]}
+                    onPress={() => setProvider(option.id)}
+                  >
+                    <Text style={[styles.toggleText, provider === option.id && styles.toggleTextActive]}>
+                      {option.displayName}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              {!getTelephonyProvider(provider).requiresCredentials && (
+                <Text style={styles.infoText}>
+                  Demo mode never contacts a real phone network. Texts and calls stay on this device, and no texts arrive.
+                </Text>
+              )}
+
+              {getTelephonyProvider(provider).requiresCredentials && (
+                <>
+                  <Text style={styles.label}>Account or Subaccount SID</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={accountSid}
+                    onChangeText={setAccountSid}
+                    placeholder="AC1234567890abcdef..."
+                    placeholderTextColor="#666"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                  />
+
+                  <Text style={styles.label}>Sign In With</Text>
+                  <View style={styles.toggleContainer}>
+                    <TouchableOpacity
+                      style={[styles.toggleButton, credentialType === 'api-key' && styles.toggleButtonActive]}
+                      onPress={() => setCredentialType('api-key')}
+                    >
+                      <Text style={[styles.toggleText, credentialType === 'api-key' && styles.toggleTextActive]}>
+                        API Key
+                      </Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.toggleButton, credentialType === 'auth-token' && styles.toggleButtonActive]}
+                      onPress={() => setCredentialType('auth-token')}
+                    >
+                      <Text style={[styles.toggleText, credentialType === 'auth-token' && styles.toggleTextActive]}>
+                        Auth Token
+                      </Text>
+                    </TouchableOpacity>
+                  </View>
+
+                  {credentialType === 'api-key' ? (
+                    <>
+                      <Text style={styles.label}>API Key SID</Text>
+                      <TextInput
+                        style={styles.input}
+                        value={apiKeySid}
+                        onChangeText={setApiKeySid}
+                        placeholder="SK1234567890abcdef..."
+                        placeholderTextColor="#666"
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                      />
+
+                      <Text style={styles.label}>API Key Secret</Text>
+                      <TextInput
+                        style={styles.input}
+                        value={apiKeySecret}
+                        onChangeText={setApiKeySecret}
+                        placeholder="your_api_key_secret"
+                        placeholderTextColor="#666"
+                        secureTextEntry
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                      />
+                      <Text style={styles.infoText}>
+                        If this phone is lost, delete the key in the Twilio Console. Your account and its Auth Token stay safe.
+                      </Text>
+                    </>
+                  ) : (
+                    <>
+                      <Text style={styles.label}>Auth Token</Text>
+                      <TextInput
+                        style={styles.input}
+                        value={authToken}
+                        onChangeText={setAuthToken}
+                        placeholder="your_auth_token"
+                        placeholderTextColor="#666"
+                        secureTextEntry
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                      />
+                      <Text style={styles.infoText}>
+                        The Auth Token controls the whole account. An API key is safer on a phone that could be lost.
+                      </Text>
+                    </>
+                  )}
+                </>
+              )}
 
-              <Text style={styles.label}>Auth Token</Text>
+              <Text style={styles.label}>Home Country</Text>
               <TextInput
                 style={styles.input}
-                value={authToken}
-                onChangeText={setAuthToken}
-                placeholder="your_auth_token"
+                value={homeCountry}
+                onChangeText={setHomeCountry}
+                placeholder="US"
                 placeholderTextColor="#666"
-                secureTextEntry
-                autoCapitalize="none"
+                autoCapitalize="characters"
                 autoCorrect={false}
+                maxLength={2}
               />
+              <Text style={styles.infoText}>
+                {toCountryCode(homeCountry)
+                  ? `Numbers without a country code are treated as ${toCountryCode(homeCountry)} numbers (${getCallingCode(toCountryCode(homeCountry)!)}).`
+                  : 'Two-letter country code, e.g. US, CA, GB, AU.'}
+              </Text>
 
               <Text style={styles.label}>Your Twilio Phone Number</Text>
               <TextInput
@@ -503,6 +882,56 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
               <Text style={styles.infoText}>
                 This is the phone number that contacts will be connected to when they answer calls.
               </Text>
+
+              <Text style={styles.label}>Webhook Server URL (optional)</Text>
+              <TextInput
+                style={styles.input}
+                value={serverUrl}
+                onChangeText={setServerUrl}
+                placeholder="https://your-project.vercel.app"
+                placeholderTextColor="#666"
+                keyboardType="url"
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+
+              <Text style={styles.label}>Server Key</Text>
+              <TextInput
+                style={styles.input}
+                value={serverApiKey}
+                onChangeText={setServerApiKey}
+                placeholder="APP_API_KEY from the server"
+                placeholderTextColor="#666"
+                secureTextEntry
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              <Text style={styles.infoText}>
+                Needed to send photos, record voicemails, answer calls to the Twilio number and use the caregiver dashboard (your server URL + /api/dashboard). Use the same key you set as APP_API_KEY on the webhook server.
+              </Text>
+
+              <Text style={styles.label}>Calls From Unknown Numbers</Text>
+              <View style={styles.toggleContainer}>
+                <TouchableOpacity
+                  style={[styles.toggleButton, unknownCallers === 'reject' && styles.toggleButtonActive]}
+                  onPress={() => setUnknownCallers('reject')}
+                >
+                  <Text style={[styles.toggleText, unknownCallers === 'reject' && styles.toggleTextActive]}>
+                    Reject
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.toggleButton, unknownCallers === 'voicemail' && styles.toggleButtonActive]}
+                  onPress={() => setUnknownCallers('voicemail')}
+                >
+                  <Text style={[styles.toggleText, unknownCallers === 'voicemail' && styles.toggleTextActive]}>
+                    Voicemail
+                  </Text>
+                </TouchableOpacity>
+              </View>
+              <Text style={styles.infoText}>
+                Only selected contacts are put through to your phone. Other callers are turned away, or can leave a voicemail for you to review in Blocked Communications.
+              </Text>
             </View>
 
             <View style={styles.buttonContainer}>
@@ -530,6 +959,66 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
                 <Text style={styles.clearButtonText}>🗑️ Clear Settings</Text>
               </TouchableOpacity>
             </View>
+
+            {TwilioService.isConfigured() && getTelephonyProvider(provider).requiresCredentials && (
+              <View style={[styles.infoBox, { marginTop: 20 }]}>
+                <Text style={styles.infoTitle}>🔑 Replace API Key</Text>
+                <Text style={styles.infoText}>
+                  {savedApiKeySid
+                    ? `Currently using key ${savedApiKeySid}. Create a new key in the Twilio Console and enter it here - nothing else needs to be typed again.`
+                    : 'Currently using the account Auth Token. Enter an API key here to stop keeping the Auth Token on this phone.'}
+                </Text>
+                <Text style={styles.label}>New API Key SID</Text>
+                <TextInput
+                  style={styles.input}
+                  value={newApiKeySid}
+                  onChangeText={setNewApiKeySid}
+                  placeholder="SK1234567890abcdef..."
+                  placeholderTextColor="#666"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+                <Text style={styles.label}>New API Key Secret</Text>
+                <TextInput
+                  style={styles.input}
+                  value={newApiKeySecret}
+                  onChangeText={setNewApiKeySecret}
+                  placeholder="new_api_key_secret"
+                  placeholderTextColor="#666"
+                  secureTextEntry
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+                <TouchableOpacity
+                  style={[styles.testButton, { marginTop: 12 }, rotating && styles.saveButtonDisabled]}
+                  onPress={rotateApiKey}
+                  disabled={rotating}
+                >
+                  <Text style={styles.testButtonText}>
+                    {rotating ? 'Checking...' : '🔄 Check & Replace Key'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            )}
+
+            <View style={[styles.infoBox, { marginTop: 20 }]}>
+              <Text style={styles.infoTitle}>🔔 Push Notifications</Text>
+              {pushToken ? (
+                <>
+                  <Text style={styles.infoText}>
+                    New texts are fetched as soon as the webhook server sends a push. The token is registered automatically when a webhook server is set above:
+                  </Text>
+                  <Text style={styles.pushTokenText} selectable>{pushToken}</Text>
+                  <TouchableOpacity style={[styles.testButton, { marginTop: 12 }]} onPress={sharePushToken}>
+                    <Text style={styles.testButtonText}>📤 Share Token</Text>
+                  </TouchableOpacity>
+                </>
+              ) : (
+                <Text style={styles.infoText}>
+                  Push notifications are not available on this device, so the app checks for new texts every few minutes instead.
+                </Text>
+              )}
+            </View>
           </ScrollView>
         ) : currentTab === 'contacts' ? (
           <View style={styles.tabContent}>
@@ -547,7 +1036,7 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
               </Text>
             </View>
 
-            {(blockedMessages.length > 0 || blockedCalls.length > 0) && (
+            {(blockedMessages.length > 0 || blockedCalls.length > 0 || blockedIncomingCalls.length > 0 || heldMessages.length > 0) && (
               <View style={[styles.infoBox, { backgroundColor: '#2a1a00' }]}>
                 <Text style={styles.infoTitle}>
                   🚫 Blocked Communications ({blockedMessages.length + blockedCalls.length})
@@ -555,6 +1044,8 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
                 <Text style={styles.infoText}>
                   📝 {blockedMessages.length} blocked messages{'\n'}
                   📞 {blockedCalls.length} blocked calls{'\n'}
+                  {blockedIncomingCalls.length > 0 && `📲 ${blockedIncomingCalls.length} incoming calls not put through\n`}
+                  {heldMessages.length > 0 && `🔒 ${heldMessages.length} messages held for your review\n`}
                   These are stored for caregiver review.
                 </Text>
                 
@@ -582,6 +1073,68 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
               </View>
             )}
 
+            {contentPolicy && (
+              <View style={styles.settingItem}>
+                <View style={styles.settingHeader}>
+                  <Text style={styles.settingTitle}>🔒 Private Information Guard</Text>
+                  <Text style={styles.settingDescription}>
+                    Texts that contain these details are held for your review instead of being sent
+                  </Text>
+                </View>
+
+                <View style={styles.toggleContainer}>
+                  <TouchableOpacity
+                    style={[styles.toggleButton, !contentPolicy.enabled && styles.toggleButtonActive]}
+                    onPress={() => updateContentPolicy({ ...contentPolicy, enabled: false })}
+                  >
+                    <Text style={[styles.toggleText, !contentPolicy.enabled && styles.toggleTextActive]}>
+                      OFF
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.toggleButton, contentPolicy.enabled && styles.toggleButtonActive]}
+                    onPress={() => updateContentPolicy({ ...contentPolicy, enabled: true })}
+                  >
+                    <Text style={[styles.toggleText, contentPolicy.enabled && styles.toggleTextActive]}>
+                      ON
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+
+                {contentPolicy.enabled && (
+                  <>
+                    {(Object.keys(CATEGORY_LABELS) as SensitiveCategory[]).map(category => (
+                      <TouchableOpacity
+                        key={category}
+                        style={[styles.toggleButton, styles.policyCategory, contentPolicy.categories[category] && styles.toggleButtonActive]}
+                        onPress={() => updateContentPolicy({
+                          ...contentPolicy,
+                          categories: { ...contentPolicy.categories, [category]: !contentPolicy.categories[category] }
+                        })}
+                      >
+                        <Text style={[styles.toggleText, contentPolicy.categories[category] && styles.toggleTextActive]}>
+                          {contentPolicy.categories[category] ? '✓ ' : ''}{CATEGORY_LABELS[category]}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+
+                    <Text style={[styles.settingDescription, { marginTop: 16, marginBottom: 8 }]}>
+                      Other words to hold (separate with commas)
+                    </Text>
+                    <TextInput
+                      style={styles.input}
+                      value={policyKeywords}
+                      onChangeText={setPolicyKeywords}
+                      onEndEditing={savePolicyKeywords}
+                      placeholder="e.g. gift card, wire, lottery"
+                      placeholderTextColor="#666"
+                      autoCapitalize="none"
+                    />
+                  </>
+                )}
+              </View>
+            )}
+
             {selectedContacts.map(contact => {
               const settings = contact.frequencySettings || frequencyTracker.getDefaultFrequencySettings();
               const stats = frequencyTracker.getCommunicationStats(contact.id);
@@ -763,6 +1316,127 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
               </Text>
             </View>
 
+            <View style={[styles.infoBox, pinIsLegacyDefault && { backgroundColor: '#2a1a00' }]}>
+              <Text style={styles.infoTitle}>🔐 Settings PIN</Text>
+              <Text style={styles.infoText}>
+                {pinIsLegacyDefault
+                  ? 'Settings are still protected by the old PIN 1234. Please choose a new one.'
+                  : 'Settings lock for a while after 5 wrong PINs in a row, and you get a text alert if that happens.'}
+              </Text>
+              <TouchableOpacity
+                style={[styles.saveButton, { backgroundColor: '#4a4a4a', marginTop: 12 }]}
+                onPress={() => setShowChangePin(true)}
+              >
+                <Text style={styles.saveButtonText}>🔢 Change PIN</Text>
+              </TouchableOpacity>
+
+              {biometricsAvailable && (
+                <>
+                  <Text style={styles.label}>Fingerprint or Face Unlock</Text>
+                  <View style={styles.toggleContainer}>
+                    <TouchableOpacity
+                      style={[styles.toggleButton, biometricsEnabled && styles.toggleButtonActive]}
+                      onPress={() => !biometricsEnabled && confirmEnableBiometrics()}
+                    >
+                      <Text style={[styles.toggleText, biometricsEnabled && styles.toggleTextActive]}>ON</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.toggleButton, !biometricsEnabled && styles.toggleButtonActive]}
+                      onPress={() => biometricsEnabled && setBiometrics(false)}
+                    >
+                      <Text style={[styles.toggleText, !biometricsEnabled && styles.toggleTextActive]}>OFF</Text>
+                    </TouchableOpacity>
+                  </View>
+                  <Text style={styles.infoText}>
+                    ⚠️ Off by default. Anyone whose fingerprint or face is set up on this phone can open settings, including the person who uses it, so only turn this on if that's just you.
+                  </Text>
+                </>
+              )}
+            </View>
+
+            <View style={[styles.infoBox, quarantinedCount > 0 && { backgroundColor: '#2a1a00' }]}>
+              <Text style={styles.infoTitle}>🛡️ Texts From Unknown Numbers ({quarantinedCount})</Text>
+              <Text style={styles.infoText}>
+                Texts from numbers that aren't contacts are held here instead of being shown on the phone. Add the sender as a contact or block them.
+              </Text>
+              <TouchableOpacity
+                style={[styles.saveButton, { backgroundColor: '#4a4a4a', marginTop: 12 }]}
+                onPress={() => setShowUnknownSenders(true)}
+              >
+                <Text style={styles.saveButtonText}>📋 Review Unknown Senders</Text>
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.infoBox}>
+              <Text style={styles.infoTitle}>📞 Call History</Text>
+              <Text style={styles.infoText}>
+                Every call made from this phone or to the Twilio number, including blocked calls and how long each call lasted.
+              </Text>
+              <TouchableOpacity
+                style={[styles.saveButton, { backgroundColor: '#4a4a4a', marginTop: 12 }]}
+                onPress={() => setShowCallHistory(true)}
+              >
+                <Text style={styles.saveButtonText}>📋 View Call History</Text>
+              </TouchableOpacity>
+            </View>
+
+            {undeliveredMessages.length > 0 && (
+              <View style={[styles.infoBox, { backgroundColor: '#2a1a00' }]}>
+                <Text style={styles.infoTitle}>
+                  📭 Undelivered Messages ({undeliveredMessages.length})
+                </Text>
+                <Text style={styles.infoText}>
+                  The phone network could not deliver these texts.
+                </Text>
+                {undeliveredMessages.slice(0, 10).map(message => (
+                  <View key={message.id} style={styles.undeliveredItem}>
+                    <Text style={styles.undeliveredRecipient}>
+                      {getRecipientName(message)} • {new Date(message.timestamp).toLocaleString()}
+                    </Text>
+                    <Text style={styles.undeliveredText} numberOfLines={2}>
+                      {message.text || '📷 Photo'}
+                    </Text>
+                    {message.errorCode !== undefined && (
+                      <Text style={styles.undeliveredError}>Carrier error {message.errorCode}</Text>
+                    )}
+                  </View>
+                ))}
+                <TouchableOpacity
+                  style={[styles.saveButton, { backgroundColor: '#4a4a4a', marginTop: 12 }]}
+                  onPress={recheckDeliveryStatuses}
+                >
+                  <Text style={styles.saveButtonText}>🔄 Check Again</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+
+            {flaggedMessages.length > 0 && (
+              <View style={[styles.infoBox, { backgroundColor: '#2a1a00' }]}>
+                <Text style={styles.infoTitle}>
+                  ⚠️ Possible Scam Messages ({flaggedMessages.length})
+                </Text>
+                <Text style={styles.infoText}>
+                  High-risk texts are hidden from the phone. Others are shown with a warning.
+                </Text>
+                {flaggedMessages.slice(0, 10).map(message => (
+                  <View key={message.id} style={styles.undeliveredItem}>
+                    <Text style={styles.undeliveredRecipient}>
+                      {getRecipientName(message)} • {new Date(message.timestamp).toLocaleString()}
+                    </Text>
+                    <Text style={styles.undeliveredText} numberOfLines={3}>
+                      {message.text}
+                    </Text>
+                    <Text style={styles.undeliveredError}>
+                      {message.risk?.level === 'high' ? '🚫 Hidden' : '⚠️ Shown with warning'} • {message.risk?.reasons.join(', ')}
+                    </Text>
+                    <TouchableOpacity onPress={() => markMessageSafe(message)}>
+                      <Text style={styles.markSafeText}>✅ Mark as Safe</Text>
+                    </TouchableOpacity>
+                  </View>
+                ))}
+              </View>
+            )}
+
             {caregiverSettings && (
               <>
                 <View style={styles.settingItem}>
@@ -960,25 +1634,109 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
                           </Text>
                         </TouchableOpacity>
                       </View>
+                    </View>
+
+                    {caregiverSettings.smsEnabled && (
+                      <View style={styles.settingItem}>
+                        <View style={styles.settingHeader}>
+                          <Text style={styles.settingTitle}>👥 Caregivers</Text>
+                          <Text style={styles.settingDescription}>
+                            Everyone who shares care duties. Each person gets only the texts chosen for them.
+                          </Text>
+                        </View>
+
+                        {caregiverSettings.caregivers.map(caregiver => (
+                          <TouchableOpacity
+                            key={caregiver.id}
+                            style={styles.caregiverRow}
+                            onPress={() => openCaregiver(caregiver)}
+                          >
+                            <Text style={styles.caregiverName}>
+                              {caregiver.name} ({caregiver.role === 'primary' ? 'Primary' : caregiver.role === 'backup' ? 'Backup' : 'Observer'})
+                            </Text>
+                            <Text style={styles.settingDescription}>{formatPhoneNumber(caregiver.phoneNumber)}</Text>
+                            <Text style={styles.settingDescription}>
+                              {caregiver.alerts.map(alert => CAREGIVER_ALERT_LABELS[alert]).join(', ') || 'No alerts'}
+                            </Text>
+                          </TouchableOpacity>
+                        ))}
+
+                        <TouchableOpacity style={[styles.saveButton, { marginTop: 8 }]} onPress={() => openCaregiver(null)}>
+                          <Text style={styles.saveButtonText}>➕ Add Caregiver</Text>
+                        </TouchableOpacity>
 
-                      {caregiverSettings.smsEnabled && (
-                        <View style={styles.inputContainer}>
-                          <Text style={styles.label}>Caregiver Phone Number</Text>
-                          <TextInput
-                            style={styles.input}
-                            value={caregiverSettings.phoneNumber || ''}
-                            onChangeText={(text) => updateCaregiverSettings({
+                        {caregiverSettings.caregivers.some(caregiver => caregiver.role === 'backup') && (
+                          <View style={styles.limitsContainer}>
+                            <Text style={styles.limitLabel}>
+                              Tell backups if alerts aren't reset within: {caregiverSettings.backupDelayMinutes} minutes
+                            </Text>
+                            <View style={styles.limitButtons}>
+                              <TouchableOpacity
+                                style={styles.limitButton}
+                                onPress={() => updateCaregiverSettings({
+                                  ...caregiverSettings,
+                                  backupDelayMinutes: Math.max(5, caregiverSettings.backupDelayMinutes - 5)
+                                })}
+                              >
+                                <Text style={styles.limitButtonText}>-</Text>
+                              </TouchableOpacity>
+                              <TouchableOpacity
+                                style={styles.limitButton}
+                                onPress={() => updateCaregiverSettings({
+                                  ...caregiverSettings,
+                                  backupDelayMinutes: Math.min(24 * 60, caregiverSettings.backupDelayMinutes + 5)
+                                })}
+                              >
+                                <Text style={styles.limitButtonText}>+</Text>
+                              </TouchableOpacity>
+                            </View>
+                          </View>
+                        )}
+                      </View>
+                    )}
+
+                    {caregiverSettings.smsEnabled && (
+                      <View style={styles.settingItem}>
+                        <View style={styles.settingHeader}>
+                          <Text style={styles.settingTitle}>📲 Text Commands</Text>
+                          <Text style={styles.settingDescription}>
+                            Change limits from afar by texting the Twilio number from a primary or backup caregiver's phone. These texts are never shown on this phone.
+                          </Text>
+                        </View>
+
+                        <View style={styles.toggleContainer}>
+                          <TouchableOpacity
+                            style={[styles.toggleButton, !caregiverSettings.remoteCommandsEnabled && styles.toggleButtonActive]}
+                            onPress={() => updateCaregiverSettings({
                               ...caregiverSettings,
-                              phoneNumber: text
+                              remoteCommandsEnabled: false
                             })}
-                            placeholder="+15551234567"
-                            placeholderTextColor="#666"
-                            keyboardType="phone-pad"
-                            autoCapitalize="none"
-                          />
+                          >
+                            <Text style={[styles.toggleText, !caregiverSettings.remoteCommandsEnabled && styles.toggleTextActive]}>
+                              OFF
+                            </Text>
+                          </TouchableOpacity>
+
+                          <TouchableOpacity
+                            style={[styles.toggleButton, caregiverSettings.remoteCommandsEnabled && styles.toggleButtonActive]}
+                            onPress={() => updateCaregiverSettings({
+                              ...caregiverSettings,
+                              remoteCommandsEnabled: true
+                            })}
+                          >
+                            <Text style={[styles.toggleText, caregiverSettings.remoteCommandsEnabled && styles.toggleTextActive]}>
+                              ON
+                            </Text>
+                          </TouchableOpacity>
                         </View>
-                      )}
-                    </View>
+
+                        {caregiverSettings.remoteCommandsEnabled && (
+                          <Text style={styles.settingDescription}>
+                            {CaregiverCommandService.getHelpText()}{'\n\n'}Example: 1234 SET TEXT LIMIT Mary 5/day
+                          </Text>
+                        )}
+                      </View>
+                    )}
 
 
                     <TouchableOpacity 
@@ -1051,6 +1809,21 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
           </ScrollView>
         )}
       </View>
+
+      <PinEntryModal
+        visible={showChangePin}
+        mode="change"
+        onClose={() => setShowChangePin(false)}
+        onSuccess={handlePinChanged}
+      />
+
+      <CaregiverEditModal
+        visible={showCaregiverModal}
+        caregiver={editingCaregiver}
+        onSave={saveCaregiver}
+        onRemove={removeCaregiver}
+        onClose={() => setShowCaregiverModal(false)}
+      />
     </SafeAreaView>
   );
 }
@@ -1324,6 +2097,18 @@ const styles = StyleSheet.create({
     marginTop: 8,
     lineHeight: 18,
   },
+  caregiverRow: {
+    backgroundColor: '#111',
+    borderRadius: 12,
+    padding: 16,
+    marginVertical: 8,
+  },
+  caregiverName: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 4,
+  },
   inputContainer: {
     marginTop: 16,
   },
@@ -1416,6 +2201,43 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     alignItems: 'center',
   },
+  pushTokenText: {
+    fontSize: 14,
+    color: '#4CAF50',
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    marginTop: 12,
+  },
+  undeliveredItem: {
+    marginTop: 12,
+    padding: 12,
+    backgroundColor: '#111',
+    borderRadius: 8,
+  },
+  undeliveredRecipient: {
+    fontSize: 14,
+    color: '#FF9800',
+    fontWeight: 'bold',
+    marginBottom: 4,
+  },
+  undeliveredText: {
+    fontSize: 16,
+    color: '#fff',
+  },
+  undeliveredError: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 4,
+  },
+  policyCategory: {
+    flex: 0,
+    marginTop: 12,
+  },
+  markSafeText: {
+    fontSize: 16,
+    color: '#4CAF50',
+    fontWeight: 'bold',
+    marginTop: 8,
+  },
   alertSentText: {
     fontSize: 14,
     color: '#4CAF50',
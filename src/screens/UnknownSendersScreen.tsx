@@ -0,0 +1,345 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import SecureStorage from '../services/SecureStorage';
+import QuarantineService, { QuarantinedSender } from '../services/QuarantineService';
+import TwilioService from '../services/TwilioService';
+import ScamDetector from '../services/ScamDetector';
+import ContactResolver from '../services/ContactResolver';
+import { formatPhoneNumber } from '../services/PhoneNumbers';
+import { clearContactsCache } from './ContactsScreen';
+import { Contact } from '../types/Contact';
+
+interface UnknownSendersScreenProps {
+  onBack: () => void;
+}
+
+export default function UnknownSendersScreen({ onBack }: UnknownSendersScreenProps) {
+  const [senders, setSenders] = useState<QuarantinedSender[]>([]);
+  const [blockedNumbers, setBlockedNumbers] = useState<string[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const insets = useSafeAreaInsets();
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    await QuarantineService.load();
+    setSenders(QuarantineService.getSenders());
+    setBlockedNumbers([...QuarantineService.getBlockedSenders()]);
+  };
+
+  const getRiskReasons = (text: string): string | null => {
+    const risk = ScamDetector.assess(text);
+    return risk ? risk.reasons.join(', ') : null;
+  };
+
+  const approveSender = async (sender: QuarantinedSender) => {
+    const name = (names[sender.phoneNumber] || '').trim();
+    if (!name) {
+      Alert.alert('Name Needed', 'Please type a name for this person before adding them as a contact.');
+      return;
+    }
+
+    try {
+      const contactsString = await SecureStorage.getItem('selected_contacts');
+      const contacts: Contact[] = contactsString ? JSON.parse(contactsString) : [];
+      const contact: Contact = {
+        id: `added-${Date.now()}`,
+        name,
+        phoneNumber: sender.phoneNumber,
+        birthdate: '',
+      };
+
+      await SecureStorage.setItem('selected_contacts', JSON.stringify([...contacts, contact]));
+      clearContactsCache(); // So the new contact shows on the home screen
+      await ContactResolver.refresh();
+      await TwilioService.syncCallRouting();
+      const released = await TwilioService.releaseQuarantinedSender(sender.phoneNumber, contact.id);
+
+      await loadData();
+      Alert.alert('Contact Added ✅', `${name} is now a contact. ${released} held message${released === 1 ? '' : 's'} moved to their conversation.`);
+    } catch (error) {
+      console.error('Failed to approve sender:', error);
+      Alert.alert('Error', 'Could not add this contact. Please try again.');
+    }
+  };
+
+  const blockSender = (sender: QuarantinedSender) => {
+    Alert.alert(
+      'Block This Number?',
+      `Texts from ${formatPhoneNumber(sender.phoneNumber)} will be deleted and future texts will never be shown.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Block',
+          style: 'destructive',
+          onPress: async () => {
+            await QuarantineService.blockSender(sender.phoneNumber);
+            await loadData();
+          },
+        },
+      ]
+    );
+  };
+
+  const unblockNumber = async (phoneNumber: string) => {
+    await QuarantineService.unblockSender(phoneNumber);
+    await loadData();
+  };
+
+  return (
+    <View style={{ flex: 1, backgroundColor: '#000', paddingTop: insets.top }}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={onBack}>
+            <Text style={styles.backButtonText}>← Back</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Unknown Senders</Text>
+        </View>
+
+        <View style={styles.summary}>
+          <Text style={styles.summaryText}>
+            🛡️ {senders.length} unknown numbers • 🚫 {blockedNumbers.length} blocked
+          </Text>
+          <Text style={styles.summarySubtext}>
+            Texts from numbers that aren't contacts are held here and never shown on the phone.
+          </Text>
+        </View>
+
+        <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+          {senders.length === 0 && (
+            <View style={styles.emptyContainer}>
+              <Text style={styles.emptyText}>No texts from unknown numbers.</Text>
+            </View>
+          )}
+
+          {senders.map(sender => (
+            <View key={sender.phoneNumber} style={styles.senderCard}>
+              <Text style={styles.senderNumber}>{formatPhoneNumber(sender.phoneNumber)}</Text>
+              <Text style={styles.timestamp}>
+                {sender.messages.length} message{sender.messages.length === 1 ? '' : 's'} • last {new Date(sender.lastTimestamp).toLocaleString()}
+              </Text>
+
+              {sender.messages.slice(-3).map(message => (
+                <View key={message.sid} style={styles.messageContainer}>
+                  <Text style={styles.messageText}>"{message.text}"</Text>
+                  {getRiskReasons(message.text) && (
+                    <Text style={styles.riskText}>⚠️ Possible scam: {getRiskReasons(message.text)}</Text>
+                  )}
+                  {message.numMedia > 0 && (
+                    <Text style={styles.messageLabel}>📷 {message.numMedia} picture{message.numMedia === 1 ? '' : 's'} (downloaded if approved)</Text>
+                  )}
+                </View>
+              ))}
+
+              <TextInput
+                style={styles.input}
+                value={names[sender.phoneNumber] || ''}
+                onChangeText={text => setNames({ ...names, [sender.phoneNumber]: text })}
+                placeholder="Name, if you know this person"
+                placeholderTextColor="#666"
+              />
+
+              <View style={styles.buttonRow}>
+                <TouchableOpacity style={styles.approveButton} onPress={() => approveSender(sender)}>
+                  <Text style={styles.buttonText}>✅ Add as Contact</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.blockButton} onPress={() => blockSender(sender)}>
+                  <Text style={styles.buttonText}>🚫 Block</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ))}
+
+          {blockedNumbers.length > 0 && (
+            <View style={styles.blockedSection}>
+              <Text style={styles.sectionTitle}>Blocked Numbers</Text>
+              {blockedNumbers.map(phoneNumber => (
+                <View key={phoneNumber} style={styles.blockedRow}>
+                  <Text style={styles.blockedNumber}>{formatPhoneNumber(phoneNumber)}</Text>
+                  <TouchableOpacity onPress={() => unblockNumber(phoneNumber)}>
+                    <Text style={styles.unblockText}>Unblock</Text>
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </View>
+          )}
+        </ScrollView>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingTop: 10,
+    paddingBottom: 16,
+    paddingHorizontal: 20,
+    backgroundColor: '#1a1a1a',
+    borderBottomWidth: 1,
+    borderBottomColor: '#333',
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    marginRight: 16,
+  },
+  backButtonText: {
+    fontSize: 20,
+    color: '#2196F3',
+    fontWeight: 'bold',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#fff',
+    flex: 1,
+  },
+  summary: {
+    padding: 20,
+    backgroundColor: '#1a1a1a',
+    borderBottomWidth: 1,
+    borderBottomColor: '#333',
+  },
+  summaryText: {
+    fontSize: 16,
+    color: '#fff',
+    fontWeight: 'bold',
+    marginBottom: 4,
+  },
+  summarySubtext: {
+    fontSize: 14,
+    color: '#ccc',
+  },
+  scrollView: {
+    flex: 1,
+    padding: 16,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyText: {
+    fontSize: 18,
+    color: '#666',
+    textAlign: 'center',
+  },
+  senderCard: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  senderNumber: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#2196F3',
+    marginBottom: 4,
+  },
+  timestamp: {
+    fontSize: 14,
+    color: '#ccc',
+    marginBottom: 8,
+  },
+  messageContainer: {
+    marginTop: 8,
+    padding: 12,
+    backgroundColor: '#111',
+    borderRadius: 8,
+  },
+  messageLabel: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 4,
+  },
+  messageText: {
+    fontSize: 14,
+    color: '#fff',
+    lineHeight: 18,
+  },
+  riskText: {
+    fontSize: 14,
+    color: '#FFEB3B',
+    fontWeight: 'bold',
+    marginTop: 6,
+  },
+  input: {
+    backgroundColor: '#111',
+    borderWidth: 1,
+    borderColor: '#333',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#fff',
+    marginTop: 12,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 12,
+  },
+  approveButton: {
+    flex: 1,
+    backgroundColor: '#4CAF50',
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  blockButton: {
+    flex: 1,
+    backgroundColor: '#FF5722',
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  blockedSection: {
+    marginTop: 12,
+    marginBottom: 32,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 8,
+  },
+  blockedRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#333',
+  },
+  blockedNumber: {
+    fontSize: 16,
+    color: '#ccc',
+  },
+  unblockText: {
+    fontSize: 16,
+    color: '#2196F3',
+    fontWeight: 'bold',
+  },
+});
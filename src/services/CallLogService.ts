@@ -0,0 +1,91 @@
+import SecureStorage from './SecureStorage';
+import { CallRecord } from '../types/Call';
+
+// Persistent history of every call, in and out. Unlike FrequencyTracker's records this
+// is never pruned after a day - only the oldest entries go once MAX_CALLS is reached.
+class CallLogService {
+  private static readonly STORAGE_KEY = 'call_log';
+  private static readonly MAX_CALLS = 1000;
+  private calls: CallRecord[] = [];
+  private loaded = false;
+
+  async loadCalls(): Promise<void> {
+    try {
+      const stored = await SecureStorage.getItem(CallLogService.STORAGE_KEY);
+      this.calls = stored ? JSON.parse(stored) : [];
+      this.loaded = true;
+    } catch (error) {
+      console.error('Failed to load call log:', error);
+    }
+  }
+
+  private async ensureLoaded(): Promise<void> {
+    if (!this.loaded) {
+      await this.loadCalls();
+    }
+  }
+
+  private async saveCalls(): Promise<void> {
+    try {
+      await SecureStorage.setItem(CallLogService.STORAGE_KEY, JSON.stringify(this.calls));
+    } catch (error) {
+      console.error('Failed to save call log:', error);
+    }
+  }
+
+  // Calls with a carrier SID are only logged once, so syncing the same call again is harmless
+  async addCall(call: Omit<CallRecord, 'id'>): Promise<CallRecord | null> {
+    await this.ensureLoaded();
+    if (call.providerSid && this.calls.some(existing => existing.providerSid === call.providerSid)) {
+      return null;
+    }
+
+    const record: CallRecord = {
+      ...call,
+      id: `${call.timestamp}-${Math.random().toString(36).substring(2, 8)}`,
+    };
+    this.calls.push(record);
+    this.calls.sort((a, b) => a.timestamp - b.timestamp);
+    this.calls = this.calls.slice(-CallLogService.MAX_CALLS);
+    await this.saveCalls();
+    return record;
+  }
+
+  async updateCall(id: string, changes: Partial<Omit<CallRecord, 'id'>>): Promise<void> {
+    await this.ensureLoaded();
+    const call = this.calls.find(existing => existing.id === id);
+    if (call) {
+      Object.assign(call, changes);
+      await this.saveCalls();
+    }
+  }
+
+  findByProviderSid(providerSid: string): CallRecord | undefined {
+    return this.calls.find(call => call.providerSid === providerSid);
+  }
+
+  // Calls the carrier may still have a final status and duration for
+  getPendingCalls(maxAgeMs: number): CallRecord[] {
+    const cutoff = Date.now() - maxAgeMs;
+    return this.calls.filter(call =>
+      call.outcome === 'in-progress' && !!call.providerSid && call.timestamp > cutoff
+    );
+  }
+
+  // Most recent first
+  getCalls(): CallRecord[] {
+    return [...this.calls].reverse();
+  }
+
+  getCallsForContact(contactId: string, limit?: number): CallRecord[] {
+    const calls = this.getCalls().filter(call => call.contactId === contactId);
+    return limit ? calls.slice(0, limit) : calls;
+  }
+
+  async clearCalls(): Promise<void> {
+    this.calls = [];
+    await this.saveCalls();
+  }
+}
+
+export default new CallLogService();
@@ -0,0 +1,278 @@
+import SecureStorage from './SecureStorage';
+import TwilioService from './TwilioService';
+import FrequencyTracker from './FrequencyTracker';
+import CaregiverNotificationService from './CaregiverNotificationService';
+import QuarantineService from './QuarantineService';
+import PinService from './PinService';
+import type { RemoteSettingChange } from './ServerClient';
+import { Contact, ContactFrequencySettings } from '../types/Contact';
+
+const HANDLED_KEY = 'caregiver_command_sids';
+const HANDLED_LIMIT = 200; // Enough to cover the day of texts fetched after a restart
+
+const HELP_TEXT = [
+  'Start each text with your settings PIN, then:',
+  'STATUS',
+  'RESET ALERTS',
+  'SET TEXT LIMIT <name> 5/day (or 2/hour, or OFF)',
+  'SET CALL LIMIT <name> 3/day (or 1/hour, or OFF)',
+  'QUIET 21:00-07:00 (or QUIET <name> 21:00-07:00, or QUIET OFF)',
+  'Use ALL as the name for every contact.',
+].join('\n');
+
+// Words a command can start with. Texts from a caregiver that don't look like commands
+// are treated as ordinary texts.
+const COMMAND_WORDS = ['STATUS', 'RESET', 'SET', 'QUIET', 'HELP'];
+
+// Lets a caregiver who lives far away change limits by texting the Twilio number, e.g.
+// "4821 SET TEXT LIMIT Mary 5/day", or from the web dashboard. Only texts from a primary or
+// backup caregiver that start with the settings PIN are obeyed, and they never appear on the
+// user's screen.
+class CaregiverCommandService {
+  private handledSids: string[] | null = null;
+  private contactListeners: Set<() => void> = new Set();
+
+  // Called for every inbound text. Returns true if the text was a command (handled or
+  // rejected) and must not be shown to the user.
+  async handleInbound(sid: string, from: string, body: string): Promise<boolean> {
+    const caregiverNotifications = CaregiverNotificationService.getInstance();
+    const settings = await caregiverNotifications.loadSettings();
+    if (!settings.remoteCommandsEnabled || !(await caregiverNotifications.findCommandCaregiver(from))) {
+      return false;
+    }
+
+    const match = body.trim().match(/^(\d{4,8})\s+([\s\S]+)$/);
+    if (!match || !COMMAND_WORDS.includes(match[2].trim().split(/\s+/)[0].toUpperCase())) {
+      return false;
+    }
+
+    // Texts fetched again after a restart must not run twice
+    if (await this.wasHandled(sid)) {
+      return true;
+    }
+    await this.markHandled(sid);
+
+    // Counted apart from PINs typed on the phone, so texts can't lock settings there
+    const pinCheck = await PinService.verifyPin(match[1], 'sms');
+    if (!pinCheck.ok) {
+      console.log('📲 Caregiver command rejected - wrong PIN');
+      await this.reply(from, pinCheck.lockedUntil
+        ? 'Too many wrong PINs. Commands are locked for a while.'
+        : 'PIN not accepted. Nothing was changed.');
+      return true;
+    }
+
+    try {
+      const response = await this.runCommand(match[2].trim());
+      console.log(`📲 Caregiver command: ${match[2].trim()}`);
+      await this.reply(from, response);
+    } catch (error) {
+      console.error('Caregiver command failed:', error);
+      await this.reply(from, 'Something went wrong and the change may not have been saved. Please try again.');
+    }
+    return true;
+  }
+
+  // The home screen caches contacts, so it needs to know when limits change behind its back
+  onContactsChanged(listener: () => void): () => void {
+    this.contactListeners.add(listener);
+    return () => {
+      this.contactListeners.delete(listener);
+    };
+  }
+
+  getHelpText(): string {
+    return HELP_TEXT;
+  }
+
+  // A change the caregiver made on the web dashboard. CloudSyncService has already checked
+  // it doesn't overwrite newer limits set on the phone.
+  async applyRemoteChange(change: RemoteSettingChange): Promise<void> {
+    if (change.type === 'reset-alerts') {
+      await CaregiverNotificationService.getInstance().resetAlerts();
+    } else {
+      await this.updateContacts([change.contactId], settings => ({
+        ...settings,
+        texts: change.texts,
+        calls: change.calls,
+        quietHours: change.quietHours || undefined,
+      }));
+    }
+  }
+
+  private async runCommand(command: string): Promise<string> {
+    const words = command.split(/\s+/);
+    const verb = words.map(word => word.toUpperCase()).slice(0, 3).join(' ');
+
+    if (verb.startsWith('STATUS')) {
+      return this.describeStatus();
+    }
+    if (verb.startsWith('HELP')) {
+      return HELP_TEXT;
+    }
+    if (verb.startsWith('RESET ALERTS')) {
+      await CaregiverNotificationService.getInstance().resetAlerts();
+      return 'Alerts reset. You will be told again if the limits are reached.';
+    }
+    if (verb === 'SET TEXT LIMIT' || verb === 'SET CALL LIMIT') {
+      return this.setLimit(words[1].toLowerCase() === 'text' ? 'texts' : 'calls', words.slice(3));
+    }
+    if (verb.startsWith('QUIET')) {
+      return this.setQuietHours(words.slice(1));
+    }
+
+    return `Command not recognized.\n\n${HELP_TEXT}`;
+  }
+
+  private async describeStatus(): Promise<string> {
+    const stats = await CaregiverNotificationService.getInstance().getCurrentViolationStats();
+    const frequencyTracker = FrequencyTracker.getInstance();
+    await frequencyTracker.loadRecords();
+    await QuarantineService.load();
+
+    const alertState = stats.escalationTriggered ? 'escalation alert sent'
+      : stats.primaryTriggered ? 'alert sent'
+      : 'no alerts sent';
+    const limits = (await this.loadContacts())
+      .filter(contact => contact.frequencySettings)
+      .map(contact => `${contact.name}: ${this.describeLimits(contact.frequencySettings!)}`);
+
+    return [
+      `Blocked today: ${stats.todayBlocked} (${alertState})`,
+      `Texts from unknown numbers waiting: ${QuarantineService.getMessageCount()}`,
+      `Texts held for review: ${frequencyTracker.getHeldMessages().length}`,
+      ...(limits.length > 0 ? ['', ...limits] : []),
+    ].join('\n');
+  }
+
+  private describeLimits(settings: ContactFrequencySettings): string {
+    const describe = (label: string, limit: ContactFrequencySettings['texts']) =>
+      limit.enabled ? `${label} ${limit.maxPerHour}/hour, ${limit.maxPerDay}/day` : `${label} no limit`;
+    const quiet = settings.quietHours ? `, quiet ${settings.quietHours.start}-${settings.quietHours.end}` : '';
+    return `${describe('texts', settings.texts)}; ${describe('calls', settings.calls)}${quiet}`;
+  }
+
+  private async setLimit(type: 'texts' | 'calls', args: string[]): Promise<string> {
+    const value = args[args.length - 1]?.toLowerCase();
+    const name = args.slice(0, -1).join(' ');
+    const limit = value?.match(/^(\d{1,3})\/(day|hour)$/);
+    if (!name || (!limit && value !== 'off')) {
+      return `Please send it like: SET ${type === 'texts' ? 'TEXT' : 'CALL'} LIMIT Mary 5/day`;
+    }
+
+    const found = await this.findContacts(name);
+    if (typeof found === 'string') return found;
+
+    await this.updateContacts(found.map(contact => contact.id), settings => {
+      const current = settings[type];
+      if (!limit) {
+        return { ...settings, [type]: { ...current, enabled: false } };
+      }
+      const count = Math.max(1, parseInt(limit[1], 10));
+      return {
+        ...settings,
+        [type]: limit[2] === 'day'
+          ? { ...current, enabled: true, maxPerDay: count, maxPerHour: Math.min(current.maxPerHour, count) }
+          : { ...current, enabled: true, maxPerHour: count, maxPerDay: Math.max(current.maxPerDay, count) },
+      };
+    });
+
+    const who = found.map(contact => contact.name).join(', ');
+    return limit
+      ? `${type === 'texts' ? 'Text' : 'Call'} limit for ${who} is now ${limit[1]} per ${limit[2]}.`
+      : `${type === 'texts' ? 'Text' : 'Call'} limit for ${who} turned off.`;
+  }
+
+  private async setQuietHours(args: string[]): Promise<string> {
+    const value = args[args.length - 1]?.toLowerCase();
+    const name = args.slice(0, -1).join(' ') || 'all';
+    const hours = value?.match(/^(\d{1,2}):(\d{2})-(\d{1,2}):(\d{2})$/);
+    const validTime = (h: string, m: string) => parseInt(h, 10) < 24 && parseInt(m, 10) < 60;
+    if ((!hours && value !== 'off') || (hours && (!validTime(hours[1], hours[2]) || !validTime(hours[3], hours[4])))) {
+      return 'Please send it like: QUIET 21:00-07:00 (24-hour times) or QUIET OFF';
+    }
+
+    const found = await this.findContacts(name);
+    if (typeof found === 'string') return found;
+
+    const pad = (h: string, m: string) => `${h.padStart(2, '0')}:${m}`;
+    const quietHours = hours ? { start: pad(hours[1], hours[2]), end: pad(hours[3], hours[4]) } : undefined;
+    await this.updateContacts(found.map(contact => contact.id), settings => ({ ...settings, quietHours }));
+
+    const who = name.toLowerCase() === 'all' ? 'all contacts' : found.map(contact => contact.name).join(', ');
+    if (!quietHours) {
+      return `Quiet hours for ${who} turned off.`;
+    }
+
+    // FrequencyTracker only checks quiet hours for contacts that have a limit turned on
+    const unlimited = (await this.findContacts(name) as Contact[])
+      .filter(contact => !contact.frequencySettings?.texts.enabled && !contact.frequencySettings?.calls.enabled);
+    const note = unlimited.length > 0
+      ? ` They don't apply to ${unlimited.map(contact => contact.name).join(', ')} until a text or call limit is set.`
+      : '';
+    return `Quiet hours for ${who} are now ${quietHours.start}-${quietHours.end}.${note}`;
+  }
+
+  // Full name, then first name, then the start of a name. ALL means every contact.
+  private async findContacts(name: string): Promise<Contact[] | string> {
+    const contacts = await this.loadContacts();
+    const wanted = name.trim().toLowerCase();
+    if (wanted === 'all') {
+      return contacts.length > 0 ? contacts : 'There are no contacts on the phone yet.';
+    }
+
+    const matchers = [
+      (contact: Contact) => contact.name.toLowerCase() === wanted,
+      (contact: Contact) => contact.name.toLowerCase().split(/\s+/)[0] === wanted,
+      (contact: Contact) => contact.name.toLowerCase().startsWith(wanted),
+    ];
+    for (const matcher of matchers) {
+      const matches = contacts.filter(matcher);
+      if (matches.length === 1) return matches;
+      if (matches.length > 1) {
+        return `More than one contact matches "${name}": ${matches.map(contact => contact.name).join(', ')}. Please use the full name.`;
+      }
+    }
+    return `No contact named "${name}". Contacts: ${contacts.map(contact => contact.name).join(', ')}`;
+  }
+
+  private async loadContacts(): Promise<Contact[]> {
+    const contactsString = await SecureStorage.getItem('selected_contacts');
+    return contactsString ? JSON.parse(contactsString) : [];
+  }
+
+  private async updateContacts(contactIds: string[], update: (settings: ContactFrequencySettings) => ContactFrequencySettings): Promise<void> {
+    const ids = new Set(contactIds);
+    const contacts = (await this.loadContacts()).map(contact => ids.has(contact.id)
+      ? { ...contact, frequencySettings: update(contact.frequencySettings || FrequencyTracker.getInstance().getDefaultFrequencySettings()) }
+      : contact
+    );
+
+    await SecureStorage.setItem('selected_contacts', JSON.stringify(contacts));
+    this.contactListeners.forEach(listener => listener());
+    TwilioService.syncCallRouting(); // Same limits apply to calls coming in
+  }
+
+  private async reply(to: string, message: string): Promise<void> {
+    try {
+      await TwilioService.sendPrivateSMS(to, `My Care Phone: ${message}`);
+    } catch (error) {
+      console.error('Failed to reply to caregiver command:', error);
+    }
+  }
+
+  private async wasHandled(sid: string): Promise<boolean> {
+    if (!this.handledSids) {
+      const stored = await SecureStorage.getItem(HANDLED_KEY);
+      this.handledSids = stored ? JSON.parse(stored) : [];
+    }
+    return this.handledSids!.includes(sid);
+  }
+
+  private async markHandled(sid: string): Promise<void> {
+    this.handledSids = [...(this.handledSids || []), sid].slice(-HANDLED_LIMIT);
+    await SecureStorage.setItem(HANDLED_KEY, JSON.stringify(this.handledSids));
+  }
+}
+
+export default new CaregiverCommandService();
@@ -1,10 +1,46 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import SecureStorage from './SecureStorage';
 import { Linking } from 'react-native';
 import TwilioService from './TwilioService';
 import FrequencyTracker, { BlockedMessage, BlockedCall } from './FrequencyTracker';
+import CloudSyncService from './CloudSyncService';
+import { normalizePhoneNumber } from './PhoneNumbers';
+import { Message, MessageRisk } from '../types/Message';
+import type { PinSource } from './PinService';
+
+type CaregiverRole = 'primary' | 'backup' | 'observer';
+
+// Kinds of text a caregiver can choose to get
+type CaregiverAlert = 'level1' | 'level2' | 'scam' | 'held' | 'security';
+
+const CAREGIVER_ALERT_LABELS: Record<CaregiverAlert, string> = {
+  level1: 'Level 1 alerts',
+  level2: 'Level 2 alerts',
+  scam: 'Scam warnings',
+  held: 'Held texts',
+  security: 'PIN warnings',
+};
+
+const DEFAULT_ALERTS: Record<CaregiverRole, CaregiverAlert[]> = {
+  primary: ['level1', 'level2', 'scam', 'held', 'security'],
+  backup: ['level1', 'level2', 'security'],
+  observer: ['level1'],
+};
+
+// The primary caregiver resets alerts and gets PIN reset codes. Backups get Level 1 and 2
+// alerts only once the primary has left them unreset for backupDelayMinutes. Observers
+// just get the texts they chose.
+interface Caregiver {
+  id: string;
+  name: string;
+  phoneNumber: string;
+  role: CaregiverRole;
+  alerts: CaregiverAlert[];
+}
 
 interface CaregiverSettings {
-  phoneNumber?: string;
+  caregivers: Caregiver[];
+  backupDelayMinutes: number; // How long the primary has to reset before backups are told
+  pendingBackupAlert?: { level: 'level1' | 'level2'; message: string; dueAt: number };
   notificationsEnabled: boolean;
   smsEnabled: boolean;
   alertThreshold: number; // Primary alert threshold
@@ -14,11 +50,13 @@ interface CaregiverSettings {
   lastResetTimestamp?: number; // When caregiver last reset alerts
   primaryAlertSentAt?: number; // When primary alert was sent
   escalationAlertSentAt?: number; // When escalation alert was sent
+  remoteCommandsEnabled?: boolean; // Obey PIN-prefixed command texts from primary and backup caregivers
 }
 
 class CaregiverNotificationService {
   private static instance: CaregiverNotificationService;
   private settings: CaregiverSettings | null = null;
+  private backupTimer: NodeJS.Timeout | null = null;
 
   static getInstance(): CaregiverNotificationService {
     if (!CaregiverNotificationService.instance) {
@@ -29,7 +67,7 @@ class CaregiverNotificationService {
 
   async loadSettings(): Promise<CaregiverSettings> {
     try {
-      const settingsString = await AsyncStorage.getItem('caregiver_notification_settings');
+      const settingsString = await SecureStorage.getItem('caregiver_notification_settings');
       if (settingsString) {
         const loadedSettings = JSON.parse(settingsString);
         // Migrate old settings to new format
@@ -66,8 +104,22 @@ class CaregiverNotificationService {
       escalationAlertSentAt = Date.now(); // Set to now as fallback
     }
     
+    // Older versions had a single caregiver number
+    let caregivers: Caregiver[] = oldSettings.caregivers || [];
+    if (!oldSettings.caregivers && oldSettings.phoneNumber) {
+      caregivers = [{
+        id: Date.now().toString(),
+        name: 'Caregiver',
+        phoneNumber: oldSettings.phoneNumber,
+        role: 'primary',
+        alerts: DEFAULT_ALERTS.primary,
+      }];
+    }
+
     return {
-      phoneNumber: oldSettings.phoneNumber,
+      caregivers,
+      backupDelayMinutes: oldSettings.backupDelayMinutes || defaults.backupDelayMinutes,
+      pendingBackupAlert: oldSettings.pendingBackupAlert,
       notificationsEnabled: oldSettings.notificationsEnabled || defaults.notificationsEnabled,
       smsEnabled: oldSettings.smsEnabled !== undefined ? oldSettings.smsEnabled : defaults.smsEnabled,
       alertThreshold: oldSettings.alertThreshold || defaults.alertThreshold,
@@ -77,12 +129,13 @@ class CaregiverNotificationService {
       lastResetTimestamp: oldSettings.lastResetTimestamp,
       primaryAlertSentAt,
       escalationAlertSentAt,
+      remoteCommandsEnabled: oldSettings.remoteCommandsEnabled || false,
     };
   }
 
   async saveSettings(settings: CaregiverSettings): Promise<void> {
     try {
-      await AsyncStorage.setItem('caregiver_notification_settings', JSON.stringify(settings));
+      await SecureStorage.setItem('caregiver_notification_settings', JSON.stringify(settings));
       this.settings = settings;
     } catch (error) {
       console.error('Failed to save caregiver settings:', error);
@@ -91,6 +144,8 @@ class CaregiverNotificationService {
 
   getDefaultSettings(): CaregiverSettings {
     return {
+      caregivers: [],
+      backupDelayMinutes: 30,
       notificationsEnabled: false,
       smsEnabled: true,
       alertThreshold: 5, // Alert after 5 blocked communications
@@ -133,6 +188,8 @@ class CaregiverNotificationService {
       await this.saveSettings(this.settings);
     }
     // If alertStatus is 'escalation-sent' or system disabled, no more alerts until reset
+
+    await this.checkBackupAlert();
   }
 
   private getTodayBlockedCount(messages: BlockedMessage[], calls: BlockedCall[]): number {
@@ -155,8 +212,8 @@ class CaregiverNotificationService {
     
     const alertMessage = `My Care Phone Alert (Level 1): ${todayCount} blocked communications today.\n\nRecent:\n${recentViolations}\n\nThis alert will not repeat until manually reset.`;
 
-    if (this.settings?.smsEnabled && this.settings?.phoneNumber) {
-      await this.sendSMSAlert(alertMessage);
+    if (this.settings?.smsEnabled) {
+      await this.sendThresholdAlert('level1', alertMessage);
     }
   }
 
@@ -170,8 +227,8 @@ class CaregiverNotificationService {
     
     const alertMessage = `My Care Phone Alert (Level 2): ${todayCount} blocked communications today.\n\nRecent:\n${recentViolations}\n\nThis alert will not repeat until manually reset.`;
 
-    if (this.settings?.smsEnabled && this.settings?.phoneNumber) {
-      await this.sendSMSAlert(alertMessage);
+    if (this.settings?.smsEnabled) {
+      await this.sendThresholdAlert('level2', alertMessage);
     }
   }
 
@@ -214,7 +271,9 @@ class CaregiverNotificationService {
       this.settings.lastResetTimestamp = Date.now();
       this.settings.primaryAlertSentAt = undefined;
       this.settings.escalationAlertSentAt = undefined;
+      this.settings.pendingBackupAlert = undefined;
       await this.saveSettings(this.settings);
+      this.scheduleBackupAlert();
     }
   }
 
@@ -227,7 +286,9 @@ class CaregiverNotificationService {
     if (this.settings && this.settings.alertStatus === 'alert-sent') {
       this.settings.alertStatus = 'ready';
       this.settings.primaryAlertSentAt = undefined;
+      this.settings.pendingBackupAlert = undefined;
       await this.saveSettings(this.settings);
+      this.scheduleBackupAlert();
     }
   }
 
@@ -240,6 +301,10 @@ class CaregiverNotificationService {
     if (this.settings && this.settings.alertStatus === 'escalation-sent') {
       this.settings.alertStatus = 'alert-sent'; // Back to primary alert state
       this.settings.escalationAlertSentAt = undefined;
+      if (this.settings.pendingBackupAlert?.level === 'level2') {
+        this.settings.pendingBackupAlert = undefined;
+        this.scheduleBackupAlert();
+      }
       await this.saveSettings(this.settings);
     }
   }
@@ -299,37 +364,235 @@ class CaregiverNotificationService {
     return undefined;
   }
 
-  private async sendSMSAlert(message: string): Promise<void> {
-    try {
-      if (!this.settings?.phoneNumber) {
-        return;
-      }
+  getPrimaryCaregiver(): Caregiver | undefined {
+    const caregivers = this.settings?.caregivers || [];
+    return caregivers.find(caregiver => caregiver.role === 'primary')
+      || caregivers.find(caregiver => caregiver.role === 'backup');
+  }
 
-      await TwilioService.loadConfig();
-      if (!TwilioService.isConfigured()) {
-        return;
+  // Caregivers whose texts are obeyed as commands - observers only watch
+  async findCommandCaregiver(phoneNumber: string): Promise<Caregiver | undefined> {
+    const settings = await this.loadSettings();
+    return settings.caregivers.find(caregiver =>
+      caregiver.role !== 'observer' && normalizePhoneNumber(caregiver.phoneNumber) === phoneNumber
+    );
+  }
+
+  // Adding a second primary makes the old one a backup
+  async saveCaregiver(caregiver: Caregiver): Promise<CaregiverSettings> {
+    const settings = await this.loadSettings();
+    const others = settings.caregivers.map(existing =>
+      caregiver.role === 'primary' && existing.role === 'primary' && existing.id !== caregiver.id
+        ? { ...existing, role: 'backup' as const }
+        : existing
+    );
+    const caregivers = others.some(existing => existing.id === caregiver.id)
+      ? others.map(existing => existing.id === caregiver.id ? caregiver : existing)
+      : [...others, caregiver];
+
+    const updated = { ...settings, caregivers };
+    await this.saveSettings(updated);
+    return updated;
+  }
+
+  async removeCaregiver(caregiverId: string): Promise<CaregiverSettings> {
+    const settings = await this.loadSettings();
+    const updated = { ...settings, caregivers: settings.caregivers.filter(caregiver => caregiver.id !== caregiverId) };
+    await this.saveSettings(updated);
+    return updated;
+  }
+
+  private async sendSMSAlert(kind: CaregiverAlert, message: string, backupsToo: boolean = true): Promise<void> {
+    const recipients = (this.settings?.caregivers || []).filter(caregiver =>
+      caregiver.alerts.includes(kind) && (backupsToo || caregiver.role !== 'backup')
+    );
+    await this.textCaregivers(recipients, () => message);
+  }
+
+  // Returns how many texts went out
+  private async textCaregivers(caregivers: Caregiver[], messageFor: (caregiver: Caregiver) => string): Promise<number> {
+    if (caregivers.length === 0) {
+      return 0;
+    }
+
+    await TwilioService.loadConfig();
+    if (!TwilioService.isConfigured()) {
+      return 0;
+    }
+
+    let sent = 0;
+    for (const caregiver of caregivers) {
+      try {
+        // Use Twilio to send SMS to caregiver
+        await TwilioService.sendSMS(caregiver.phoneNumber, messageFor(caregiver), 'caregiver-alert');
+        sent++;
+      } catch (error) {
+        console.error(`Failed to send SMS alert to ${caregiver.name}:`, error);
       }
+    }
+    return sent;
+  }
 
-      // Use Twilio to send SMS to caregiver
-      await TwilioService.sendSMS(this.settings.phoneNumber, message, 'caregiver-alert');
-    } catch (error) {
-      console.error('Failed to send SMS alert:', error);
+  // Level 1 and 2 alerts give the primary caregiver a head start before backups hear of them
+  private async sendThresholdAlert(level: 'level1' | 'level2', message: string): Promise<void> {
+    const hasPrimary = this.settings!.caregivers.some(caregiver => caregiver.role === 'primary');
+    await this.sendSMSAlert(level, message, !hasPrimary);
+
+    const backupsWaiting = hasPrimary && this.settings!.caregivers.some(caregiver =>
+      caregiver.role === 'backup' && caregiver.alerts.includes(level)
+    );
+    if (backupsWaiting) {
+      // A Level 2 alert before backups heard about Level 1 replaces it, on the same schedule
+      this.settings!.pendingBackupAlert = {
+        level,
+        message,
+        dueAt: this.settings!.pendingBackupAlert?.dueAt ?? Date.now() + this.settings!.backupDelayMinutes * 60 * 1000,
+      };
+      await this.saveSettings(this.settings!);
+      this.scheduleBackupAlert();
     }
   }
 
+  // Tell the backups about an alert the primary hasn't reset in time
+  async checkBackupAlert(): Promise<void> {
+    if (!this.settings) {
+      await this.loadSettings();
+    }
+
+    const pending = this.settings?.pendingBackupAlert;
+    if (!pending || pending.dueAt > Date.now()) {
+      this.scheduleBackupAlert();
+      return;
+    }
+
+    this.settings!.pendingBackupAlert = undefined;
+    await this.saveSettings(this.settings!);
+
+    if (this.settings!.notificationsEnabled && this.settings!.smsEnabled) {
+      const primaryName = this.settings!.caregivers.find(caregiver => caregiver.role === 'primary')?.name || 'The primary caregiver';
+      const backups = this.settings!.caregivers.filter(caregiver => caregiver.role === 'backup' && caregiver.alerts.includes(pending.level));
+      const message = `${primaryName} hasn't reset this alert after ${this.settings!.backupDelayMinutes} minutes:\n\n${pending.message}`;
+      console.log(`🚨 Alert not reset in ${this.settings!.backupDelayMinutes} min - telling ${backups.length} backup caregiver(s)`);
+      await this.textCaregivers(backups, () => message);
+    }
+  }
+
+  // Timers don't survive the app closing, so this is also called at start-up
+  scheduleBackupAlert(): void {
+    if (this.backupTimer) {
+      clearTimeout(this.backupTimer);
+      this.backupTimer = null;
+    }
+
+    const pending = this.settings?.pendingBackupAlert;
+    if (pending) {
+      this.backupTimer = setTimeout(() => {
+        this.backupTimer = null;
+        this.checkBackupAlert();
+      }, Math.max(0, pending.dueAt - Date.now()));
+    }
+  }
+
+  // Each caregiver is told their role and which alerts they'll get
+  async sendTestAlert(): Promise<number> {
+    const settings = await this.loadSettings();
+    return this.textCaregivers(settings.caregivers, caregiver => {
+      const alerts = caregiver.alerts.map(alert => CAREGIVER_ALERT_LABELS[alert]).join(', ') || 'no alerts';
+      return `My Care Phone: Test alert for ${caregiver.name} (${caregiver.role} caregiver). You will get: ${alerts}.`;
+    });
+  }
 
   // Call this method whenever a communication is blocked
   async onCommunicationBlocked(): Promise<void> {
     // Delay alert check to avoid spam
-    setTimeout(() => {
-      this.checkAndSendAlerts();
+    setTimeout(async () => {
+      await this.checkAndSendAlerts();
+      this.syncToCloud();
     }, 1000);
   }
 
+  // Scam alerts go out straight away - they don't wait for the blocked-count thresholds
+  async notifySuspiciousMessage(message: Message, risk: MessageRisk): Promise<void> {
+    if (!this.settings) {
+      await this.loadSettings();
+    }
+
+    if (!this.settings?.notificationsEnabled || !this.settings.smsEnabled) {
+      return;
+    }
+
+    const handling = risk.level === 'high' ? 'hidden from the user' : 'shown with a warning';
+    const preview = message.text.length > 60 ? message.text.substring(0, 60) + '...' : message.text;
+    const alertMessage = `My Care Phone Alert: Possible scam text from ${message.phoneNumber} (${handling}).\n\nWhy: ${risk.reasons.join(', ')}\n\n"${preview}"`;
+
+    await this.sendSMSAlert('scam', alertMessage);
+  }
+
+  // The text itself isn't included - it holds the private details we kept from going out
+  async notifyHeldMessage(recipientName: string, reasons: string[]): Promise<void> {
+    if (!this.settings) {
+      await this.loadSettings();
+    }
+
+    if (!this.settings?.notificationsEnabled || !this.settings.smsEnabled) {
+      return;
+    }
+
+    const alertMessage = `My Care Phone Alert: A text to ${recipientName} was held for your review.\n\nWhy: ${reasons.join(', ')}\n\nOpen Blocked Communications in settings to send or delete it.`;
+
+    await this.sendSMSAlert('held', alertMessage);
+  }
+
+  // Someone keeps trying PINs on the settings screen
+  async notifyPinFailures(failedAttempts: number, source: PinSource): Promise<void> {
+    if (!this.settings) {
+      await this.loadSettings();
+    }
+
+    if (!this.settings?.notificationsEnabled || !this.settings.smsEnabled) {
+      return;
+    }
+
+    const alertMessage = source === 'sms'
+      ? `My Care Phone Alert: ${failedAttempts} texted commands in a row had the wrong settings PIN (${new Date().toLocaleString()}). Text commands are locked for a while after each wrong try.`
+      : `My Care Phone Alert: The settings PIN was entered wrong ${failedAttempts} times in a row (${new Date().toLocaleString()}). Settings are locked for a while after each wrong try.`;
+
+    await this.sendSMSAlert('security', alertMessage);
+  }
+
+  // Sent even when alerts are turned off - it's the only way back in without reinstalling.
+  // Goes to the primary caregiver (or the first backup). Returns the number the code went
+  // to, or null if it couldn't be sent.
+  async sendPinRecoveryCode(code: string, validMinutes: number): Promise<string | null> {
+    await this.loadSettings();
+    const caregiver = this.getPrimaryCaregiver();
+    if (!caregiver) {
+      return null;
+    }
+
+    await TwilioService.loadConfig();
+    if (!TwilioService.isConfigured()) {
+      return null;
+    }
+
+    try {
+      await TwilioService.sendPrivateSMS(
+        caregiver.phoneNumber,
+        `My Care Phone: Your settings PIN reset code is ${code}. It expires in ${validMinutes} minutes. If you didn't ask for this, someone may be trying to get into settings.`
+      );
+      return caregiver.phoneNumber;
+    } catch (error) {
+      console.error('Failed to send PIN recovery code:', error);
+      return null;
+    }
+  }
+
   // Emergency call to caregiver using Twilio Voice
   async emergencyCallCaregiver(reason: string): Promise<void> {
     try {
-      if (!this.settings?.phoneNumber) {
+      await this.loadSettings();
+      const caregiver = this.getPrimaryCaregiver();
+      if (!caregiver) {
         return;
       }
 
@@ -340,41 +603,19 @@ class CaregiverNotificationService {
 
       // This would require TwiML webhooks to play a message
       // For now, we'll just make a regular call
-      await TwilioService.makeCall(this.settings.phoneNumber);
+      await TwilioService.makeCall(caregiver.phoneNumber);
     } catch (error) {
       console.error('Failed to make emergency call:', error);
     }
   }
 
-  // Remote data sync options (no backend needed)
+  // Bring the caregiver dashboard up to date with blocked communications, alert state and
+  // limits, and pick up the changes made there. Waits for signal if the phone is offline.
   async syncToCloud(): Promise<void> {
-    // This could integrate with:
-    // - iCloud (iOS) or Google Drive (Android) for file sync
-    // - Firebase Firestore for real-time sync
-    // - Send data via SMS as backup option
-    
-    try {
-      const frequencyTracker = FrequencyTracker.getInstance();
-      await frequencyTracker.loadRecords();
-      
-      const blockedMessages = frequencyTracker.getBlockedMessages();
-      const blockedCalls = frequencyTracker.getBlockedCalls();
-      
-      const syncData = {
-        timestamp: Date.now(),
-        blockedMessages,
-        blockedCalls,
-        totalCount: blockedMessages.length + blockedCalls.length,
-      };
-
-      // For now, just export the data for caregiver review
-      
-      // Future implementation could save to device storage or send via other means
-    } catch (error) {
-      console.error('Failed to sync data to cloud:', error);
-    }
+    await CloudSyncService.sync();
   }
 }
 
 export default CaregiverNotificationService;
-export type { CaregiverSettings };
\ No newline at end of file
+export { CAREGIVER_ALERT_LABELS, DEFAULT_ALERTS };
+export type { CaregiverSettings, Caregiver, CaregiverRole, CaregiverAlert };
\ No newline at end of file
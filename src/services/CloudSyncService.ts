@@ -0,0 +1,333 @@
+import * as Crypto from 'expo-crypto';
+import NetInfo from '@react-native-community/netinfo';
+import SecureStorage from './SecureStorage';
+import TwilioService from './TwilioService';
+import ServerClient, { SyncEntity, SyncChange, RemoteSettingChange, RemoteChangeResult } from './ServerClient';
+import FrequencyTracker from './FrequencyTracker';
+import CaregiverNotificationService from './CaregiverNotificationService';
+import CaregiverCommandService from './CaregiverCommandService';
+import { Contact } from '../types/Contact';
+
+const DEVICE_ID_KEY = 'sync_device_id';
+const STATE_KEY = 'sync_state';
+
+const SYNC_INTERVAL = 15 * 60 * 1000;
+const RETRY_BASE_DELAY = 30 * 1000; // First retry after 30 seconds, doubling each time
+const RETRY_MAX_DELAY = 30 * 60 * 1000;
+const MAX_CHANGES_PER_REQUEST = 200; // The server turns away bigger batches
+const MAX_ROUNDS = 5; // Per sync - enough to drain a long offline spell and confirm dashboard edits
+const BLOCKED_DAYS = 30; // Older blocked communications drop off the dashboard
+
+interface SyncState {
+  nextSeq: number;
+  outbox: SyncChange[]; // Changes the server hasn't confirmed yet, oldest first
+  uploaded: Record<string, { version: number; fingerprint: string }>; // What the server has (or will have) per record
+  remoteCursor: number; // Highest dashboard change we've dealt with
+  remoteResults: RemoteChangeResult[]; // Outcomes still to report to the server
+  // Which copy on the server `uploaded` describes. null until the first reply to a new
+  // state; missing in states saved before the server had epochs.
+  serverEpoch?: string | null;
+  failures: number;
+  nextAttemptAt: number;
+}
+
+// Keeps the webhook server's copy of the phone's blocked communications, alert state and
+// contact limits up to date for the caregiver dashboard, and brings back the changes the
+// caregiver makes there. Changes are found by comparing with what was last uploaded, so
+// nothing is missed while the phone is offline - they wait in the outbox until the server
+// confirms them.
+class CloudSyncService {
+  private state: SyncState | null = null;
+  private deviceId: string | null = null;
+  private isSyncing = false;
+  private syncTimer: NodeJS.Timeout | null = null;
+  private retryTimer: NodeJS.Timeout | null = null;
+  private netInfoUnsubscribe: (() => void) | null = null;
+
+  startSyncing(): void {
+    if (this.syncTimer) return;
+
+    this.syncTimer = setInterval(() => this.sync(), SYNC_INTERVAL);
+    // Don't wait out the backoff once the phone has signal again
+    this.netInfoUnsubscribe = NetInfo.addEventListener(state => {
+      if (state.isConnected && state.isInternetReachable !== false && (this.state?.failures ?? 0) > 0) {
+        this.sync(true);
+      }
+    });
+    this.sync();
+  }
+
+  stopSyncing(): void {
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer);
+      this.syncTimer = null;
+    }
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (this.netInfoUnsubscribe) {
+      this.netInfoUnsubscribe();
+      this.netInfoUnsubscribe = null;
+    }
+  }
+
+  // `ignoreBackoff` is for when we know the connection is back
+  async sync(ignoreBackoff: boolean = false): Promise<void> {
+    const config = TwilioService.getConfig();
+    if (!config || !ServerClient.isConfigured(config) || this.isSyncing) {
+      return;
+    }
+
+    this.isSyncing = true;
+    try {
+      const deviceId = await this.getDeviceId();
+      const state = await this.loadState();
+      if (!ignoreBackoff && state.nextAttemptAt > Date.now()) {
+        return;
+      }
+
+      for (let round = 0; round < MAX_ROUNDS; round++) {
+        await this.captureChanges(state);
+        await this.saveState();
+
+        const response = await ServerClient.sync(config, {
+          deviceId,
+          changes: state.outbox.slice(0, MAX_CHANGES_PER_REQUEST),
+          cursor: state.remoteCursor,
+          results: state.remoteResults,
+        });
+
+        state.outbox = state.outbox.filter(change => change.seq > response.ackedSeq);
+        state.remoteResults = [];
+        const serverStartedOver = this.checkServerEpoch(state, response.epoch);
+        await this.applyRemoteChanges(state, response.remoteChanges);
+        await this.saveState();
+
+        // Go round again to upload the rest, or what the dashboard's edits just changed
+        if (!serverStartedOver && state.outbox.length === 0 && response.remoteChanges.length === 0) break;
+      }
+
+      state.failures = 0;
+      state.nextAttemptAt = 0;
+      await this.saveState();
+      console.log('🔄 Synced with caregiver dashboard');
+    } catch (error) {
+      await this.recordFailure(error);
+    } finally {
+      this.isSyncing = false;
+    }
+  }
+
+  // Anything unconfirmed stays in the outbox for the next attempt
+  private async recordFailure(error: unknown): Promise<void> {
+    const state = await this.loadState();
+    console.error(`Sync failed (attempt ${state.failures + 1}):`, error);
+
+    state.nextAttemptAt = Date.now() + Math.min(RETRY_BASE_DELAY * Math.pow(2, state.failures), RETRY_MAX_DELAY);
+    state.failures += 1;
+    await this.saveState();
+
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+    }
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.sync();
+    }, state.nextAttemptAt - Date.now());
+  }
+
+  // The server starts its copy over for a new device or when its store is lost. What we
+  // remember uploading is gone then, so forget it and upload everything on the next round.
+  private checkServerEpoch(state: SyncState, epoch: string | null): boolean {
+    if (!epoch || epoch === state.serverEpoch) return false;
+
+    const startedOver = state.serverEpoch !== null;
+    if (startedOver) {
+      console.log('🔄 Server started its copy over - uploading everything again');
+      state.uploaded = {};
+      state.outbox = [];
+    }
+    state.serverEpoch = epoch;
+    return startedOver;
+  }
+
+  // Queue an upsert for every record that differs from what was uploaded, and a delete for
+  // every record that has gone. Only the latest change to each record is kept.
+  private async captureChanges(state: SyncState): Promise<void> {
+    const records = await this.collectRecords();
+    const changes: Omit<SyncChange, 'seq'>[] = [];
+
+    for (const [key, data] of Object.entries(records)) {
+      const fingerprint = JSON.stringify(data);
+      const uploaded = state.uploaded[key];
+      if (uploaded?.fingerprint === fingerprint) continue;
+
+      const [entity, id] = this.splitKey(key);
+      changes.push({ entity, id, op: 'upsert', version: (uploaded?.version ?? 0) + 1, data });
+    }
+
+    for (const [key, uploaded] of Object.entries(state.uploaded)) {
+      if (key in records) continue;
+      const [entity, id] = this.splitKey(key);
+      changes.push({ entity, id, op: 'delete', version: uploaded.version + 1 });
+    }
+
+    for (const change of changes) {
+      const key = `${change.entity}:${change.id}`;
+      state.outbox = state.outbox.filter(queued => `${queued.entity}:${queued.id}` !== key);
+      state.outbox.push({ ...change, seq: state.nextSeq++ });
+
+      if (change.op === 'delete') {
+        delete state.uploaded[key];
+      } else {
+        state.uploaded[key] = { version: change.version, fingerprint: JSON.stringify(change.data) };
+      }
+    }
+
+    if (changes.length > 0) {
+      console.log(`🔄 ${changes.length} change(s) queued for the caregiver dashboard`);
+    }
+  }
+
+  // Everything the dashboard shows, keyed by '<entity>:<id>'. Message text and unknown
+  // callers' numbers stay on the phone.
+  private async collectRecords(): Promise<Record<string, object>> {
+    const records: Record<string, object> = {};
+
+    const frequencyTracker = FrequencyTracker.getInstance();
+    await frequencyTracker.loadRecords();
+    const since = Date.now() - BLOCKED_DAYS * 24 * 60 * 60 * 1000;
+
+    frequencyTracker.getBlockedMessages()
+      .filter(blocked => blocked.timestamp > since)
+      .forEach(blocked => {
+        records[`blocked-message:${blocked.id}`] = { kind: 'text', contactId: blocked.contactId, timestamp: blocked.timestamp };
+      });
+    frequencyTracker.getBlockedCalls()
+      .filter(blocked => blocked.timestamp > since)
+      .forEach(blocked => {
+        records[`blocked-call:${blocked.id}`] = {
+          kind: 'call',
+          contactId: blocked.contactId,
+          timestamp: blocked.timestamp,
+          hasVoicemail: !!blocked.voicemailRecordingUrl,
+        };
+      });
+    frequencyTracker.getBlockedIncomingCalls()
+      .filter(blocked => blocked.timestamp > since)
+      .forEach(blocked => {
+        records[`blocked-call:incoming-${blocked.id}`] = {
+          kind: 'call',
+          contactId: blocked.contactId || null,
+          timestamp: blocked.timestamp,
+          hasVoicemail: !!blocked.voicemailRecordingUrl,
+        };
+      });
+
+    const caregiverSettings = await CaregiverNotificationService.getInstance().loadSettings();
+    records['alert-state:current'] = {
+      alertStatus: caregiverSettings.alertStatus,
+      alertThreshold: caregiverSettings.alertThreshold,
+      secondLevelThreshold: caregiverSettings.secondLevelEnabled ? caregiverSettings.secondLevelThreshold : null,
+      primaryAlertSentAt: caregiverSettings.primaryAlertSentAt ?? null,
+      escalationAlertSentAt: caregiverSettings.escalationAlertSentAt ?? null,
+      lastResetTimestamp: caregiverSettings.lastResetTimestamp ?? null,
+    };
+
+    for (const contact of await this.loadContacts()) {
+      records[`contact-settings:${contact.id}`] = {
+        name: contact.name,
+        frequencySettings: contact.frequencySettings ?? null,
+      };
+    }
+
+    return records;
+  }
+
+  // Alert resets always apply. A limits change only applies if the contact's limits haven't
+  // changed on the phone since the version the caregiver was looking at - otherwise the
+  // phone's newer limits stay and the dashboard asks the caregiver to look again.
+  private async applyRemoteChanges(state: SyncState, changes: RemoteSettingChange[]): Promise<void> {
+    for (const change of [...changes].sort((a, b) => a.seq - b.seq)) {
+      if (change.seq <= state.remoteCursor) continue; // Already dealt with before a lost response
+
+      let result: RemoteChangeResult;
+      if (change.type === 'reset-alerts') {
+        await CaregiverCommandService.applyRemoteChange(change);
+        result = { seq: change.seq, status: 'applied' };
+      } else {
+        // Pick up edits made on the phone since the last round before comparing versions
+        await this.captureChanges(state);
+        const uploaded = state.uploaded[`contact-settings:${change.contactId}`];
+        if (!uploaded) {
+          result = { seq: change.seq, status: 'rejected', reason: 'contact-removed' };
+        } else if (uploaded.version !== change.baseVersion) {
+          result = { seq: change.seq, status: 'rejected', reason: 'conflict' };
+        } else {
+          await CaregiverCommandService.applyRemoteChange(change);
+          result = { seq: change.seq, status: 'applied' };
+        }
+      }
+
+      console.log(`📊 Dashboard change ${change.seq} ${result.status}${result.reason ? ` (${result.reason})` : ''}`);
+      state.remoteResults.push(result);
+      state.remoteCursor = change.seq;
+      await this.saveState();
+    }
+  }
+
+  private splitKey(key: string): [SyncEntity, string] {
+    const separator = key.indexOf(':');
+    return [key.slice(0, separator) as SyncEntity, key.slice(separator + 1)];
+  }
+
+  private async loadContacts(): Promise<Contact[]> {
+    const contactsString = await SecureStorage.getItem('selected_contacts');
+    return contactsString ? JSON.parse(contactsString) : [];
+  }
+
+  // Identifies this install to the server, which starts a fresh copy when it changes
+  private async getDeviceId(): Promise<string> {
+    if (!this.deviceId) {
+      this.deviceId = await SecureStorage.getItem(DEVICE_ID_KEY);
+      if (!this.deviceId) {
+        this.deviceId = Crypto.randomUUID();
+        await SecureStorage.setItem(DEVICE_ID_KEY, this.deviceId);
+        // A new id means the server has nothing from us yet
+        this.state = this.getDefaultState();
+        await this.saveState();
+      }
+    }
+    return this.deviceId;
+  }
+
+  private async loadState(): Promise<SyncState> {
+    if (!this.state) {
+      const stateString = await SecureStorage.getItem(STATE_KEY);
+      this.state = stateString ? JSON.parse(stateString) : this.getDefaultState();
+    }
+    return this.state!;
+  }
+
+  private async saveState(): Promise<void> {
+    if (this.state) {
+      await SecureStorage.setItem(STATE_KEY, JSON.stringify(this.state));
+    }
+  }
+
+  private getDefaultState(): SyncState {
+    return {
+      nextSeq: 1,
+      outbox: [],
+      uploaded: {},
+      remoteCursor: 0,
+      remoteResults: [],
+      serverEpoch: null,
+      failures: 0,
+      nextAttemptAt: 0,
+    };
+  }
+}
+
+export default new CloudSyncService();
@@ -0,0 +1,123 @@
+import SecureStorage from './SecureStorage';
+import MessageService from './MessageService';
+import QuarantineService from './QuarantineService';
+import { normalizePhoneNumber, normalizeStoredNumber } from './PhoneNumbers';
+import { Contact } from '../types/Contact';
+
+// contactId used for messages and calls from numbers that aren't selected contacts
+const UNKNOWN_CONTACT_ID = 'unknown';
+
+// Maps phone numbers to selected contacts. Numbers a contact used to have stay linked to
+// them, so renumbering someone doesn't split their history in two.
+class ContactResolver {
+  private static readonly INDEX_KEY = 'contact_number_index';
+  private contacts: Contact[] = [];
+  private numberIndex: Record<string, string> = {}; // Normalized number -> contact id
+
+  async load(): Promise<void> {
+    try {
+      const contactsString = await SecureStorage.getItem('selected_contacts');
+      const indexString = await SecureStorage.getItem(ContactResolver.INDEX_KEY);
+      this.contacts = contactsString ? JSON.parse(contactsString) : [];
+      this.numberIndex = indexString ? JSON.parse(indexString) : {};
+      await this.indexContacts();
+    } catch (error) {
+      console.error('Failed to load contacts for resolver:', error);
+    }
+  }
+
+  // Remember every number each contact has had. A number that moves to another contact
+  // belongs to them from now on.
+  private async indexContacts(): Promise<void> {
+    let changed = false;
+    for (const [number, contactId] of Object.entries(this.numberIndex)) {
+      const key = normalizeStoredNumber(number);
+      if (key !== number) {
+        delete this.numberIndex[number];
+        this.numberIndex[key] = this.numberIndex[key] || contactId;
+        changed = true;
+      }
+    }
+    for (const contact of this.contacts) {
+      for (const number of this.getContactNumbers(contact)) {
+        if (this.numberIndex[number] !== contact.id) {
+          this.numberIndex[number] = contact.id;
+          changed = true;
+        }
+      }
+    }
+
+    if (changed) {
+      await SecureStorage.setItem(ContactResolver.INDEX_KEY, JSON.stringify(this.numberIndex));
+    }
+  }
+
+  // Texts and calls from any of these land in the same conversation
+  getContactNumbers(contact: Contact): string[] {
+    const numbers = [
+      contact.phoneNumber,
+      contact.callNumber,
+      ...(contact.phoneNumbers || []).map(entry => entry.number),
+    ];
+    return Array.from(new Set(
+      numbers.filter((number): number is string => !!number).map(normalizePhoneNumber)
+    ));
+  }
+
+  getTextNumber(contact: Contact): string {
+    return contact.phoneNumber;
+  }
+
+  getCallNumber(contact: Contact): string {
+    return contact.callNumber || contact.phoneNumber;
+  }
+
+  // Only current numbers count - a number someone gave up may belong to a stranger now
+  resolve(phoneNumber: string): Contact | undefined {
+    const normalized = normalizePhoneNumber(phoneNumber);
+    return this.contacts.find(contact => this.getContactNumbers(contact).includes(normalized));
+  }
+
+  resolveContactId(phoneNumber: string): string {
+    return this.resolve(phoneNumber)?.id || UNKNOWN_CONTACT_ID;
+  }
+
+  // Who a number belongs to now, or who it belonged to last - for filing old history
+  findOwner(phoneNumber: string): Contact | undefined {
+    const current = this.resolve(phoneNumber);
+    if (current) return current;
+
+    const contactId = this.numberIndex[normalizePhoneNumber(phoneNumber)];
+    return contactId ? this.contacts.find(contact => contact.id === contactId) : undefined;
+  }
+
+  // Current numbers first, then any the contact used before
+  getNumbersForContact(contact: Contact): string[] {
+    const numbers = this.getContactNumbers(contact);
+    for (const [number, contactId] of Object.entries(this.numberIndex)) {
+      if (contactId === contact.id && !numbers.includes(number)) {
+        numbers.push(number);
+      }
+    }
+    return numbers;
+  }
+
+  // Call at startup and after the selected contacts or the default country change, so
+  // existing conversations get their contact and the current number format
+  async refresh(): Promise<void> {
+    await this.load();
+    await MessageService.loadConversations();
+    const rekeyed = await MessageService.rekeyConversations();
+    if (rekeyed > 0) {
+      console.log(`📇 Re-keyed ${rekeyed} stored phone numbers`);
+    }
+    await QuarantineService.rekeyNumbers();
+    const updated = await MessageService.backfillContacts(phoneNumber => this.findOwner(phoneNumber)?.id);
+    if (updated > 0) {
+      console.log(`📇 Linked ${updated} conversations to their contacts`);
+    }
+  }
+}
+
+export default new ContactResolver();
+export { UNKNOWN_CONTACT_ID };
@@ -0,0 +1,97 @@
+import SecureStorage from './SecureStorage';
+
+type SensitiveCategory = 'cardNumbers' | 'ssn' | 'bankAccounts' | 'passwords';
+
+interface ContentPolicy {
+  enabled: boolean;
+  categories: Record<SensitiveCategory, boolean>;
+  keywords: string[]; // Caregiver-defined words or phrases, matched case-insensitively
+}
+
+const CATEGORY_LABELS: Record<SensitiveCategory, string> = {
+  cardNumbers: 'Card number',
+  ssn: 'Social Security number',
+  bankAccounts: 'Bank account number',
+  passwords: 'Password or PIN',
+};
+
+// Luhn check so phone numbers and dates aren't mistaken for card numbers
+function isCardNumber(digits: string): boolean {
+  if (digits.length < 13 || digits.length > 19) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+const DETECTORS: Record<SensitiveCategory, (text: string) => boolean> = {
+  cardNumbers: text =>
+    (text.match(/\d[\d -]{11,22}\d/g) || []).some(match => isCardNumber(match.replace(/\D/g, ''))),
+  ssn: text =>
+    /\b\d{3}-\d{2}-\d{4}\b/.test(text) || /(social security|\bssn\b)\D{0,20}\d{3}\D?\d{2}\D?\d{4}/i.test(text),
+  bankAccounts: text => /(account|acct|routing)\s*(number|no\.?|#)?\D{0,10}\d{6,17}/i.test(text),
+  passwords: text => /\b(password|passcode|pin)\b\s*(is|:|=)\s*\S+/i.test(text),
+};
+
+// What the user may not text without the caregiver looking first
+class ContentPolicyService {
+  private static readonly STORAGE_KEY = 'content_policy';
+  private policy: ContentPolicy = this.getDefaultPolicy();
+
+  getDefaultPolicy(): ContentPolicy {
+    return {
+      enabled: true,
+      categories: { cardNumbers: true, ssn: true, bankAccounts: true, passwords: true },
+      keywords: [],
+    };
+  }
+
+  async loadPolicy(): Promise<ContentPolicy> {
+    try {
+      const stored = await SecureStorage.getItem(ContentPolicyService.STORAGE_KEY);
+      const defaults = this.getDefaultPolicy();
+      this.policy = stored ? { ...defaults, ...JSON.parse(stored) } : defaults;
+    } catch (error) {
+      console.error('Failed to load content policy:', error);
+    }
+    return this.policy;
+  }
+
+  async savePolicy(policy: ContentPolicy): Promise<void> {
+    try {
+      await SecureStorage.setItem(ContentPolicyService.STORAGE_KEY, JSON.stringify(policy));
+      this.policy = policy;
+    } catch (error) {
+      console.error('Failed to save content policy:', error);
+    }
+  }
+
+  // Returns why the text should be held, or an empty list if it can be sent
+  checkMessage(text: string): string[] {
+    if (!this.policy.enabled) return [];
+
+    const reasons = (Object.keys(DETECTORS) as SensitiveCategory[])
+      .filter(category => this.policy.categories[category] && DETECTORS[category](text))
+      .map(category => CATEGORY_LABELS[category]);
+
+    const lowerText = text.toLowerCase();
+    for (const keyword of this.policy.keywords) {
+      if (keyword && lowerText.includes(keyword.toLowerCase())) {
+        reasons.push(`Keyword "${keyword}"`);
+      }
+    }
+
+    return reasons;
+  }
+}
+
+export default new ContentPolicyService();
+export { CATEGORY_LABELS };
+export type { ContentPolicy, SensitiveCategory };
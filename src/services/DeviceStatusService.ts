@@ -0,0 +1,89 @@
+import * as Battery from 'expo-battery';
+import * as Device from 'expo-device';
+import Constants from 'expo-constants';
+import NetInfo from '@react-native-community/netinfo';
+import TwilioService from './TwilioService';
+import ServerClient, { DeviceStatus } from './ServerClient';
+import MessageService from './MessageService';
+import FrequencyTracker from './FrequencyTracker';
+import QuarantineService from './QuarantineService';
+import CaregiverNotificationService from './CaregiverNotificationService';
+
+const REPORT_INTERVAL = 15 * 60 * 1000;
+
+// Checks in with the webhook server so the caregiver dashboard can show how the phone is
+// doing. Limits and the caregiver's changes to them go through CloudSyncService.
+class DeviceStatusService {
+  private reportTimer: NodeJS.Timeout | null = null;
+  private isReporting = false;
+
+  startReporting(): void {
+    if (this.reportTimer) return;
+    this.reportTimer = setInterval(() => this.report(), REPORT_INTERVAL);
+    this.report();
+  }
+
+  stopReporting(): void {
+    if (this.reportTimer) {
+      clearInterval(this.reportTimer);
+      this.reportTimer = null;
+    }
+  }
+
+  async report(): Promise<void> {
+    const config = TwilioService.getConfig();
+    if (!config || !ServerClient.isConfigured(config) || this.isReporting) {
+      return;
+    }
+
+    this.isReporting = true;
+    try {
+      await ServerClient.reportDeviceStatus(config, await this.collectStatus());
+      console.log('📊 Device status reported');
+    } catch (error) {
+      console.error('Failed to report device status:', error);
+    } finally {
+      this.isReporting = false;
+    }
+  }
+
+  private async collectStatus(): Promise<DeviceStatus> {
+    const caregiverNotifications = CaregiverNotificationService.getInstance();
+    const stats = await caregiverNotifications.getCurrentViolationStats();
+    const caregiverSettings = await caregiverNotifications.loadSettings();
+    const frequencyTracker = FrequencyTracker.getInstance();
+    await QuarantineService.load();
+
+    return {
+      appVersion: Constants.expoConfig?.version ?? null,
+      deviceModel: Device.modelName,
+      osVersion: Device.osName ? `${Device.osName} ${Device.osVersion ?? ''}`.trim() : null,
+      ...(await this.getBattery()),
+      online: (await NetInfo.fetch()).isConnected === true,
+      pushEnabled: TwilioService.isPushAvailable(),
+      outboxCount: (await MessageService.getOutbox()).length,
+      blockedToday: stats.todayBlocked,
+      blockedTotal: stats.totalBlocked,
+      alertStatus: caregiverSettings.alertStatus,
+      heldMessages: frequencyTracker.getHeldMessages().length,
+      quarantinedMessages: QuarantineService.getMessageCount(),
+      reportedAt: Date.now(),
+    };
+  }
+
+  private async getBattery(): Promise<Pick<DeviceStatus, 'batteryLevel' | 'charging'>> {
+    try {
+      const level = await Battery.getBatteryLevelAsync();
+      const state = await Battery.getBatteryStateAsync();
+      return {
+        batteryLevel: level >= 0 ? level : null, // -1 when the platform can't tell
+        charging: state === Battery.BatteryState.UNKNOWN ? null
+          : state === Battery.BatteryState.CHARGING || state === Battery.BatteryState.FULL,
+      };
+    } catch (error) {
+      return { batteryLevel: null, charging: null };
+    }
+  }
+}
+
+export default new DeviceStatusService();
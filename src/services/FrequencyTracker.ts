@@ -1,4 +1,4 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import SecureStorage from './SecureStorage';
 import { Contact, ContactFrequencySettings } from '../types/Contact';
 
 interface FrequencyRecord {
@@ -19,6 +19,21 @@ interface BlockedCall {
   contactId: string;
   timestamp: number;
   voicemailRecordingUrl?: string;
+  voicemailDuration?: number; // Seconds
+  callSid?: string; // Set when the user was put through to voicemail
+}
+
+// A call to the user's Twilio number that the webhook server didn't put through
+interface BlockedIncomingCall extends BlockedCall {
+  phoneNumber: string;
+  reason: 'unknown-caller' | 'frequency-limit' | 'quiet-hours' | 'not-configured' | null;
+  wentToVoicemail: boolean;
+}
+
+// A text the user wrote that the content policy kept back for the caregiver to review
+interface HeldMessage extends BlockedMessage {
+  phoneNumber: string;
+  reasons: string[];
 }
 
 class FrequencyTracker {
@@ -26,6 +41,8 @@ class FrequencyTracker {
   private records: FrequencyRecord[] = [];
   private blockedMessages: BlockedMessage[] = [];
   private blockedCalls: BlockedCall[] = [];
+  private blockedIncomingCalls: BlockedIncomingCall[] = [];
+  private heldMessages: HeldMessage[] = [];
 
   static getInstance(): FrequencyTracker {
     if (!FrequencyTracker.instance) {
@@ -36,13 +53,17 @@ class FrequencyTracker {
 
   async loadRecords(): Promise<void> {
     try {
-      const recordsJson = await AsyncStorage.getItem('frequency_records');
-      const blockedJson = await AsyncStorage.getItem('blocked_messages');
-      const blockedCallsJson = await AsyncStorage.getItem('blocked_calls');
+      const recordsJson = await SecureStorage.getItem('frequency_records');
+      const blockedJson = await SecureStorage.getItem('blocked_messages');
+      const blockedCallsJson = await SecureStorage.getItem('blocked_calls');
+      const blockedIncomingJson = await SecureStorage.getItem('blocked_incoming_calls');
+      const heldJson = await SecureStorage.getItem('held_messages');
       
       this.records = recordsJson ? JSON.parse(recordsJson) : [];
       this.blockedMessages = blockedJson ? JSON.parse(blockedJson) : [];
       this.blockedCalls = blockedCallsJson ? JSON.parse(blockedCallsJson) : [];
+      this.blockedIncomingCalls = blockedIncomingJson ? JSON.parse(blockedIncomingJson) : [];
+      this.heldMessages = heldJson ? JSON.parse(heldJson) : [];
       
       this.cleanupOldRecords();
     } catch (error) {
@@ -60,9 +81,11 @@ class FrequencyTracker {
 
   private async saveRecords(): Promise<void> {
     try {
-      await AsyncStorage.setItem('frequency_records', JSON.stringify(this.records));
-      await AsyncStorage.setItem('blocked_messages', JSON.stringify(this.blockedMessages));
-      await AsyncStorage.setItem('blocked_calls', JSON.stringify(this.blockedCalls));
+      await SecureStorage.setItem('frequency_records', JSON.stringify(this.records));
+      await SecureStorage.setItem('blocked_messages', JSON.stringify(this.blockedMessages));
+      await SecureStorage.setItem('blocked_calls', JSON.stringify(this.blockedCalls));
+      await SecureStorage.setItem('blocked_incoming_calls', JSON.stringify(this.blockedIncomingCalls));
+      await SecureStorage.setItem('held_messages', JSON.stringify(this.heldMessages));
     } catch (error) {
       console.error('Error saving frequency records:', error);
     }
@@ -91,7 +114,28 @@ class FrequencyTracker {
     await this.saveRecords();
   }
 
-  async storeBlockedCall(contactId: string, voicemailRecordingUrl?: string): Promise<void> {
+  // Held messages don't count towards caregiver alerts - the caregiver is told about each one
+  async storeHeldMessage(contactId: string, phoneNumber: string, message: string, reasons: string[]): Promise<HeldMessage> {
+    const heldMessage: HeldMessage = {
+      id: `held-${Date.now()}`,
+      contactId,
+      phoneNumber,
+      message,
+      reasons,
+      timestamp: Date.now()
+    };
+
+    this.heldMessages.push(heldMessage);
+    await this.saveRecords();
+    return heldMessage;
+  }
+
+  async removeHeldMessage(id: string): Promise<void> {
+    this.heldMessages = this.heldMessages.filter(message => message.id !== id);
+    await this.saveRecords();
+  }
+
+  async storeBlockedCall(contactId: string, voicemailRecordingUrl?: string): Promise<BlockedCall> {
     const blockedCall: BlockedCall = {
       id: Date.now().toString(),
       contactId,
@@ -101,6 +145,39 @@ class FrequencyTracker {
     
     this.blockedCalls.push(blockedCall);
     await this.saveRecords();
+    return blockedCall;
+  }
+
+  // Remember which voicemail call belongs to a blocked call so the recording can be matched later
+  async setBlockedCallSid(blockedCallId: string, callSid: string): Promise<void> {
+    const blockedCall = this.blockedCalls.find(call => call.id === blockedCallId);
+    if (blockedCall) {
+      blockedCall.callSid = callSid;
+      await this.saveRecords();
+    }
+  }
+
+  // Incoming calls don't count towards caregiver alerts - they weren't the user's doing
+  async storeBlockedIncomingCall(call: Omit<BlockedIncomingCall, 'id'>): Promise<boolean> {
+    if (this.blockedIncomingCalls.some(existing => existing.callSid === call.callSid)) {
+      return false;
+    }
+
+    this.blockedIncomingCalls.push({ ...call, id: `in-${call.callSid}` });
+    await this.saveRecords();
+    return true;
+  }
+
+  async attachVoicemail(callSid: string, recordingUrl: string, durationSeconds: number): Promise<boolean> {
+    const blockedCall = [...this.blockedCalls, ...this.blockedIncomingCalls].find(call => call.callSid === callSid);
+    if (!blockedCall || blockedCall.voicemailRecordingUrl === recordingUrl) {
+      return false;
+    }
+
+    blockedCall.voicemailRecordingUrl = recordingUrl;
+    blockedCall.voicemailDuration = durationSeconds;
+    await this.saveRecords();
+    return true;
   }
 
   getBlockedMessages(): BlockedMessage[] {
@@ -111,23 +188,36 @@ class FrequencyTracker {
     return this.blockedCalls;
   }
 
+  getBlockedIncomingCalls(): BlockedIncomingCall[] {
+    return this.blockedIncomingCalls;
+  }
+
+  getHeldMessages(): HeldMessage[] {
+    return this.heldMessages;
+  }
+
   async clearBlockedMessages(): Promise<void> {
     this.blockedMessages = [];
+    this.heldMessages = [];
     await this.saveRecords();
   }
 
   async clearBlockedCalls(): Promise<void> {
     this.blockedCalls = [];
+    this.blockedIncomingCalls = [];
     await this.saveRecords();
   }
 
   async clearAllBlocked(): Promise<void> {
     this.blockedMessages = [];
     this.blockedCalls = [];
+    this.blockedIncomingCalls = [];
+    this.heldMessages = [];
     await this.saveRecords();
   }
 
-  canCommunicate(contact: Contact, type: 'call' | 'text'): boolean {
+  // `queued` is texts already waiting in the outbox, which will count once they go out
+  canCommunicate(contact: Contact, type: 'call' | 'text', queued: number = 0): boolean {
     if (!contact.frequencySettings) {
       return true;
     }
@@ -160,8 +250,8 @@ class FrequencyTracker {
       record.timestamp > oneDayAgo
     ).length;
 
-    return hourlyCount < typeSettings.maxPerHour && 
-           dailyCount < typeSettings.maxPerDay;
+    return hourlyCount + queued < typeSettings.maxPerHour && 
+           dailyCount + queued < typeSettings.maxPerDay;
   }
 
   private isQuietHours(settings: ContactFrequencySettings): boolean {
@@ -239,4 +329,4 @@ class FrequencyTracker {
 }
 
 export default FrequencyTracker;
-export type { BlockedMessage, BlockedCall };
\ No newline at end of file
+export type { BlockedMessage, BlockedCall, BlockedIncomingCall, HeldMessage };
\ No newline at end of file
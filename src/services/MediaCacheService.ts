@@ -0,0 +1,62 @@
+import * as FileSystem from 'expo-file-system';
+import { MessageMedia } from '../types/Message';
+import { TelephonyProvider, RemoteMedia } from './telephony';
+import type { TwilioConfig } from './TwilioService';
+
+// Keeps downloaded MMS attachments (and voicemail recordings) on the device so they
+// still work when offline
+class MediaCacheService {
+  private static readonly CACHE_DIR = `${FileSystem.documentDirectory}message-media/`;
+
+  private getExtension(contentType: string): string {
+    switch (contentType) {
+      case 'image/jpeg': return 'jpg';
+      case 'image/png': return 'png';
+      case 'image/gif': return 'gif';
+      case 'image/heic': return 'heic';
+      case 'audio/mpeg': return 'mp3';
+      default: return 'bin';
+    }
+  }
+
+  private async ensureCacheDir(): Promise<void> {
+    const info = await FileSystem.getInfoAsync(MediaCacheService.CACHE_DIR);
+    if (!info.exists) {
+      await FileSystem.makeDirectoryAsync(MediaCacheService.CACHE_DIR, { intermediates: true });
+    }
+  }
+
+  // Download an attachment if we don't already have it. Failures are logged and the
+  // media is returned without a localUri so the message still shows a placeholder.
+  async cacheMedia(provider: TelephonyProvider, config: TwilioConfig, media: RemoteMedia): Promise<MessageMedia> {
+    const cached: MessageMedia = {
+      sid: media.sid,
+      contentType: media.contentType,
+      remoteUrl: media.url,
+    };
+
+    try {
+      await this.ensureCacheDir();
+      const destination = `${MediaCacheService.CACHE_DIR}${media.sid}.${this.getExtension(media.contentType)}`;
+
+      const existing = await FileSystem.getInfoAsync(destination);
+      cached.localUri = existing.exists
+        ? destination
+        : await provider.downloadMedia(config, media, destination);
+    } catch (error) {
+      console.error('Failed to cache message media:', error);
+    }
+
+    return cached;
+  }
+
+  async clearCache(): Promise<void> {
+    try {
+      await FileSystem.deleteAsync(MediaCacheService.CACHE_DIR, { idempotent: true });
+    } catch (error) {
+      console.error('Failed to clear media cache:', error);
+    }
+  }
+}
+
+export default new MediaCacheService();
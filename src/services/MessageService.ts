@@ -1,32 +1,30 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Message, Conversation } from '../types/Message';
-
-// Normalize phone number to E.164 format for consistent storage/lookup
-function normalizePhoneNumber(phoneNumber: string): string {
-  // Remove all non-digit characters
-  const digits = phoneNumber.replace(/\D/g, '');
-  
-  // If it starts with 1 and has 11 digits (US/Canada), format as +1XXXXXXXXXX
-  if (digits.length === 11 && digits.startsWith('1')) {
-    return `+${digits}`;
-  }
-  
-  // If it has 10 digits, assume US/Canada and add +1
-  if (digits.length === 10) {
-    return `+1${digits}`;
-  }
-  
-  // Otherwise, add + if not already present
-  return digits.startsWith('+') ? phoneNumber : `+${digits}`;
+import SecureStorage from './SecureStorage';
+import { Message, Conversation, MessageMedia, DeliveryStatus, MessageRisk } from '../types/Message';
+import MediaCacheService from './MediaCacheService';
+import { normalizePhoneNumber, normalizeStoredNumber } from './PhoneNumbers';
+
+// A text waiting to be handed to the carrier. The matching Message is already in the
+// conversation with status 'sending'.
+interface OutboxEntry {
+  messageId: string;
+  contactId: string;
+  phoneNumber: string;
+  text: string;
+  attempts: number;
+  nextAttemptAt: number;
+  createdAt: number;
 }
 
 class MessageService {
   private static readonly STORAGE_KEY = 'conversations';
+  private static readonly OUTBOX_KEY = 'message_outbox';
   private conversations: Map<string, Conversation> = new Map();
+  private outbox: OutboxEntry[] = [];
+  private outboxLoaded = false;
 
   async loadConversations(): Promise<void> {
     try {
-      const stored = await AsyncStorage.getItem(MessageService.STORAGE_KEY);
+      const stored = await SecureStorage.getItem(MessageService.STORAGE_KEY);
       if (stored) {
         const conversationsArray: Conversation[] = JSON.parse(stored);
         this.conversations.clear();
@@ -42,7 +40,7 @@ class MessageService {
   async saveConversations(): Promise<void> {
     try {
       const conversationsArray = Array.from(this.conversations.values());
-      await AsyncStorage.setItem(MessageService.STORAGE_KEY, JSON.stringify(conversationsArray));
+      await SecureStorage.setItem(MessageService.STORAGE_KEY, JSON.stringify(conversationsArray));
     } catch (error) {
       console.error('Failed to save conversations:', error);
     }
@@ -63,22 +61,19 @@ class MessageService {
     }
 
     // Check if message already exists to prevent duplicates
-    const messageExists = conversation.messages.some(msg => 
+    const existingMessage = conversation.messages.find(msg => 
       msg.text === text && 
       msg.type === type &&
       (customId ? msg.id === customId : Math.abs(msg.timestamp - (customTimestamp || Date.now())) < 5000)
     );
 
-    if (messageExists) {
+    if (existingMessage) {
       console.log('Message already exists, skipping duplicate');
-      return conversation.messages.find(msg => 
-        msg.text === text && 
-        msg.type === type
-      )!;
+      return existingMessage;
     }
 
     const message: Message = {
-      id: customId || (Date.now().toString() + Math.random().toString(36).substr(2, 9)),
+      id: customId || this.newMessageId(),
       contactId,
       phoneNumber: normalizedPhone,
       text,
@@ -105,6 +100,254 @@ class MessageService {
     return message;
   }
 
+  private newMessageId(): string {
+    return Date.now().toString() + Math.random().toString(36).substr(2, 9);
+  }
+
+  async attachMedia(phoneNumber: string, messageId: string, media: MessageMedia[]): Promise<void> {
+    const conversation = this.conversations.get(normalizePhoneNumber(phoneNumber));
+    const message = conversation?.messages.find(msg => msg.id === messageId);
+    if (message) {
+      message.media = media;
+      await this.saveConversations();
+    }
+  }
+
+  // High-risk texts are hidden from the user and no longer count as unread
+  async flagMessage(phoneNumber: string, messageId: string, risk: MessageRisk): Promise<void> {
+    const conversation = this.conversations.get(normalizePhoneNumber(phoneNumber));
+    const message = conversation?.messages.find(msg => msg.id === messageId);
+    if (!conversation || !message) return;
+
+    message.risk = risk;
+    if (risk.level === 'high' && message.isVisible !== false) {
+      message.isVisible = false;
+      conversation.unreadCount = Math.max(0, conversation.unreadCount - 1);
+    }
+    await this.saveConversations();
+  }
+
+  // Caregiver decided a flagged text is safe - show it normally
+  async clearMessageRisk(phoneNumber: string, messageId: string): Promise<void> {
+    const conversation = this.conversations.get(normalizePhoneNumber(phoneNumber));
+    const message = conversation?.messages.find(msg => msg.id === messageId);
+    if (!message) return;
+
+    message.risk = undefined;
+    message.isVisible = true;
+    await this.saveConversations();
+  }
+
+  getFlaggedMessages(): Message[] {
+    return this.getAllMessages()
+      .filter(msg => msg.type === 'received' && msg.risk)
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  async updateDeliveryStatus(
+    phoneNumber: string,
+    messageId: string,
+    update: { status: DeliveryStatus; providerSid?: string; errorCode?: number }
+  ): Promise<void> {
+    const conversation = this.conversations.get(normalizePhoneNumber(phoneNumber));
+    const message = conversation?.messages.find(msg => msg.id === messageId);
+    if (!message) return;
+
+    message.status = update.status;
+    message.statusUpdatedAt = Date.now();
+    if (update.providerSid) message.providerSid = update.providerSid;
+    if (update.errorCode !== undefined) message.errorCode = update.errorCode;
+    await this.saveConversations();
+  }
+
+  // Sent messages the carrier hasn't given a final answer on yet
+  getPendingDeliveries(maxAgeMs: number): Message[] {
+    const cutoff = Date.now() - maxAgeMs;
+    return this.getAllMessages().filter(msg =>
+      msg.type === 'sent' &&
+      msg.providerSid &&
+      (msg.status === 'queued' || msg.status === 'sent') &&
+      msg.timestamp > cutoff
+    );
+  }
+
+  // Includes hidden caregiver notifications so the caregiver knows if an alert didn't arrive
+  getUndeliveredMessages(): Message[] {
+    return this.getAllMessages()
+      .filter(msg => msg.type === 'sent' && (msg.status === 'undelivered' || msg.status === 'failed'))
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  private getAllMessages(): Message[] {
+    return Array.from(this.conversations.values()).flatMap(conv => conv.messages);
+  }
+
+  async loadOutbox(): Promise<void> {
+    try {
+      const stored = await SecureStorage.getItem(MessageService.OUTBOX_KEY);
+      this.outbox = stored ? JSON.parse(stored) : [];
+      this.outboxLoaded = true;
+    } catch (error) {
+      console.error('Failed to load outbox:', error);
+    }
+  }
+
+  private async saveOutbox(): Promise<void> {
+    try {
+      await SecureStorage.setItem(MessageService.OUTBOX_KEY, JSON.stringify(this.outbox));
+    } catch (error) {
+      console.error('Failed to save outbox:', error);
+    }
+  }
+
+  // Show the text in the conversation right away and keep it until it can be sent
+  async queueOutgoing(contactId: string, phoneNumber: string, text: string): Promise<Message> {
+    if (!this.outboxLoaded) {
+      await this.loadOutbox();
+    }
+
+    // Its own id, so sending the same words again is a new message rather than a duplicate
+    const message = await this.addMessage(contactId, phoneNumber, text, 'sent', undefined, this.newMessageId());
+    await this.updateDeliveryStatus(phoneNumber, message.id, { status: 'sending' });
+
+    this.outbox.push({
+      messageId: message.id,
+      contactId,
+      phoneNumber: message.phoneNumber,
+      text,
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      createdAt: Date.now(),
+    });
+    await this.saveOutbox();
+    return message;
+  }
+
+  async getOutbox(): Promise<OutboxEntry[]> {
+    if (!this.outboxLoaded) {
+      await this.loadOutbox();
+    }
+    return [...this.outbox];
+  }
+
+  // Texts to this contact that haven't gone out yet
+  async countQueued(contactId: string): Promise<number> {
+    return (await this.getOutbox()).filter(entry => entry.contactId === contactId).length;
+  }
+
+  async removeFromOutbox(messageId: string): Promise<void> {
+    this.outbox = this.outbox.filter(entry => entry.messageId !== messageId);
+    await this.saveOutbox();
+  }
+
+  async rescheduleOutboxEntry(messageId: string, nextAttemptAt: number): Promise<void> {
+    const entry = this.outbox.find(item => item.messageId === messageId);
+    if (entry) {
+      entry.attempts++;
+      entry.nextAttemptAt = nextAttemptAt;
+      await this.saveOutbox();
+    }
+  }
+
+  // Re-normalize stored numbers after the normalizer or the default country changed,
+  // merging conversations that turn out to be the same number
+  async rekeyConversations(): Promise<number> {
+    if (!this.outboxLoaded) {
+      await this.loadOutbox();
+    }
+
+    let changed = 0;
+    const rekeyed = new Map<string, Conversation>();
+    for (const conversation of this.conversations.values()) {
+      const key = normalizeStoredNumber(conversation.phoneNumber);
+      if (key !== conversation.phoneNumber) changed++;
+      conversation.phoneNumber = key;
+      conversation.messages.forEach(msg => { msg.phoneNumber = key; });
+
+      const existing = rekeyed.get(key);
+      if (!existing) {
+        rekeyed.set(key, conversation);
+        continue;
+      }
+      existing.messages = [...existing.messages, ...conversation.messages].sort((a, b) => a.timestamp - b.timestamp);
+      existing.lastMessage = existing.messages[existing.messages.length - 1];
+      existing.unreadCount += conversation.unreadCount;
+      if (existing.contactId === 'unknown') existing.contactId = conversation.contactId;
+    }
+
+    for (const entry of this.outbox) {
+      const key = normalizeStoredNumber(entry.phoneNumber);
+      if (key !== entry.phoneNumber) changed++;
+      entry.phoneNumber = key;
+    }
+
+    if (changed > 0) {
+      this.conversations = rekeyed;
+      await this.saveConversations();
+      await this.saveOutbox();
+    }
+    return changed;
+  }
+
+  // Give conversations and their unlinked messages the contact each number belongs to.
+  // Messages already filed under a contact keep it, so history follows the person.
+  async backfillContacts(findContactId: (phoneNumber: string) => string | undefined): Promise<number> {
+    let updated = 0;
+    for (const conversation of this.conversations.values()) {
+      const contactId = findContactId(conversation.phoneNumber);
+      if (!contactId) continue;
+
+      let changed = conversation.contactId !== contactId;
+      conversation.contactId = contactId;
+      for (const message of conversation.messages) {
+        if (message.contactId === 'unknown') {
+          message.contactId = contactId;
+          changed = true;
+        }
+      }
+      if (changed) updated++;
+    }
+
+    if (updated > 0) {
+      await this.saveConversations();
+    }
+    return updated;
+  }
+
+  // Everything exchanged with a contact across all the numbers they've used
+  getContactConversation(contactId: string, phoneNumbers: string[]): Conversation {
+    const normalizedNumbers = phoneNumbers.map(normalizePhoneNumber);
+    const conversations = Array.from(this.conversations.values());
+    const messages = conversations
+      .flatMap(conv => conv.messages.filter(msg =>
+        msg.contactId === contactId ||
+        (msg.contactId === 'unknown' && normalizedNumbers.includes(conv.phoneNumber))
+      ))
+      .filter(msg => msg.isVisible !== false)
+      .sort((a, b) => a.timestamp - b.timestamp);
+    const unreadCount = conversations
+      .filter(conv => conv.contactId === contactId || normalizedNumbers.includes(conv.phoneNumber))
+      .reduce((total, conv) => total + conv.unreadCount, 0);
+
+    return {
+      contactId,
+      phoneNumber: normalizedNumbers[0] || '',
+      messages,
+      lastMessage: messages[messages.length - 1],
+      unreadCount,
+    };
+  }
+
+  async markContactAsRead(contactId: string, phoneNumbers: string[]): Promise<void> {
+    const normalizedNumbers = phoneNumbers.map(normalizePhoneNumber);
+    for (const conversation of this.conversations.values()) {
+      if (conversation.contactId === contactId || normalizedNumbers.includes(conversation.phoneNumber)) {
+        conversation.unreadCount = 0;
+      }
+    }
+    await this.saveConversations();
+  }
+
   getConversation(phoneNumber: string): Conversation | undefined {
     const normalizedPhone = normalizePhoneNumber(phoneNumber);
     return this.conversations.get(normalizedPhone);
@@ -139,9 +382,13 @@ class MessageService {
 
   async clearAllConversations(): Promise<void> {
     this.conversations.clear();
+    this.outbox = [];
     await this.saveConversations();
+    await this.saveOutbox();
+    await MediaCacheService.clearCache();
     console.log('All conversations cleared');
   }
 }
 
-export default new MessageService();
\ No newline at end of file
+export default new MessageService();
+export type { OutboxEntry };
\ No newline at end of file
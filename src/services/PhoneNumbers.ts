@@ -0,0 +1,79 @@
+import SecureStorage from './SecureStorage';
+import { parsePhoneNumberFromString, isSupportedCountry, getCountryCallingCode, CountryCode } from 'libphonenumber-js';
+
+const DEFAULT_COUNTRY_KEY = 'default_country';
+
+// Numbers typed or saved without a country code are read as numbers in this country
+let defaultCountry: CountryCode = 'US';
+
+export async function loadDefaultCountry(): Promise<CountryCode> {
+  try {
+    const stored = await SecureStorage.getItem(DEFAULT_COUNTRY_KEY);
+    if (stored && isSupportedCountry(stored)) {
+      defaultCountry = stored;
+    }
+  } catch (error) {
+    console.error('Failed to load default country:', error);
+  }
+  return defaultCountry;
+}
+
+export async function setDefaultCountry(country: CountryCode): Promise<void> {
+  defaultCountry = country;
+  await SecureStorage.setItem(DEFAULT_COUNTRY_KEY, country);
+}
+
+export function getDefaultCountry(): CountryCode {
+  return defaultCountry;
+}
+
+// Accepts 'gb', 'GB', ' Gb ' - returns null for anything that isn't a country we know
+export function toCountryCode(input: string): CountryCode | null {
+  const code = input.trim().toUpperCase();
+  return isSupportedCountry(code) ? code : null;
+}
+
+export function getCallingCode(country: CountryCode): string {
+  return `+${getCountryCallingCode(country)}`;
+}
+
+// E.164 (+447911123456) for storage and lookup. Short codes and anything else that can't
+// be a phone number keep just their digits.
+export function normalizePhoneNumber(phoneNumber: string): string {
+  const parsed = parsePhoneNumberFromString(phoneNumber, defaultCountry);
+  if (parsed?.isPossible()) {
+    return parsed.number;
+  }
+
+  const digits = phoneNumber.replace(/\D/g, '');
+  return phoneNumber.trim().startsWith('+') ? `+${digits}` : digits;
+}
+
+export function isValidPhoneNumber(phoneNumber: string): boolean {
+  return parsePhoneNumberFromString(phoneNumber, defaultCountry)?.isValid() ?? false;
+}
+
+// How a number should be shown: national style for home-country numbers, international
+// style for everything else
+export function formatPhoneNumber(phoneNumber: string): string {
+  const parsed = parsePhoneNumberFromString(phoneNumber, defaultCountry);
+  if (!parsed?.isValid()) {
+    return phoneNumber;
+  }
+  return parsed.country === defaultCountry ? parsed.formatNational() : parsed.formatInternational();
+}
+
+// Numbers saved by the old US-only normalizer: national numbers from elsewhere came out
+// as '+0...' or '+10...' (UK '07911 123456' became '+07911123456')
+export function normalizeStoredNumber(stored: string): string {
+  const legacy = stored.match(/^\+1?(0\d+)$/);
+  if (legacy) {
+    const repaired = parsePhoneNumberFromString(legacy[1], defaultCountry);
+    if (repaired?.isValid()) {
+      return repaired.number;
+    }
+  }
+  return normalizePhoneNumber(stored);
+}
+
+export type { CountryCode };
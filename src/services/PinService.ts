@@ -0,0 +1,314 @@
+import * as Crypto from 'expo-crypto';
+import * as LocalAuthentication from 'expo-local-authentication';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import SecureStorage from './SecureStorage';
+import CaregiverNotificationService from './CaregiverNotificationService';
+
+export const PIN_MIN_LENGTH = 4;
+export const PIN_MAX_LENGTH = 8;
+
+const PIN_SECRET = 'caregiver_pin';
+const HASH_ITERATIONS = 20000; // Slow enough to hurt guessing, fast enough on an older phone
+const FREE_ATTEMPTS = 5; // Wrong PINs allowed before the first lockout
+const BASE_LOCKOUT = 30 * 1000; // Doubles with every wrong PIN after that
+const MAX_LOCKOUT = 60 * 60 * 1000;
+
+const RECOVERY_SECRET = 'caregiver_pin_recovery';
+export const RECOVERY_CODE_LENGTH = 6;
+const RECOVERY_CODE_MINUTES = 10;
+const RECOVERY_ATTEMPTS = 5; // Wrong codes before the code is thrown away
+const RECOVERY_RESEND_DELAY = 60 * 1000;
+
+interface StoredPin {
+  salt: string;
+  hash: string;
+  iterations: number;
+  biometricsEnabled: boolean;
+  isLegacyDefault?: boolean; // The 1234 every install used before PINs could be changed
+}
+
+interface LockoutState {
+  failedAttempts: number;
+  lockedUntil: number;
+}
+
+// A reset code texted to the caregiver. Only its hash is kept.
+interface RecoveryCode {
+  salt: string;
+  hash: string;
+  expiresAt: number;
+  attemptsLeft: number;
+  sentAt: number;
+}
+
+// Where a PIN was entered. Each has its own wrong-PIN count, so texts from a spoofed
+// caregiver number can't lock the caregiver out of settings on the phone.
+export type PinSource = 'device' | 'sms';
+
+const LOCKOUT_SECRETS: Record<PinSource, string> = {
+  device: 'caregiver_pin_lockout',
+  sms: 'caregiver_pin_sms_lockout',
+};
+
+const NO_LOCKOUT: LockoutState = { failedAttempts: 0, lockedUntil: 0 };
+
+export type PinCheck =
+  | { ok: true }
+  | { ok: false; attemptsLeft: number; lockedUntil: number };
+
+export type RecoveryRequest =
+  | { sent: true; sentTo: string }
+  | { sent: false; error: string };
+
+export type RecoveryCheck =
+  | { ok: true }
+  | { ok: false; attemptsLeft: number; expired: boolean };
+
+// The caregiver PIN that guards settings. Only a salted hash is kept, in the keystore with the
+// lockout counter, so clearing app data or restarting doesn't reset the wrong-PIN count.
+class PinService {
+  private pin: StoredPin | null = null;
+  private lockouts: Record<PinSource, LockoutState> = { device: NO_LOCKOUT, sms: NO_LOCKOUT };
+  private loaded = false;
+
+  async load(): Promise<void> {
+    try {
+      const pin = await SecureStorage.getSecret(PIN_SECRET);
+      const deviceLockout = await SecureStorage.getSecret(LOCKOUT_SECRETS.device);
+      const smsLockout = await SecureStorage.getSecret(LOCKOUT_SECRETS.sms);
+      this.pin = pin ? JSON.parse(pin) : null;
+      this.lockouts = {
+        device: deviceLockout ? JSON.parse(deviceLockout) : NO_LOCKOUT,
+        sms: smsLockout ? JSON.parse(smsLockout) : NO_LOCKOUT,
+      };
+      this.loaded = true;
+    } catch (error) {
+      console.error('Failed to load caregiver PIN:', error);
+    }
+  }
+
+  private async ensureLoaded(): Promise<void> {
+    if (!this.loaded) {
+      await this.load();
+    }
+  }
+
+  async hasPin(): Promise<boolean> {
+    await this.ensureLoaded();
+    return this.pin !== null;
+  }
+
+  // Installs set up before PINs were configurable keep the old 1234 until the caregiver changes it,
+  // rather than letting whoever opens settings next choose a PIN
+  async adoptLegacyPin(): Promise<void> {
+    if (await this.hasPin()) return;
+    await this.setPin('1234');
+    this.pin = { ...this.pin!, isLegacyDefault: true };
+    await SecureStorage.setSecret(PIN_SECRET, JSON.stringify(this.pin));
+  }
+
+  async isLegacyDefault(): Promise<boolean> {
+    await this.ensureLoaded();
+    return !!this.pin?.isLegacyDefault;
+  }
+
+  isValidPin(pin: string): boolean {
+    return new RegExp(`^\\d{${PIN_MIN_LENGTH},${PIN_MAX_LENGTH}}$`).test(pin);
+  }
+
+  private async hashPin(pin: string, salt: string, iterations: number): Promise<string> {
+    return bytesToHex(await pbkdf2Async(sha256, pin, salt, { c: iterations, dkLen: 32 }));
+  }
+
+  // Compare every character so the time taken doesn't reveal how much matched
+  private matches(a: string, b: string): boolean {
+    let difference = a.length ^ b.length;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+    }
+    return difference === 0;
+  }
+
+  async setPin(pin: string): Promise<void> {
+    if (!this.isValidPin(pin)) {
+      throw new Error(`PIN must be ${PIN_MIN_LENGTH} to ${PIN_MAX_LENGTH} digits`);
+    }
+
+    await this.ensureLoaded();
+    const salt = bytesToHex(Crypto.getRandomBytes(16));
+    this.pin = {
+      salt,
+      hash: await this.hashPin(pin, salt, HASH_ITERATIONS),
+      iterations: HASH_ITERATIONS,
+      biometricsEnabled: this.pin?.biometricsEnabled ?? false,
+    };
+    await SecureStorage.setSecret(PIN_SECRET, JSON.stringify(this.pin));
+    await this.saveLockout('device', NO_LOCKOUT);
+    await this.saveLockout('sms', NO_LOCKOUT);
+    console.log('🔐 Caregiver PIN set');
+  }
+
+  // 0 when the PIN can be tried now
+  async getLockedUntil(source: PinSource = 'device'): Promise<number> {
+    await this.ensureLoaded();
+    const { lockedUntil } = this.lockouts[source];
+    return lockedUntil > Date.now() ? lockedUntil : 0;
+  }
+
+  async verifyPin(pin: string, source: PinSource = 'device'): Promise<PinCheck> {
+    await this.ensureLoaded();
+    if (!this.pin) {
+      return { ok: false, attemptsLeft: 0, lockedUntil: 0 };
+    }
+
+    // Don't even check while locked - otherwise waiting out the lock isn't needed to keep guessing
+    const lockedUntil = await this.getLockedUntil(source);
+    if (lockedUntil) {
+      return { ok: false, attemptsLeft: 0, lockedUntil };
+    }
+
+    const hash = await this.hashPin(pin, this.pin.salt, this.pin.iterations);
+    if (this.matches(hash, this.pin.hash)) {
+      await this.saveLockout(source, NO_LOCKOUT);
+      return { ok: true };
+    }
+
+    return this.recordFailure(source);
+  }
+
+  private async recordFailure(source: PinSource): Promise<PinCheck> {
+    const failedAttempts = this.lockouts[source].failedAttempts + 1;
+    const overLimit = failedAttempts - FREE_ATTEMPTS;
+    const lockedUntil = overLimit >= 0
+      ? Date.now() + Math.min(BASE_LOCKOUT * Math.pow(2, overLimit), MAX_LOCKOUT)
+      : 0;
+
+    await this.saveLockout(source, { failedAttempts, lockedUntil });
+    console.log(`🔐 Wrong caregiver PIN by ${source} (${failedAttempts} in a row)`);
+
+    // Tell the caregiver at the first lockout and again every few attempts after that
+    if (overLimit >= 0 && overLimit % FREE_ATTEMPTS === 0) {
+      CaregiverNotificationService.getInstance().notifyPinFailures(failedAttempts, source);
+    }
+
+    return { ok: false, attemptsLeft: Math.max(FREE_ATTEMPTS - failedAttempts, 0), lockedUntil };
+  }
+
+  private async saveLockout(source: PinSource, lockout: LockoutState): Promise<void> {
+    this.lockouts = { ...this.lockouts, [source]: lockout };
+    try {
+      await SecureStorage.setSecret(LOCKOUT_SECRETS[source], JSON.stringify(lockout));
+    } catch (error) {
+      console.error('Failed to save PIN lockout:', error);
+    }
+  }
+
+  private hashRecoveryCode(code: string, salt: string): string {
+    return bytesToHex(sha256(utf8ToBytes(`${salt}:${code}`)));
+  }
+
+  private async loadRecoveryCode(): Promise<RecoveryCode | null> {
+    const stored = await SecureStorage.getSecret(RECOVERY_SECRET);
+    return stored ? JSON.parse(stored) : null;
+  }
+
+  // Text a one-time code to the primary caregiver set under Alerts
+  async requestRecoveryCode(): Promise<RecoveryRequest> {
+    const existing = await this.loadRecoveryCode();
+    if (existing && Date.now() - existing.sentAt < RECOVERY_RESEND_DELAY) {
+      return { sent: false, error: 'A code was just sent. Please wait a minute before asking for another.' };
+    }
+
+    const random = Crypto.getRandomBytes(4);
+    const value = ((random[0] << 24) | (random[1] << 16) | (random[2] << 8) | random[3]) >>> 0;
+    const code = (value % Math.pow(10, RECOVERY_CODE_LENGTH)).toString().padStart(RECOVERY_CODE_LENGTH, '0');
+
+    const sentTo = await CaregiverNotificationService.getInstance().sendPinRecoveryCode(code, RECOVERY_CODE_MINUTES);
+    if (!sentTo) {
+      return { sent: false, error: 'The code could not be sent. A primary caregiver and working Twilio settings are needed.' };
+    }
+
+    // Asking again replaces any earlier code
+    const salt = bytesToHex(Crypto.getRandomBytes(16));
+    const recovery: RecoveryCode = {
+      salt,
+      hash: this.hashRecoveryCode(code, salt),
+      expiresAt: Date.now() + RECOVERY_CODE_MINUTES * 60 * 1000,
+      attemptsLeft: RECOVERY_ATTEMPTS,
+      sentAt: Date.now(),
+    };
+    await SecureStorage.setSecret(RECOVERY_SECRET, JSON.stringify(recovery));
+    console.log('🔐 PIN recovery code sent to caregiver');
+    return { sent: true, sentTo };
+  }
+
+  // A correct code can only be used once. The caller then lets the caregiver choose a new PIN.
+  async verifyRecoveryCode(code: string): Promise<RecoveryCheck> {
+    const recovery = await this.loadRecoveryCode();
+    if (!recovery || recovery.attemptsLeft <= 0) {
+      return { ok: false, attemptsLeft: 0, expired: true };
+    }
+    if (Date.now() > recovery.expiresAt) {
+      await SecureStorage.deleteSecret(RECOVERY_SECRET);
+      return { ok: false, attemptsLeft: 0, expired: true };
+    }
+
+    if (this.matches(this.hashRecoveryCode(code, recovery.salt), recovery.hash)) {
+      await SecureStorage.deleteSecret(RECOVERY_SECRET);
+      return { ok: true };
+    }
+
+    const attemptsLeft = recovery.attemptsLeft - 1;
+    if (attemptsLeft <= 0) {
+      await SecureStorage.deleteSecret(RECOVERY_SECRET);
+    } else {
+      await SecureStorage.setSecret(RECOVERY_SECRET, JSON.stringify({ ...recovery, attemptsLeft }));
+    }
+    return { ok: false, attemptsLeft, expired: false };
+  }
+
+  async isBiometricAvailable(): Promise<boolean> {
+    try {
+      return (await LocalAuthentication.hasHardwareAsync()) && (await LocalAuthentication.isEnrolledAsync());
+    } catch (error) {
+      return false;
+    }
+  }
+
+  async isBiometricEnabled(): Promise<boolean> {
+    await this.ensureLoaded();
+    return !!this.pin?.biometricsEnabled;
+  }
+
+  async setBiometricEnabled(enabled: boolean): Promise<void> {
+    await this.ensureLoaded();
+    if (!this.pin) {
+      throw new Error('Set a PIN before turning on fingerprint or face unlock');
+    }
+
+    this.pin = { ...this.pin, biometricsEnabled: enabled };
+    await SecureStorage.setSecret(PIN_SECRET, JSON.stringify(this.pin));
+  }
+
+  // Falls back to nothing rather than the device passcode - the PIN pad is the fallback
+  async authenticateWithBiometrics(promptMessage: string = 'Open caregiver settings'): Promise<boolean> {
+    try {
+      const result = await LocalAuthentication.authenticateAsync({
+        promptMessage,
+        disableDeviceFallback: true,
+        cancelLabel: 'Use PIN',
+      });
+      if (result.success) {
+        await this.saveLockout('device', NO_LOCKOUT);
+      }
+      return result.success;
+    } catch (error) {
+      console.error('Biometric unlock failed:', error);
+      return false;
+    }
+  }
+}
+
+export default new PinService();
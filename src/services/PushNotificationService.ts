@@ -0,0 +1,139 @@
+import SecureStorage from './SecureStorage';
+import * as Notifications from 'expo-notifications';
+import * as Device from 'expo-device';
+import Constants from 'expo-constants';
+import { Platform } from 'react-native';
+import ServerClient from './ServerClient';
+import type { TwilioConfig } from './TwilioService';
+
+type PushAction = 'refresh_messages';
+type PushActionHandler = (data: Record<string, unknown>) => void;
+
+// Receives the privacy-safe pushes sent by webhook-server. The push never carries message
+// content - it only tells the app to go and fetch from Twilio.
+class PushNotificationService {
+  private static readonly TOKEN_KEY = 'push_token';
+  private token: string | null = null;
+  private handlers: Map<PushAction, PushActionHandler> = new Map();
+  private subscriptions: Notifications.EventSubscription[] = [];
+
+  constructor() {
+    // Refresh pushes are silent - the app shows new messages itself, no popup
+    Notifications.setNotificationHandler({
+      handleNotification: async (notification) => {
+        const isRefresh = notification.request.content.data?.action === 'refresh_messages';
+        return {
+          shouldShowBanner: !isRefresh,
+          shouldShowList: !isRefresh,
+          shouldPlaySound: !isRefresh,
+          shouldSetBadge: false,
+        };
+      },
+    });
+  }
+
+  // Ask for permission and get an Expo push token. Returns null when push isn't
+  // available (simulator, permission denied, no network).
+  async register(): Promise<string | null> {
+    try {
+      if (!Device.isDevice) {
+        console.log('Push notifications need a physical device');
+        return null;
+      }
+
+      if (Platform.OS === 'android') {
+        await Notifications.setNotificationChannelAsync('default', {
+          name: 'default',
+          importance: Notifications.AndroidImportance.DEFAULT,
+        });
+      }
+
+      const existing = await Notifications.getPermissionsAsync();
+      let status = existing.status;
+      if (status !== 'granted') {
+        status = (await Notifications.requestPermissionsAsync()).status;
+      }
+      if (status !== 'granted') {
+        console.log('Push notification permission not granted');
+        return null;
+      }
+
+      const projectId = Constants.expoConfig?.extra?.eas?.projectId;
+      const { data: token } = await Notifications.getExpoPushTokenAsync({ projectId });
+
+      const previous = await SecureStorage.getItem(PushNotificationService.TOKEN_KEY);
+      if (previous !== token) {
+        console.log(`New push token obtained: ${token}`);
+        await SecureStorage.setItem(PushNotificationService.TOKEN_KEY, token);
+      }
+
+      this.token = token;
+      return token;
+    } catch (error) {
+      console.error('Failed to register for push notifications:', error);
+      this.token = null;
+      return null;
+    }
+  }
+
+  // Register our token with the webhook server so pushes for our Twilio number reach us
+  async registerWithServer(config: TwilioConfig | null): Promise<boolean> {
+    const token = await this.getSavedToken();
+    if (!token || !config || !ServerClient.isConfigured(config)) {
+      return false;
+    }
+
+    try {
+      await ServerClient.registerPushToken(config, token);
+      console.log('Push token registered with webhook server');
+      return true;
+    } catch (error) {
+      console.error('Failed to register push token with server:', error);
+      return false;
+    }
+  }
+
+  getToken(): string | null {
+    return this.token;
+  }
+
+  async getSavedToken(): Promise<string | null> {
+    return this.token || SecureStorage.getItem(PushNotificationService.TOKEN_KEY);
+  }
+
+  isAvailable(): boolean {
+    return this.token !== null;
+  }
+
+  onAction(action: PushAction, handler: PushActionHandler): void {
+    this.handlers.set(action, handler);
+  }
+
+  startListening(): void {
+    if (this.subscriptions.length > 0) return;
+
+    // Arrives while the app is open
+    this.subscriptions.push(Notifications.addNotificationReceivedListener(notification => {
+      this.dispatch(notification.request.content.data);
+    }));
+    // The user tapped a notification while the app was in the background
+    this.subscriptions.push(Notifications.addNotificationResponseReceivedListener(response => {
+      this.dispatch(response.notification.request.content.data);
+    }));
+  }
+
+  stopListening(): void {
+    this.subscriptions.forEach(subscription => subscription.remove());
+    this.subscriptions = [];
+  }
+
+  private dispatch(data: Record<string, unknown> | undefined): void {
+    const action = data?.action as PushAction | undefined;
+    const handler = action ? this.handlers.get(action) : undefined;
+    if (handler) {
+      handler(data!);
+    }
+  }
+}
+
+export default new PushNotificationService();
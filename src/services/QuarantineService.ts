@@ -0,0 +1,119 @@
+import SecureStorage from './SecureStorage';
+import { normalizeStoredNumber } from './PhoneNumbers';
+
+// A text from a number that isn't one of the selected contacts. Pictures aren't downloaded
+// until the caregiver approves the sender.
+interface QuarantinedMessage {
+  sid: string;
+  phoneNumber: string;
+  text: string;
+  timestamp: number;
+  numMedia: number;
+}
+
+interface QuarantinedSender {
+  phoneNumber: string;
+  messages: QuarantinedMessage[];
+  lastTimestamp: number;
+}
+
+// Holds texts from unknown numbers away from the user until the caregiver approves the
+// sender as a contact or blocks them for good. Phone numbers arrive already normalized
+// by TwilioService.
+class QuarantineService {
+  private static readonly STORAGE_KEY = 'quarantined_messages';
+  private static readonly BLOCKED_KEY = 'blocked_senders';
+  private messages: QuarantinedMessage[] = [];
+  private blockedSenders: string[] = [];
+
+  async load(): Promise<void> {
+    try {
+      const stored = await SecureStorage.getItem(QuarantineService.STORAGE_KEY);
+      const blocked = await SecureStorage.getItem(QuarantineService.BLOCKED_KEY);
+      this.messages = stored ? JSON.parse(stored) : [];
+      this.blockedSenders = blocked ? JSON.parse(blocked) : [];
+    } catch (error) {
+      console.error('Failed to load quarantined messages:', error);
+    }
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await SecureStorage.setItem(QuarantineService.STORAGE_KEY, JSON.stringify(this.messages));
+      await SecureStorage.setItem(QuarantineService.BLOCKED_KEY, JSON.stringify(this.blockedSenders));
+    } catch (error) {
+      console.error('Failed to save quarantined messages:', error);
+    }
+  }
+
+  // Returns false if the message was already quarantined
+  async quarantine(message: QuarantinedMessage): Promise<boolean> {
+    if (this.messages.some(existing => existing.sid === message.sid)) {
+      return false;
+    }
+
+    this.messages.push(message);
+    await this.save();
+    return true;
+  }
+
+  // One entry per number, most recent sender first
+  getSenders(): QuarantinedSender[] {
+    const senders = new Map<string, QuarantinedSender>();
+    for (const message of this.messages) {
+      const sender = senders.get(message.phoneNumber) || { phoneNumber: message.phoneNumber, messages: [], lastTimestamp: 0 };
+      sender.messages.push(message);
+      sender.lastTimestamp = Math.max(sender.lastTimestamp, message.timestamp);
+      senders.set(message.phoneNumber, sender);
+    }
+
+    return Array.from(senders.values())
+      .map(sender => ({ ...sender, messages: sender.messages.sort((a, b) => a.timestamp - b.timestamp) }))
+      .sort((a, b) => b.lastTimestamp - a.lastTimestamp);
+  }
+
+  getMessageCount(): number {
+    return this.messages.length;
+  }
+
+  isBlocked(phoneNumber: string): boolean {
+    return this.blockedSenders.includes(phoneNumber);
+  }
+
+  getBlockedSenders(): string[] {
+    return this.blockedSenders;
+  }
+
+  // Blocked numbers' texts are dropped as they arrive, so their held messages go too
+  async blockSender(phoneNumber: string): Promise<void> {
+    if (!this.blockedSenders.includes(phoneNumber)) {
+      this.blockedSenders.push(phoneNumber);
+    }
+    this.messages = this.messages.filter(message => message.phoneNumber !== phoneNumber);
+    await this.save();
+  }
+
+  async unblockSender(phoneNumber: string): Promise<void> {
+    this.blockedSenders = this.blockedSenders.filter(number => number !== phoneNumber);
+    await this.save();
+  }
+
+  // Keep held messages and blocked numbers matching after the number format changed
+  async rekeyNumbers(): Promise<void> {
+    await this.load();
+    this.messages.forEach(message => { message.phoneNumber = normalizeStoredNumber(message.phoneNumber); });
+    this.blockedSenders = Array.from(new Set(this.blockedSenders.map(normalizeStoredNumber)));
+    await this.save();
+  }
+
+  // Remove and return a sender's held messages so they can be moved into the conversation
+  async releaseSender(phoneNumber: string): Promise<QuarantinedMessage[]> {
+    const released = this.messages.filter(message => message.phoneNumber === phoneNumber);
+    this.messages = this.messages.filter(message => message.phoneNumber !== phoneNumber);
+    await this.save();
+    return released;
+  }
+}
+
+export default new QuarantineService();
+export type { QuarantinedMessage, QuarantinedSender };
@@ -0,0 +1,44 @@
+import { MessageRisk } from '../types/Message';
+
+interface ScamRule {
+  pattern: RegExp;
+  weight: number;
+  reason: string;
+}
+
+// Phrases seen in the scams that target older people. Weights add up; a single link or
+// "urgent" alone only earns a caution, while a money request plus a story is hidden.
+const RULES: ScamRule[] = [
+  { pattern: /https?:\/\/|www\.|\b[a-z0-9-]+\.(com|net|org|info|xyz|top|link|ly|co|me|io)\b/i, weight: 2, reason: 'Contains a link' },
+  { pattern: /gift ?cards?|itunes|google play card|steam card|prepaid card|scratch (off )?the back/i, weight: 4, reason: 'Mentions gift cards' },
+  { pattern: /send (me |us )?(money|cash|\$)|wire (transfer|money|the money)|western union|moneygram|zelle|venmo|cash ?app|bitcoin|crypto|pay (a |the )?fee/i, weight: 3, reason: 'Asks for money' },
+  { pattern: /\b(jail|bail|arrested|police station|lawyer|attorney|car accident|hospital)\b/i, weight: 2, reason: 'Emergency story (jail, bail, accident)' },
+  { pattern: /don'?t tell|do not tell|keep (this|it) (a )?secret|between (you and me|us)/i, weight: 2, reason: 'Asks to keep it a secret' },
+  { pattern: /urgent|immediately|right away|act now|within 24 hours|final notice|expires? today|\basap\b/i, weight: 1, reason: 'Pressure to act quickly' },
+  { pattern: /social security|\bssn\b|bank account|routing number|account number|pin number|password|verify your (account|identity)|medicare (number|card)/i, weight: 3, reason: 'Asks about bank or personal details' },
+  { pattern: /you('ve| have) won|\bprize\b|lottery|sweepstakes|claim your|account (is |has been )?(suspended|locked)/i, weight: 2, reason: 'Prize or account warning' },
+  { pattern: /\$\s?\d/, weight: 1, reason: 'Mentions a dollar amount' },
+];
+
+const CAUTION_SCORE = 2;
+const HIGH_RISK_SCORE = 4;
+
+// Local rule engine for inbound texts - nothing leaves the phone
+class ScamDetector {
+  // Returns null when a message looks harmless
+  assess(text: string): MessageRisk | null {
+    if (!text) return null;
+
+    const matches = RULES.filter(rule => rule.pattern.test(text));
+    const score = matches.reduce((total, rule) => total + rule.weight, 0);
+    if (score < CAUTION_SCORE) return null;
+
+    return {
+      level: score >= HIGH_RISK_SCORE ? 'high' : 'caution',
+      score,
+      reasons: matches.map(rule => rule.reason),
+    };
+  }
+}
+
+export default new ScamDetector();
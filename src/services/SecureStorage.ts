@@ -0,0 +1,153 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import * as Crypto from 'expo-crypto';
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import { utf8ToBytes, bytesToUtf8 } from '@noble/ciphers/utils';
+
+const KEY_NAME = 'storage_encryption_key';
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const NONCE_LENGTH = 24;
+
+// Everything the app saved in plain text before storage was encrypted. Other keys in
+// AsyncStorage belong to Expo and other libraries, which must keep reading them as they are.
+const PLAIN_TEXT_KEYS = [
+  'selected_contacts',
+  'twilio_config',
+  'show_conversations',
+  'caregiver_notification_settings',
+  'frequency_records',
+  'blocked_messages',
+  'blocked_calls',
+  'blocked_incoming_calls',
+  'held_messages',
+  'incoming_calls_synced_at',
+  'conversations',
+  'message_outbox',
+  'call_log',
+  'contact_number_index',
+  'content_policy',
+  'default_country',
+  'push_token',
+  'quarantined_messages',
+  'blocked_senders',
+];
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 0x8000; // Keep String.fromCharCode under the argument limit
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// Drop-in replacement for AsyncStorage that encrypts every value at rest. The data key is
+// random per install and lives in the OS keystore (Keychain / Android Keystore), as do
+// credentials saved with setSecret.
+class SecureStorage {
+  private dataKey: Promise<Uint8Array> | null = null;
+
+  private getDataKey(): Promise<Uint8Array> {
+    if (!this.dataKey) {
+      this.dataKey = (async () => {
+        const stored = await SecureStore.getItemAsync(KEY_NAME);
+        if (stored) {
+          return fromBase64(stored);
+        }
+
+        const key = Crypto.getRandomBytes(32);
+        // Readable after first unlock so pushes can still be handled while the phone is locked
+        await SecureStore.setItemAsync(KEY_NAME, toBase64(key), { keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY });
+        return key;
+      })();
+      this.dataKey.catch(() => { this.dataKey = null; }); // Try the keystore again next time
+    }
+    return this.dataKey;
+  }
+
+  private async encrypt(value: string): Promise<string> {
+    const key = await this.getDataKey();
+    const nonce = Crypto.getRandomBytes(NONCE_LENGTH);
+    const sealed = xchacha20poly1305(key, nonce).encrypt(utf8ToBytes(value));
+
+    const payload = new Uint8Array(nonce.length + sealed.length);
+    payload.set(nonce);
+    payload.set(sealed, nonce.length);
+    return ENCRYPTED_PREFIX + toBase64(payload);
+  }
+
+  private async decrypt(stored: string): Promise<string> {
+    const key = await this.getDataKey();
+    const payload = fromBase64(stored.slice(ENCRYPTED_PREFIX.length));
+    const nonce = payload.subarray(0, NONCE_LENGTH);
+    return bytesToUtf8(xchacha20poly1305(key, nonce).decrypt(payload.subarray(NONCE_LENGTH)));
+  }
+
+  // Values written before encryption was added are still plain text and are returned as-is
+  async getItem(key: string): Promise<string | null> {
+    const stored = await AsyncStorage.getItem(key);
+    if (stored === null || !stored.startsWith(ENCRYPTED_PREFIX)) {
+      return stored;
+    }
+
+    try {
+      return await this.decrypt(stored);
+    } catch (error) {
+      // Wrong or missing key (e.g. restored from a backup onto a new phone)
+      console.error(`Failed to decrypt stored ${key}:`, error);
+      return null;
+    }
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await AsyncStorage.setItem(key, await this.encrypt(value));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await AsyncStorage.removeItem(key);
+  }
+
+  // Passwords and tokens go straight into the keystore rather than AsyncStorage
+  async getSecret(name: string): Promise<string | null> {
+    return SecureStore.getItemAsync(name);
+  }
+
+  async setSecret(name: string, value: string): Promise<void> {
+    await SecureStore.setItemAsync(name, value, { keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY });
+  }
+
+  async deleteSecret(name: string): Promise<void> {
+    await SecureStore.deleteItemAsync(name);
+  }
+
+  // Encrypt what existing installs saved in plain text. Safe to run on every start.
+  async migrate(): Promise<number> {
+    let migrated = 0;
+    try {
+      for (const key of PLAIN_TEXT_KEYS) {
+        const stored = await AsyncStorage.getItem(key);
+        if (stored !== null && !stored.startsWith(ENCRYPTED_PREFIX)) {
+          await this.setItem(key, stored);
+          migrated++;
+        }
+      }
+      if (migrated > 0) {
+        console.log(`🔐 Encrypted ${migrated} stored items`);
+      }
+    } catch (error) {
+      console.error('Failed to encrypt existing storage:', error);
+    }
+    return migrated;
+  }
+}
+
+export default new SecureStorage();
@@ -0,0 +1,245 @@
+import * as FileSystem from 'expo-file-system';
+import * as Crypto from 'expo-crypto';
+import SecureStorage from './SecureStorage';
+import type { TwilioConfig } from './TwilioService';
+import { Contact, FrequencySettings } from '../types/Contact';
+
+// A voicemail recorded through the webhook server's /api/voice endpoint
+export interface ServerVoicemail {
+  callSid: string;
+  recordingSid: string;
+  recordingUrl: string; // Twilio URL - needs the account credentials to download
+  durationSeconds: number;
+  contactId: string | null;
+  recordedAt: number;
+}
+
+// A call that came in to the Twilio number, as logged by the server's voice webhook
+export interface ServerCall {
+  callSid: string;
+  direction: 'inbound';
+  from: string;
+  contactId: string | null;
+  outcome: 'forwarded' | 'voicemail' | 'rejected';
+  reason: 'unknown-caller' | 'frequency-limit' | 'quiet-hours' | 'not-configured' | null;
+  startedAt: number;
+  status?: string;
+  durationSeconds?: number;
+}
+
+// What the server needs to route inbound calls without asking the device
+export interface CallRouting {
+  userPhoneNumber: string;
+  unknownCallers: 'reject' | 'voicemail';
+  timeZone: string;
+  contacts: {
+    id: string;
+    phoneNumbers: string[];
+    calls?: { enabled: boolean; maxPerHour: number; maxPerDay: number };
+    voicemailAllowed?: number;
+    quietHours?: { start: string; end: string };
+  }[];
+}
+
+// What the phone tells the caregiver dashboard about itself
+export interface DeviceStatus {
+  appVersion: string | null;
+  deviceModel: string | null;
+  osVersion: string | null;
+  batteryLevel: number | null; // 0-1
+  charging: boolean | null;
+  online: boolean;
+  pushEnabled: boolean;
+  outboxCount: number;
+  blockedToday: number;
+  blockedTotal: number;
+  alertStatus: 'ready' | 'alert-sent' | 'escalation-sent';
+  heldMessages: number;
+  quarantinedMessages: number;
+  reportedAt: number;
+}
+
+export const SYNC_PROTOCOL_VERSION = 1;
+
+export type SyncEntity = 'blocked-message' | 'blocked-call' | 'alert-state' | 'contact-settings';
+
+// One change to a record the phone owns. `seq` orders all of this phone's changes;
+// `version` counts the changes to this one record.
+export interface SyncChange {
+  seq: number;
+  entity: SyncEntity;
+  id: string;
+  op: 'upsert' | 'delete';
+  version: number;
+  data?: object;
+}
+
+// A setting the caregiver changed on the dashboard, waiting for the phone to apply it.
+// `baseVersion` is the version of the contact's settings the caregiver was looking at.
+export type RemoteSettingChange =
+  | { id: string; seq: number; type: 'reset-alerts' }
+  | {
+    id: string;
+    seq: number;
+    type: 'contact-limits';
+    contactId: string;
+    baseVersion: number;
+    texts: FrequencySettings;
+    calls: FrequencySettings;
+    quietHours: { start: string; end: string } | null;
+  };
+
+export interface RemoteChangeResult {
+  seq: number;
+  status: 'applied' | 'rejected';
+  reason?: 'conflict' | 'contact-removed';
+}
+
+export interface SyncRequest {
+  deviceId: string;
+  changes: SyncChange[];
+  cursor: number; // Highest dashboard change seq already dealt with
+  results: RemoteChangeResult[];
+}
+
+export interface SyncResponse {
+  ackedSeq: number; // Every change up to here is stored on the server
+  epoch: string | null; // Changes when the server starts its copy over
+  remoteChanges: RemoteSettingChange[];
+}
+
+// Talks to our own webhook server (webhook-server/). Only available when the caregiver
+// has entered a server URL and key in the Twilio settings.
+class ServerClient {
+  private static readonly DEVICE_SECRET = 'server_device_secret'; // Keystore entry
+  private deviceSecret: string | null = null;
+
+  isConfigured(config: TwilioConfig | null): boolean {
+    return !!config?.serverUrl && !!config?.serverApiKey;
+  }
+
+  private endpoint(config: TwilioConfig, path: string): string {
+    return `${config.serverUrl!.replace(/\/+$/, '')}${path}`;
+  }
+
+  // Made once per install. The server only lets the device that first used our Twilio
+  // number read or change its data, so another copy of the app can't take it over.
+  private async getDeviceSecret(): Promise<string> {
+    if (!this.deviceSecret) {
+      this.deviceSecret = await SecureStorage.getSecret(ServerClient.DEVICE_SECRET);
+      if (!this.deviceSecret) {
+        this.deviceSecret = `${Crypto.randomUUID()}${Crypto.randomUUID()}`.replace(/-/g, '');
+        await SecureStorage.setSecret(ServerClient.DEVICE_SECRET, this.deviceSecret);
+      }
+    }
+    return this.deviceSecret;
+  }
+
+  private async postJson(config: TwilioConfig, path: string, body: object, method: string = 'POST'): Promise<any> {
+    const response = await fetch(this.endpoint(config, path), {
+      method,
+      headers: {
+        'Authorization': `Bearer ${config.serverApiKey}`,
+        'X-Device-Secret': await this.getDeviceSecret(),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || `Server error ${response.status}`);
+    }
+    return data;
+  }
+
+  // Tell the webhook server which device to push to when texts arrive at our Twilio number
+  async registerPushToken(config: TwilioConfig, pushToken: string): Promise<void> {
+    await this.postJson(config, '/api/register', { twilioNumber: config.phoneNumber, pushToken });
+  }
+
+  async unregisterPushToken(config: TwilioConfig): Promise<void> {
+    await this.postJson(config, '/api/register', { twilioNumber: config.phoneNumber }, 'DELETE');
+  }
+
+  private async getJson(config: TwilioConfig, path: string): Promise<any> {
+    const response = await fetch(this.endpoint(config, path), {
+      headers: {
+        'Authorization': `Bearer ${config.serverApiKey}`,
+        'X-Device-Secret': await this.getDeviceSecret(),
+      },
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || `Server error ${response.status}`);
+    }
+    return data;
+  }
+
+  // TwiML the carrier should run when the user is put through to a contact's voicemail
+  voicemailTwimlUrl(config: TwilioConfig, contact: Contact): string {
+    const params = new URLSearchParams({ mode: 'voicemail', contactId: contact.id, name: contact.name });
+    return this.endpoint(config, `/api/voice?${params.toString()}`);
+  }
+
+  async listVoicemails(config: TwilioConfig): Promise<ServerVoicemail[]> {
+    const params = new URLSearchParams({ twilioNumber: config.phoneNumber });
+    const data = await this.getJson(config, `/api/voicemails?${params.toString()}`);
+    return Array.isArray(data.voicemails) ? data.voicemails : [];
+  }
+
+  async saveCallRouting(config: TwilioConfig, routing: CallRouting): Promise<void> {
+    await this.postJson(config, '/api/call-routing', { twilioNumber: config.phoneNumber, ...routing });
+  }
+
+  async listCalls(config: TwilioConfig, since: number): Promise<ServerCall[]> {
+    const params = new URLSearchParams({ twilioNumber: config.phoneNumber, since: String(since) });
+    const data = await this.getJson(config, `/api/calls?${params.toString()}`);
+    return Array.isArray(data.calls) ? data.calls : [];
+  }
+
+  async reportDeviceStatus(config: TwilioConfig, status: DeviceStatus): Promise<void> {
+    await this.postJson(config, '/api/device-status', { twilioNumber: config.phoneNumber, status });
+  }
+
+  async sync(config: TwilioConfig, request: SyncRequest): Promise<SyncResponse> {
+    const data = await this.postJson(config, '/api/sync', {
+      protocolVersion: SYNC_PROTOCOL_VERSION,
+      twilioNumber: config.phoneNumber,
+      ...request,
+    });
+    if (typeof data.ackedSeq !== 'number') {
+      throw new Error('Unexpected sync response from server');
+    }
+    return {
+      ackedSeq: data.ackedSeq,
+      epoch: typeof data.epoch === 'string' ? data.epoch : null,
+      remoteChanges: Array.isArray(data.remoteChanges) ? data.remoteChanges : [],
+    };
+  }
+
+  // Upload a local photo so Twilio can fetch it as MMS media. Returns the public URL.
+  async uploadMedia(config: TwilioConfig, localUri: string, contentType: string): Promise<string> {
+    if (!this.isConfigured(config)) {
+      throw new Error('Webhook server not configured. Please add it in Twilio settings to send photos.');
+    }
+
+    const result = await FileSystem.uploadAsync(this.endpoint(config, '/api/media'), localUri, {
+      httpMethod: 'POST',
+      uploadType: FileSystem.FileSystemUploadType.BINARY_CONTENT,
+      headers: {
+        'Authorization': `Bearer ${config.serverApiKey}`,
+        'Content-Type': contentType,
+      },
+    });
+
+    const data = JSON.parse(result.body || '{}');
+    if (result.status !== 201 || !data.url) {
+      throw new Error(data.error || 'Failed to upload photo');
+    }
+    return data.url;
+  }
+}
+
+export default new ServerClient();
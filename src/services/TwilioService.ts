@@ -1,30 +1,56 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import MessageService from './MessageService';
-
-// Normalize phone number to E.164 format for consistent storage/lookup
-function normalizePhoneNumber(phoneNumber: string): string {
-  // Remove all non-digit characters
-  const digits = phoneNumber.replace(/\D/g, '');
-  
-  // If it starts with 1 and has 11 digits (US/Canada), format as +1XXXXXXXXXX
-  if (digits.length === 11 && digits.startsWith('1')) {
-    return `+${digits}`;
-  }
-  
-  // If it has 10 digits, assume US/Canada and add +1
-  if (digits.length === 10) {
-    return `+1${digits}`;
-  }
-  
-  // Otherwise, add + if not already present
-  return digits.startsWith('+') ? phoneNumber : `+${digits}`;
+import SecureStorage from './SecureStorage';
+import NetInfo from '@react-native-community/netinfo';
+import MessageService, { OutboxEntry } from './MessageService';
+import FrequencyTracker from './FrequencyTracker';
+import MediaCacheService from './MediaCacheService';
+import ServerClient from './ServerClient';
+import CallLogService from './CallLogService';
+import QuarantineService from './QuarantineService';
+import ContactResolver, { UNKNOWN_CONTACT_ID } from './ContactResolver';
+import { normalizePhoneNumber } from './PhoneNumbers';
+import ScamDetector from './ScamDetector';
+import CaregiverNotificationService from './CaregiverNotificationService';
+import CaregiverCommandService from './CaregiverCommandService';
+import { Contact } from '../types/Contact';
+import { Message } from '../types/Message';
+import type { BlockedCall } from './FrequencyTracker';
+import { getTelephonyProvider, TelephonyProvider, TelephonyProviderId, CredentialCheck, PermanentSendError } from './telephony';
+
+function guessImageContentType(uri: string): string {
+  const extension = uri.split('?')[0].split('.').pop()?.toLowerCase();
+  switch (extension) {
+    case 'png': return 'image/png';
+    case 'gif': return 'image/gif';
+    default: return 'image/jpeg';
+  }
 }
 
+const STATUS_CHECK_INTERVAL = 60 * 1000; // Delivery status changes don't need fast polling
+const STATUS_CHECK_MAX_AGE = 3 * 24 * 60 * 60 * 1000; // Stop asking about messages older than 3 days
+const CALL_CHECK_MAX_AGE = 24 * 60 * 60 * 1000; // Calls end within a day, whatever happens
+const OUTBOX_BASE_DELAY = 30 * 1000; // First retry after 30 seconds, doubling each time
+const OUTBOX_MAX_DELAY = 30 * 60 * 1000;
+const OUTBOX_MAX_ATTEMPTS = 10; // After this the message is marked failed for the caregiver to see
+const FIRST_FETCH_LOOKBACK = 24 * 60 * 60 * 1000; // A new install picks up the last day of texts
+
+// Keystore entries for the credentials - they never go into the twilio_config blob
+const SECRET_ACCOUNT_SID = 'twilio_account_sid';
+const SECRET_AUTH_TOKEN = 'twilio_auth_token';
+const SECRET_SERVER_API_KEY = 'server_api_key';
+const SECRET_API_KEY_SID = 'twilio_api_key_sid';
+const SECRET_API_KEY_SECRET = 'twilio_api_key_secret';
+
 export interface TwilioConfig {
-  accountSid: string;
-  authToken: string;
+  accountSid: string; // Main account or the subaccount that owns phoneNumber
+  authToken: string; // Empty when an API key is used instead
+  apiKeySid?: string; // SK... - preferred over the auth token, can be revoked on its own
+  apiKeySecret?: string;
   phoneNumber: string; // Twilio number
   userPhoneNumber: string; // Your dad's actual phone number
+  provider?: TelephonyProviderId; // Defaults to 'twilio' for configs saved before providers existed
+  serverUrl?: string; // Our webhook server, needed for sending photos
+  serverApiKey?: string;
+  unknownCallers?: 'reject' | 'voicemail'; // What the server does with calls from numbers not in contacts
 }
 
 class TwilioService {
@@ -32,13 +58,35 @@ class TwilioService {
   private pollingInterval: NodeJS.Timeout | null = null;
   private pollingMode: 'active' | 'background' | 'conversation' = 'background';
   private appState: 'active' | 'background' = 'active';
-  private lastFetchedTimestamp: number = Date.now() - (24 * 60 * 60 * 1000); // Start from 24 hours ago
+  private lastFetchedTimestamp: number | null = null; // Loaded from storage on the first fetch
+  private lastStatusCheck: number = 0;
+  private outboxFlush: Promise<void> | null = null;
+  private lastSendFailure: { messageId: string; error: PermanentSendError } | null = null;
+  private outboxTimer: NodeJS.Timeout | null = null;
+  private netInfoUnsubscribe: (() => void) | null = null;
+  private pushAvailable = false;
+  private updateListeners: Set<(hasNewMessages: boolean) => void> = new Set();
 
   async loadConfig(): Promise<TwilioConfig | null> {
     try {
-      const configString = await AsyncStorage.getItem('twilio_config');
+      const configString = await SecureStorage.getItem('twilio_config');
       if (configString) {
-        this.config = JSON.parse(configString);
+        const stored = JSON.parse(configString);
+        const config: TwilioConfig = {
+          ...stored,
+          accountSid: (await SecureStorage.getSecret(SECRET_ACCOUNT_SID)) ?? stored.accountSid ?? '',
+          authToken: (await SecureStorage.getSecret(SECRET_AUTH_TOKEN)) ?? stored.authToken ?? '',
+          serverApiKey: (await SecureStorage.getSecret(SECRET_SERVER_API_KEY)) ?? stored.serverApiKey,
+          apiKeySid: (await SecureStorage.getSecret(SECRET_API_KEY_SID)) ?? undefined,
+          apiKeySecret: (await SecureStorage.getSecret(SECRET_API_KEY_SECRET)) ?? undefined,
+        };
+
+        // Older installs kept the credentials in the config itself - move them to the keystore
+        if (stored.authToken || stored.accountSid || stored.serverApiKey) {
+          await this.saveConfig(config);
+        }
+
+        this.config = config;
         return this.config;
       }
     } catch (error) {
@@ -49,7 +97,13 @@ class TwilioService {
 
   async saveConfig(config: TwilioConfig): Promise<void> {
     try {
-      await AsyncStorage.setItem('twilio_config', JSON.stringify(config));
+      const { accountSid, authToken, serverApiKey, apiKeySid, apiKeySecret, ...settings } = config;
+      await SecureStorage.setSecret(SECRET_ACCOUNT_SID, accountSid);
+      await this.saveOptionalSecret(SECRET_AUTH_TOKEN, authToken);
+      await this.saveOptionalSecret(SECRET_SERVER_API_KEY, serverApiKey);
+      await this.saveOptionalSecret(SECRET_API_KEY_SID, apiKeySid);
+      await this.saveOptionalSecret(SECRET_API_KEY_SECRET, apiKeySecret);
+      await SecureStorage.setItem('twilio_config', JSON.stringify(settings));
       this.config = config;
     } catch (error) {
       console.error('Failed to save Twilio config:', error);
@@ -57,9 +111,38 @@ class TwilioService {
     }
   }
 
+  private async saveOptionalSecret(name: string, value: string | undefined): Promise<void> {
+    if (value) {
+      await SecureStorage.setSecret(name, value);
+    } else {
+      await SecureStorage.deleteSecret(name);
+    }
+  }
+
+  // Swap in a new API key, keeping the rest of the settings. The new key is checked first so a
+  // typo can't lock the app out; the old key keeps working until it's deleted in the Twilio Console.
+  async rotateApiKey(apiKeySid: string, apiKeySecret: string): Promise<CredentialCheck> {
+    if (!this.config) {
+      throw new Error('Twilio not configured. Please add your credentials in settings.');
+    }
+
+    const updated: TwilioConfig = { ...this.config, apiKeySid, apiKeySecret, authToken: '' };
+    const check = await this.validateCredentials(updated);
+    if (check.ok) {
+      await this.saveConfig(updated);
+      console.log('🔑 Twilio API key replaced');
+    }
+    return check;
+  }
+
   async clearConfig(): Promise<void> {
     try {
-      await AsyncStorage.removeItem('twilio_config');
+      await SecureStorage.removeItem('twilio_config');
+      await SecureStorage.deleteSecret(SECRET_ACCOUNT_SID);
+      await SecureStorage.deleteSecret(SECRET_AUTH_TOKEN);
+      await SecureStorage.deleteSecret(SECRET_SERVER_API_KEY);
+      await SecureStorage.deleteSecret(SECRET_API_KEY_SID);
+      await SecureStorage.deleteSecret(SECRET_API_KEY_SECRET);
       this.config = null;
     } catch (error) {
       console.error('Failed to clear Twilio config:', error);
@@ -74,43 +157,192 @@ class TwilioService {
     return this.config;
   }
 
+  getProvider(): TelephonyProvider {
+    return getTelephonyProvider(this.config?.provider);
+  }
+
+  // Check credentials without saving them (used by the settings form)
+  async validateCredentials(config: TwilioConfig): Promise<CredentialCheck> {
+    return getTelephonyProvider(config.provider).validateCredentials(config);
+  }
+
   async sendSMS(to: string, message: string, contactId?: string): Promise<boolean> {
     if (!this.config) {
       throw new Error('Twilio not configured. Please add your credentials in settings.');
     }
 
     try {
-      const auth = btoa(`${this.config.accountSid}:${this.config.authToken}`);
-      
-      const response = await fetch(
-        `https://api.twilio.com/2010-04-01/Accounts/${this.config.accountSid}/Messages.json`,
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': `Basic ${auth}`,
-            'Content-Type': 'application/x-www-form-urlencoded',
-          },
-          body: new URLSearchParams({
-            From: this.config.phoneNumber,
-            To: to,
-            Body: message,
-          }).toString(),
+      const sent = await this.getProvider().sendMessage(this.config, to, message);
+
+      // Store the sent message locally using normalized phone number
+      const normalizedTo = normalizePhoneNumber(to);
+      // Check if this is a caregiver notification (should be hidden from user)
+      const isCaregiverrNotification = message.includes('blocked') || message.includes('violation') || message.includes('frequency');
+      const stored = await MessageService.addMessage(contactId || ContactResolver.resolveContactId(normalizedTo), normalizedTo, message, 'sent', undefined, undefined, !isCaregiverrNotification);
+      await MessageService.updateDeliveryStatus(normalizedTo, stored.id, { status: sent.status, providerSid: sent.sid });
+      return true;
+    } catch (error) {
+      console.error('SMS Error:', error);
+      throw error;
+    }
+  }
+
+  // For texts that mustn't be readable on this phone afterwards, like PIN recovery codes
+  async sendPrivateSMS(to: string, message: string): Promise<void> {
+    if (!this.config) {
+      throw new Error('Twilio not configured. Please add your credentials in settings.');
+    }
+
+    await this.getProvider().sendMessage(this.config, normalizePhoneNumber(to), message);
+  }
+
+  // Send a text on behalf of the user. If there's no signal it stays in the outbox and is
+  // retried automatically. Returns true if it went out right away, and throws a
+  // PermanentSendError if the carrier refused it for good (it is then marked failed).
+  async queueSMS(to: string, message: string, contactId: string): Promise<boolean> {
+    if (!this.config) {
+      throw new Error('Twilio not configured. Please add your credentials in settings.');
+    }
+
+    const queued = await MessageService.queueOutgoing(contactId, to, message);
+    // A flush that was already running picked its texts before this one was queued
+    await this.outboxFlush;
+    await this.flushOutbox();
+
+    if (this.lastSendFailure?.messageId === queued.id) {
+      const { error } = this.lastSendFailure;
+      this.lastSendFailure = null;
+      throw error;
+    }
+
+    const outbox = await MessageService.getOutbox();
+    return !outbox.some(entry => entry.messageId === queued.id);
+  }
+
+  // Try to send everything in the outbox that is due. `ignoreBackoff` is used when
+  // connectivity comes back, since there's no point waiting out the old delay.
+  // Only one flush runs at a time; callers arriving during one wait for it to finish.
+  async flushOutbox(ignoreBackoff: boolean = false): Promise<void> {
+    if (!this.config) return;
+    if (this.outboxFlush) return this.outboxFlush;
+
+    this.outboxFlush = this.sendDueOutboxEntries(ignoreBackoff);
+    try {
+      await this.outboxFlush;
+    } finally {
+      this.outboxFlush = null;
+    }
+  }
+
+  private async sendDueOutboxEntries(ignoreBackoff: boolean): Promise<void> {
+    try {
+      const now = Date.now();
+      const due = (await MessageService.getOutbox())
+        .filter(entry => ignoreBackoff || entry.nextAttemptAt <= now);
+
+      for (const entry of due) {
+        await this.sendOutboxEntry(entry);
+      }
+    } finally {
+      await this.scheduleOutboxRetry();
+    }
+  }
+
+  private async sendOutboxEntry(entry: OutboxEntry): Promise<void> {
+    if (!this.config) return;
+
+    try {
+      const sent = await this.getProvider().sendMessage(this.config, entry.phoneNumber, entry.text);
+      await MessageService.updateDeliveryStatus(entry.phoneNumber, entry.messageId, { status: sent.status, providerSid: sent.sid });
+      await MessageService.removeFromOutbox(entry.messageId);
+      this.notifyMessagesUpdated(false);
+
+      // Only texts that actually went out count towards the contact's limits
+      const frequencyTracker = FrequencyTracker.getInstance();
+      await frequencyTracker.loadRecords();
+      await frequencyTracker.recordCommunication(entry.contactId, 'text');
+    } catch (error) {
+      console.error(`Outbox send failed (attempt ${entry.attempts + 1}):`, error);
+
+      // A wrong number or bad credentials won't fix themselves - fail it now
+      const permanent = error instanceof PermanentSendError ? error : null;
+      if (permanent || entry.attempts + 1 >= OUTBOX_MAX_ATTEMPTS) {
+        await MessageService.updateDeliveryStatus(entry.phoneNumber, entry.messageId, { status: 'failed', errorCode: permanent?.errorCode });
+        await MessageService.removeFromOutbox(entry.messageId);
+        if (permanent) {
+          this.lastSendFailure = { messageId: entry.messageId, error: permanent };
         }
-      );
-
-      if (response.ok) {
-        // Store the sent message locally using normalized phone number
-        const normalizedTo = normalizePhoneNumber(to);
-        // Check if this is a caregiver notification (should be hidden from user)
-        const isCaregiverrNotification = message.includes('blocked') || message.includes('violation') || message.includes('frequency');
-        await MessageService.addMessage(contactId || 'unknown', normalizedTo, message, 'sent', undefined, undefined, !isCaregiverrNotification);
-        return true;
+        this.notifyMessagesUpdated(false);
       } else {
-        const error = await response.json();
-        throw new Error(error.message || 'Failed to send SMS');
+        const delay = Math.min(OUTBOX_BASE_DELAY * Math.pow(2, entry.attempts), OUTBOX_MAX_DELAY);
+        await MessageService.rescheduleOutboxEntry(entry.messageId, Date.now() + delay);
+      }
+    }
+  }
+
+  private async scheduleOutboxRetry(): Promise<void> {
+    if (this.outboxTimer) {
+      clearTimeout(this.outboxTimer);
+      this.outboxTimer = null;
+    }
+
+    const outbox = await MessageService.getOutbox();
+    if (outbox.length === 0) return;
+
+    const nextAttemptAt = Math.min(...outbox.map(entry => entry.nextAttemptAt));
+    this.outboxTimer = setTimeout(() => {
+      this.outboxTimer = null;
+      this.flushOutbox();
+    }, Math.max(0, nextAttemptAt - Date.now()));
+  }
+
+  // Send anything left over from before the app was closed, and retry as soon as the
+  // phone gets signal again
+  startOutboxWatcher(): void {
+    if (this.netInfoUnsubscribe) return;
+
+    this.netInfoUnsubscribe = NetInfo.addEventListener(state => {
+      if (state.isConnected && state.isInternetReachable !== false) {
+        this.flushOutbox(true);
       }
+    });
+  }
+
+  stopOutboxWatcher(): void {
+    if (this.netInfoUnsubscribe) {
+      this.netInfoUnsubscribe();
+      this.netInfoUnsubscribe = null;
+    }
+    if (this.outboxTimer) {
+      clearTimeout(this.outboxTimer);
+      this.outboxTimer = null;
+    }
+  }
+
+  async sendMMS(to: string, localUri: string, caption: string = '', contactId?: string): Promise<boolean> {
+    if (!this.config) {
+      throw new Error('Twilio not configured. Please add your credentials in settings.');
+    }
+
+    try {
+      const provider = this.getProvider();
+      const contentType = guessImageContentType(localUri);
+      const mediaUrl = await provider.uploadMedia(this.config, localUri, contentType);
+      const sent = await provider.sendMessage(this.config, to, caption, [mediaUrl]);
+
+      // Keep the photo in the conversation using the local copy we already have
+      const normalizedTo = normalizePhoneNumber(to);
+      const message = await MessageService.addMessage(contactId || ContactResolver.resolveContactId(normalizedTo), normalizedTo, caption, 'sent', undefined, sent.sid);
+      await MessageService.attachMedia(normalizedTo, message.id, [{
+        sid: sent.sid,
+        contentType,
+        remoteUrl: mediaUrl,
+        localUri,
+      }]);
+      await MessageService.updateDeliveryStatus(normalizedTo, message.id, { status: sent.status, providerSid: sent.sid });
+      return true;
     } catch (error) {
-      console.error('SMS Error:', error);
+      console.error('MMS Error:', error);
       throw error;
     }
   }
@@ -119,91 +351,215 @@ class TwilioService {
     if (!this.config) return false;
 
     try {
-      const auth = btoa(`${this.config.accountSid}:${this.config.authToken}`);
-      
       // Only fetch messages since our last check (much more efficient!)
-      const sinceDate = new Date(this.lastFetchedTimestamp).toISOString();
-      const baseUrl = `https://api.twilio.com/2010-04-01/Accounts/${this.config.accountSid}/Messages.json`;
-      const params = new URLSearchParams({
-        'DateSent>=': sinceDate,
-        'To': this.config.phoneNumber
-      });
-      
-      console.log(`Checking for new messages since: ${sinceDate}`);
-      
-      const response = await fetch(`${baseUrl}?${params.toString()}`, {
-        headers: {
-          'Authorization': `Basic ${auth}`,
-        },
-      });
+      const since = await this.getLastFetchedTimestamp();
+      console.log(`Checking for new messages since: ${new Date(since).toISOString()}`);
 
-      if (response.ok) {
-        const data = await response.json();
-        
-        // Handle case where messages might be undefined
-        if (!data || !Array.isArray(data.messages)) {
-          console.log('No messages array in response:', data);
-          return false;
-        }
-        
-        const inboundMessages = data.messages.filter(msg => msg && msg.direction === 'inbound');
-        
-        console.log(`Found ${inboundMessages.length} new inbound messages`);
-        
-        let hasNewMessages = false;
-        let latestMessageTimestamp = this.lastFetchedTimestamp;
-        
-        for (const twilioMessage of inboundMessages) {
-          const messageTimestamp = new Date(twilioMessage.date_sent).getTime();
-          
-          // Only process messages newer than our last fetch
-          if (messageTimestamp > this.lastFetchedTimestamp) {
-            console.log(`New message from ${twilioMessage.from}: "${twilioMessage.body}"`);
-            
-            const normalizedFrom = normalizePhoneNumber(twilioMessage.from);
-            await MessageService.addMessage('unknown', normalizedFrom, twilioMessage.body, 'received', messageTimestamp, twilioMessage.sid);
-            hasNewMessages = true;
-            
-            
-            // Track the latest message timestamp we've processed
-            latestMessageTimestamp = Math.max(latestMessageTimestamp, messageTimestamp);
+      const inboundMessages = await this.getProvider().listInboundMessages(this.config, since);
+
+      console.log(`Found ${inboundMessages.length} new inbound messages`);
+
+      let hasNewMessages = false;
+      let latestMessageTimestamp = since;
+      await ContactResolver.load();
+      await QuarantineService.load();
+
+      for (const inbound of inboundMessages) {
+        // Only process messages newer than our last fetch
+        if (inbound.dateSent > since) {
+          console.log(`New message from ${inbound.from}: "${inbound.body}"`);
+
+          const normalizedFrom = normalizePhoneNumber(inbound.from);
+
+          // Commands from the caregiver change settings and are never shown to the user
+          if (await CaregiverCommandService.handleInbound(inbound.sid, normalizedFrom, inbound.body)) {
+            continue;
           }
+
+          // Texts from strangers never reach the user - the caregiver reviews them in settings
+          if (QuarantineService.isBlocked(normalizedFrom)) {
+            console.log(`🚫 Dropped message from blocked number ${normalizedFrom}`);
+            continue;
+          }
+          const contact = ContactResolver.resolve(normalizedFrom);
+          if (!contact) {
+            await QuarantineService.quarantine({
+              sid: inbound.sid,
+              phoneNumber: normalizedFrom,
+              text: inbound.body,
+              timestamp: inbound.dateSent,
+              numMedia: inbound.numMedia,
+            });
+            console.log(`🛡️ Quarantined message from unknown number ${normalizedFrom}`);
+            continue;
+          }
+
+          const message = await MessageService.addMessage(contact.id, normalizedFrom, inbound.body, 'received', inbound.dateSent, inbound.sid);
+          if (inbound.numMedia > 0 && !message.media) {
+            await this.fetchMessageMedia(normalizedFrom, message.id, inbound.sid);
+          }
+          await this.screenForScam(message);
+          hasNewMessages = true;
+
+          // Track the latest message timestamp we've processed
+          latestMessageTimestamp = Math.max(latestMessageTimestamp, inbound.dateSent);
         }
-        
-        // Always update timestamp to prevent re-processing same messages
-        if (inboundMessages.length > 0) {
-          // Find the most recent message timestamp
-          const mostRecentTimestamp = Math.max(
-            ...inboundMessages.map(msg => new Date(msg.date_sent).getTime()),
-            this.lastFetchedTimestamp
-          );
-          this.lastFetchedTimestamp = mostRecentTimestamp + 1;
-          console.log(`Updated last fetched timestamp to: ${new Date(this.lastFetchedTimestamp).toISOString()}`);
-        }
-        
-        if (hasNewMessages) {
-          console.log(`✅ Actually processed ${hasNewMessages ? 'some' : 'no'} truly new messages`);
-        } else {
-          console.log(`🔍 No new messages since ${new Date(this.lastFetchedTimestamp).toISOString()}`);
-        }
-        
-        return hasNewMessages;
+      }
+
+      // Always update timestamp to prevent re-processing same messages
+      if (inboundMessages.length > 0) {
+        // Find the most recent message timestamp
+        const mostRecentTimestamp = Math.max(
+          ...inboundMessages.map(msg => msg.dateSent),
+          since
+        );
+        this.lastFetchedTimestamp = mostRecentTimestamp + 1;
+        await SecureStorage.setItem('messages_fetched_at', String(this.lastFetchedTimestamp));
+        console.log(`Updated last fetched timestamp to: ${new Date(this.lastFetchedTimestamp).toISOString()}`);
+      }
+
+      if (hasNewMessages) {
+        console.log(`✅ Actually processed ${hasNewMessages ? 'some' : 'no'} truly new messages`);
+        this.notifyMessagesUpdated(true);
       } else {
-        const errorText = await response.text();
-        console.error('Twilio API error:', response.status, errorText);
-        return false;
+        console.log(`🔍 No new messages since ${new Date(since).toISOString()}`);
       }
+
+      return hasNewMessages;
     } catch (error) {
       console.error('Failed to fetch messages:', error);
       return false;
     }
   }
 
+  // Kept in storage so a restart carries on where the last fetch stopped
+  private async getLastFetchedTimestamp(): Promise<number> {
+    if (this.lastFetchedTimestamp === null) {
+      const stored = await SecureStorage.getItem('messages_fetched_at');
+      this.lastFetchedTimestamp = stored ? parseInt(stored, 10) : Date.now() - FIRST_FETCH_LOOKBACK;
+    }
+    return this.lastFetchedTimestamp;
+  }
+
+  // Move an approved sender's held texts into their conversation (the caller has already
+  // added them to the selected contacts). Returns how many texts were released.
+  async releaseQuarantinedSender(phoneNumber: string, contactId: string): Promise<number> {
+    await QuarantineService.load();
+    await MessageService.loadConversations();
+
+    const released = await QuarantineService.releaseSender(phoneNumber);
+    for (const held of released) {
+      const message = await MessageService.addMessage(contactId, held.phoneNumber, held.text, 'received', held.timestamp, held.sid);
+      if (held.numMedia > 0 && !message.media) {
+        await this.fetchMessageMedia(held.phoneNumber, message.id, held.sid);
+      }
+      await this.screenForScam(message);
+    }
+
+    if (released.length > 0) {
+      this.notifyMessagesUpdated(true);
+    }
+    return released.length;
+  }
+
+  // Hide or flag texts that look like scams and tell the caregiver why
+  private async screenForScam(message: Message): Promise<void> {
+    if (message.risk) return; // Already screened
+
+    const risk = ScamDetector.assess(message.text);
+    if (!risk) return;
+
+    await MessageService.flagMessage(message.phoneNumber, message.id, risk);
+    console.log(`⚠️ Flagged message from ${message.phoneNumber} as ${risk.level} risk: ${risk.reasons.join(', ')}`);
+    await CaregiverNotificationService.getInstance().notifySuspiciousMessage(message, risk);
+  }
+
+  // Ask the carrier what happened to recently sent messages (queued -> delivered/undelivered)
+  async checkDeliveryStatuses(): Promise<void> {
+    if (!this.config) return;
+
+    this.lastStatusCheck = Date.now();
+    const pending = MessageService.getPendingDeliveries(STATUS_CHECK_MAX_AGE);
+    let changed = false;
+
+    for (const message of pending) {
+      try {
+        const report = await this.getProvider().getDeliveryReport(this.config, message.providerSid!);
+        if (report.status !== message.status) {
+          console.log(`Message ${message.providerSid} is now ${report.status}`);
+          await MessageService.updateDeliveryStatus(message.phoneNumber, message.id, report);
+          changed = true;
+        }
+      } catch (error) {
+        console.error('Failed to check delivery status:', error);
+      }
+    }
+
+    if (changed) {
+      this.notifyMessagesUpdated(false);
+    }
+  }
+
+  // Fill in how recent calls ended and how long they lasted
+  async checkCallDetails(): Promise<void> {
+    if (!this.config) return;
+
+    await CallLogService.loadCalls();
+    // Incoming calls get their status from the webhook server's call log instead
+    const pending = CallLogService.getPendingCalls(CALL_CHECK_MAX_AGE).filter(call => call.direction === 'outgoing');
+    for (const call of pending) {
+      try {
+        const details = await this.getProvider().getCallDetails(this.config, call.providerSid!);
+        if (details.outcome !== 'in-progress') {
+          await CallLogService.updateCall(call.id, details);
+        }
+      } catch (error) {
+        console.error('Failed to check call details:', error);
+      }
+    }
+  }
+
+  // Screens subscribe here instead of running their own polling timers.
+  // hasNewMessages is false when only delivery statuses changed.
+  onMessagesUpdated(listener: (hasNewMessages: boolean) => void): () => void {
+    this.updateListeners.add(listener);
+    return () => {
+      this.updateListeners.delete(listener);
+    };
+  }
+
+  private notifyMessagesUpdated(hasNewMessages: boolean): void {
+    this.updateListeners.forEach(listener => listener(hasNewMessages));
+  }
+
+  // Pictures sent by family arrive as media sub-resources of the message
+  private async fetchMessageMedia(phoneNumber: string, messageId: string, messageSid: string): Promise<void> {
+    if (!this.config) return;
+
+    try {
+      const provider = this.getProvider();
+      const remoteMedia = await provider.listMessageMedia(this.config, messageSid);
+      const media = [];
+      for (const item of remoteMedia) {
+        media.push(await MediaCacheService.cacheMedia(provider, this.config, item));
+      }
+      await MessageService.attachMedia(phoneNumber, messageId, media);
+    } catch (error) {
+      console.error('Failed to fetch message media:', error);
+    }
+  }
+
   private getPollingInterval(): number {
+    // With push the webhook tells us when to fetch, so the timer only checks delivery statuses
+    if (this.pushAvailable) {
+      return STATUS_CHECK_INTERVAL;
+    }
+
+    // Slow fallback polling for when push notifications aren't available
     switch (this.pollingMode) {
-      case 'conversation': return 5000;   // 3 seconds when actively viewing messages
-      case 'active': return 30000;        // 15 seconds when app open but not viewing messages  
-      case 'background': return 120000;    // 1 minute when backgrounded
+      case 'conversation': return 30000;   // 30 seconds when actively viewing messages
+      case 'active': return 60000;         // 1 minute when app open but not viewing messages
+      case 'background': return 300000;    // 5 minutes when backgrounded
     }
   }
 
@@ -213,10 +569,31 @@ class TwilioService {
     }
     
     this.pollingInterval = setInterval(async () => {
-      await this.fetchRecentMessages();
+      if (!this.pushAvailable) {
+        await this.fetchRecentMessages();
+      }
+      if (Date.now() - this.lastStatusCheck >= STATUS_CHECK_INTERVAL) {
+        await this.checkDeliveryStatuses();
+        await this.checkCallDetails();
+      }
     }, this.getPollingInterval());
   }
 
+  // Called once we know whether this device can receive the webhook's refresh pushes
+  setPushAvailable(available: boolean): void {
+    if (this.pushAvailable !== available) {
+      this.pushAvailable = available;
+      console.log(available ? 'Push available - polling only for delivery statuses' : 'Push unavailable - falling back to slow polling');
+      if (this.pollingInterval) {
+        this.restartPolling();
+      }
+    }
+  }
+
+  isPushAvailable(): boolean {
+    return this.pushAvailable;
+  }
+
   startMessagePolling(): void {
     if (this.pollingInterval) return;
     
@@ -246,12 +623,7 @@ class TwilioService {
     }
   }
 
-  // Expose normalize function for external use
-  normalizePhoneNumber(phoneNumber: string): string {
-    return normalizePhoneNumber(phoneNumber);
-  }
-
-  async makeCall(to: string): Promise<boolean> {
+  async makeCall(to: string, contactId: string = UNKNOWN_CONTACT_ID): Promise<boolean> {
     if (!this.config) {
       throw new Error('Twilio not configured. Please add your credentials in settings.');
     }
@@ -260,38 +632,176 @@ class TwilioService {
       throw new Error('Your phone number not configured. Please add it in Twilio settings.');
     }
 
+    const call = {
+      contactId,
+      phoneNumber: normalizePhoneNumber(to),
+      direction: 'outgoing' as const,
+      timestamp: Date.now(),
+    };
+
+    try {
+      const callSid = await this.getProvider().placeBridgedCall(this.config, to);
+      await CallLogService.addCall({ ...call, outcome: 'in-progress', providerSid: callSid });
+      return true;
+    } catch (error) {
+      console.error('Call Error:', error);
+      await CallLogService.addCall({ ...call, outcome: 'failed' });
+      throw error;
+    }
+  }
+
+  // Real voicemail needs the webhook server to serve the greeting and file the recording
+  canRecordVoicemail(): boolean {
+    return !!this.config?.userPhoneNumber && ServerClient.isConfigured(this.config);
+  }
+
+  // Instead of the blocked call, ring the user so they can leave `contact` a voicemail.
+  // Returns the call SID the recording will be filed under.
+  async startVoicemailCall(contact: Contact): Promise<string> {
+    if (!this.config || !this.canRecordVoicemail()) {
+      throw new Error('Webhook server not configured. Please add it in Twilio settings to record voicemails.');
+    }
+
+    return this.getProvider().placeVoicemailCall(this.config, ServerClient.voicemailTwimlUrl(this.config, contact));
+  }
+
+  // Pull recorded voicemails from the webhook server onto their blocked calls.
+  // Returns how many blocked calls got a new recording.
+  async syncVoicemails(): Promise<number> {
+    if (!this.config || !ServerClient.isConfigured(this.config)) {
+      return 0;
+    }
+
     try {
-      const auth = btoa(`${this.config.accountSid}:${this.config.authToken}`);
-      
-      // Simple approach: Call contact, when they answer, connect to user
-      // Both sides see Twilio number as caller ID
-      const response = await fetch(
-        `https://api.twilio.com/2010-04-01/Accounts/${this.config.accountSid}/Calls.json`,
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': `Basic ${auth}`,
-            'Content-Type': 'application/x-www-form-urlencoded',
-          },
-          body: new URLSearchParams({
-            From: this.config.phoneNumber, // Twilio number (what contact sees)
-            To: to, // Contact's number
-            // When contact answers, dial the user's phone
-            Twiml: `<Response><Dial>${this.config.userPhoneNumber}</Dial></Response>`,
-          }).toString(),
+      const frequencyTracker = FrequencyTracker.getInstance();
+      await frequencyTracker.loadRecords();
+
+      const voicemails = await ServerClient.listVoicemails(this.config);
+      let attached = 0;
+      for (const voicemail of voicemails) {
+        if (await frequencyTracker.attachVoicemail(voicemail.callSid, voicemail.recordingUrl, voicemail.durationSeconds)) {
+          attached++;
         }
-      );
+      }
 
-      if (response.ok) {
-        return true;
-      } else {
-        const error = await response.json();
-        throw new Error(error.message || 'Failed to make call');
+      if (attached > 0) {
+        console.log(`📼 Attached ${attached} new voicemail(s)`);
       }
+      return attached;
     } catch (error) {
-      console.error('Call Error:', error);
-      throw error;
+      console.error('Error syncing voicemails:', error);
+      return 0;
+    }
+  }
+
+  // Send the current contacts and call limits to the webhook server so it can decide
+  // which inbound calls to forward to the user's phone
+  async syncCallRouting(): Promise<void> {
+    if (!this.config || !ServerClient.isConfigured(this.config)) {
+      return;
+    }
+
+    try {
+      const contactsString = await SecureStorage.getItem('selected_contacts');
+      const contacts: Contact[] = contactsString ? JSON.parse(contactsString) : [];
+
+      await ServerClient.saveCallRouting(this.config, {
+        userPhoneNumber: this.config.userPhoneNumber,
+        unknownCallers: this.config.unknownCallers || 'reject',
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        contacts: contacts.map(contact => ({
+          id: contact.id,
+          phoneNumbers: ContactResolver.getContactNumbers(contact),
+          calls: contact.frequencySettings?.calls,
+          voicemailAllowed: contact.frequencySettings?.voicemailAllowed,
+          quietHours: contact.frequencySettings?.quietHours,
+        })),
+      });
+      console.log(`📇 Call routing synced for ${contacts.length} contacts`);
+    } catch (error) {
+      console.error('Error syncing call routing:', error);
+    }
+  }
+
+  // Log every call that came in to the Twilio number, and put the ones the webhook server
+  // didn't put through (unknown callers, over the limit) on the blocked list for the
+  // caregiver. Returns how many blocked calls were new.
+  async syncIncomingCalls(): Promise<number> {
+    if (!this.config || !ServerClient.isConfigured(this.config)) {
+      return 0;
+    }
+
+    try {
+      // Look back a day so forwarded calls that have since ended get their final status
+      const syncedAt = parseInt(await SecureStorage.getItem('incoming_calls_synced_at') || '0', 10);
+      const calls = await ServerClient.listCalls(this.config, Math.max(0, syncedAt - CALL_CHECK_MAX_AGE));
+
+      const frequencyTracker = FrequencyTracker.getInstance();
+      await frequencyTracker.loadRecords();
+      await CallLogService.loadCalls();
+
+      let added = 0;
+      for (const call of calls) {
+        const ended = call.outcome === 'forwarded' && call.status ? {
+          outcome: call.status === 'completed' ? 'completed' as const : 'missed' as const,
+          durationSeconds: call.durationSeconds || 0,
+        } : null;
+
+        const existing = CallLogService.findByProviderSid(call.callSid);
+        if (existing) {
+          if (existing.outcome === 'in-progress' && ended) {
+            await CallLogService.updateCall(existing.id, ended);
+          }
+          continue;
+        }
+
+        await CallLogService.addCall({
+          contactId: call.contactId || UNKNOWN_CONTACT_ID,
+          phoneNumber: call.from,
+          direction: 'incoming',
+          outcome: call.outcome === 'forwarded' ? 'in-progress' : call.outcome === 'voicemail' ? 'voicemail' : 'blocked',
+          timestamp: call.startedAt,
+          providerSid: call.callSid,
+          reason: call.reason || undefined,
+          ...ended,
+        });
+
+        if (call.outcome === 'forwarded') continue;
+
+        const stored = await frequencyTracker.storeBlockedIncomingCall({
+          contactId: call.contactId || UNKNOWN_CONTACT_ID,
+          phoneNumber: call.from,
+          timestamp: call.startedAt,
+          callSid: call.callSid,
+          reason: call.reason,
+          wentToVoicemail: call.outcome === 'voicemail',
+        });
+        if (stored) added++;
+      }
+
+      if (calls.length > 0) {
+        const latest = Math.max(...calls.map(call => call.startedAt));
+        await SecureStorage.setItem('incoming_calls_synced_at', String(latest));
+      }
+      return added;
+    } catch (error) {
+      console.error('Error syncing incoming calls:', error);
+      return 0;
+    }
+  }
+
+  // Download a blocked call's voicemail (once) and return the local file to play
+  async getVoicemailAudio(blockedCall: BlockedCall): Promise<string | null> {
+    if (!this.config || !blockedCall.voicemailRecordingUrl) {
+      return null;
     }
+
+    const cached = await MediaCacheService.cacheMedia(this.getProvider(), this.config, {
+      sid: blockedCall.callSid || blockedCall.id,
+      contentType: 'audio/mpeg',
+      url: blockedCall.voicemailRecordingUrl,
+    });
+    return cached.localUri || null;
   }
 }
 
@@ -0,0 +1,62 @@
+import type { TwilioConfig } from '../TwilioService';
+import { TelephonyProvider, InboundMessage, RemoteMedia, SentMessage, DeliveryReport, CallDetails, CredentialCheck } from './TelephonyProvider';
+
+// Offline provider for demos. Nothing leaves the device: every text is reported delivered,
+// every call answered, and no texts ever arrive.
+class StubProvider implements TelephonyProvider {
+  readonly id = 'stub' as const;
+  readonly displayName = 'Demo (offline)';
+  readonly requiresCredentials = false;
+
+  private sequence = 0;
+
+  private nextSid(prefix: string): string {
+    this.sequence++;
+    return `${prefix}stub${Date.now()}${this.sequence}`;
+  }
+
+  async sendMessage(config: TwilioConfig, to: string, body: string, mediaUrls: string[] = []): Promise<SentMessage> {
+    return { sid: this.nextSid('SM'), status: 'delivered' };
+  }
+
+  async getDeliveryReport(config: TwilioConfig, messageSid: string): Promise<DeliveryReport> {
+    return { status: 'delivered' };
+  }
+
+  async uploadMedia(config: TwilioConfig, localUri: string, contentType: string): Promise<string> {
+    return localUri;
+  }
+
+  async listInboundMessages(config: TwilioConfig, since: number): Promise<InboundMessage[]> {
+    return [];
+  }
+
+  async listMessageMedia(config: TwilioConfig, messageSid: string): Promise<RemoteMedia[]> {
+    return [];
+  }
+
+  // Stub media already points at a file or public URL, so there is nothing to download
+  async downloadMedia(config: TwilioConfig, media: RemoteMedia, destinationUri: string): Promise<string> {
+    return media.url;
+  }
+
+  async placeBridgedCall(config: TwilioConfig, to: string): Promise<string> {
+    return this.nextSid('CA');
+  }
+
+  // Pretend every demo call was answered and lasted a minute
+  async getCallDetails(config: TwilioConfig, callSid: string): Promise<CallDetails> {
+    return { outcome: 'completed', durationSeconds: 60 };
+  }
+
+  // No webhook server in demo mode, so nothing gets recorded
+  async placeVoicemailCall(config: TwilioConfig, twimlUrl: string): Promise<string> {
+    return this.nextSid('CA');
+  }
+
+  async validateCredentials(config: TwilioConfig): Promise<CredentialCheck> {
+    return { ok: true, accountName: this.displayName, status: 'active' };
+  }
+}
+
+export default StubProvider;
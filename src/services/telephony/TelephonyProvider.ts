@@ -0,0 +1,84 @@
+import type { TwilioConfig } from '../TwilioService';
+import type { DeliveryStatus } from '../../types/Message';
+
+export type TelephonyProviderId = 'twilio' | 'stub';
+
+// An inbound text as reported by the carrier, already filtered to messages sent to our number
+export interface InboundMessage {
+  sid: string;
+  from: string;
+  to: string;
+  body: string;
+  dateSent: number;
+  numMedia: number;
+}
+
+// A picture or other attachment on an inbound message
+export interface RemoteMedia {
+  sid: string;
+  contentType: string;
+  url: string;
+}
+
+export interface SentMessage {
+  sid: string;
+  status: DeliveryStatus;
+}
+
+// Why the carrier refused a text outright. Retrying won't help with any of these.
+export type SendFailureReason = 'invalid-number' | 'unverified-recipient' | 'auth' | 'rejected';
+
+// Thrown by sendMessage when the carrier refuses the text for good. Anything else it throws
+// (no signal, a timeout, the carrier being down) is worth retrying.
+export class PermanentSendError extends Error {
+  constructor(message: string, readonly reason: SendFailureReason, readonly errorCode?: number) {
+    super(message);
+    this.name = 'PermanentSendError';
+  }
+}
+
+export interface DeliveryReport {
+  status: DeliveryStatus;
+  errorCode?: number;
+}
+
+// How a call ended, once the carrier knows. Duration is 0 for calls that never connected.
+export interface CallDetails {
+  outcome: 'in-progress' | 'completed' | 'missed' | 'failed';
+  durationSeconds: number;
+}
+
+export interface CredentialCheck {
+  ok: boolean;
+  accountName?: string;
+  status?: string;
+  error?: string;
+  authMethod?: 'auth-token' | 'api-key';
+  isSubaccount?: boolean;
+  // Things that work but leave more exposed than needed if the phone is lost
+  warnings?: string[];
+}
+
+// Everything TwilioService needs from a carrier API. Implementations must not touch
+// MessageService or local storage - they only talk to the carrier.
+export interface TelephonyProvider {
+  readonly id: TelephonyProviderId;
+  readonly displayName: string;
+  // Whether the provider needs an Account SID and Auth Token or API key to work
+  readonly requiresCredentials: boolean;
+
+  sendMessage(config: TwilioConfig, to: string, body: string, mediaUrls?: string[]): Promise<SentMessage>;
+  getDeliveryReport(config: TwilioConfig, messageSid: string): Promise<DeliveryReport>;
+  // Make a local photo reachable by the carrier and return the URL to pass as media
+  uploadMedia(config: TwilioConfig, localUri: string, contentType: string): Promise<string>;
+  listInboundMessages(config: TwilioConfig, since: number): Promise<InboundMessage[]>;
+  listMessageMedia(config: TwilioConfig, messageSid: string): Promise<RemoteMedia[]>;
+  // Download an attachment to a local file and return the local URI
+  downloadMedia(config: TwilioConfig, media: RemoteMedia, destinationUri: string): Promise<string>;
+  // Call `to`, and when they answer connect them to config.userPhoneNumber. Returns the call SID.
+  placeBridgedCall(config: TwilioConfig, to: string): Promise<string>;
+  getCallDetails(config: TwilioConfig, callSid: string): Promise<CallDetails>;
+  // Call config.userPhoneNumber and let the TwiML at twimlUrl record a voicemail. Returns the call SID.
+  placeVoicemailCall(config: TwilioConfig, twimlUrl: string): Promise<string>;
+  validateCredentials(config: TwilioConfig): Promise<CredentialCheck>;
+}
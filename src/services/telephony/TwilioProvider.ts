@@ -0,0 +1,313 @@
+import * as FileSystem from 'expo-file-system';
+import type { TwilioConfig } from '../TwilioService';
+import ServerClient from '../ServerClient';
+import type { DeliveryStatus } from '../../types/Message';
+import { TelephonyProvider, InboundMessage, RemoteMedia, SentMessage, DeliveryReport, CallDetails, CredentialCheck, PermanentSendError, SendFailureReason } from './TelephonyProvider';
+
+const API_HOST = 'https://api.twilio.com';
+const API_BASE = `${API_HOST}/2010-04-01`;
+
+// Collapse Twilio's message statuses into the ones the app shows
+function toDeliveryStatus(twilioStatus: string): DeliveryStatus {
+  switch (twilioStatus) {
+    case 'sent': return 'sent';
+    case 'delivered':
+    case 'read': return 'delivered';
+    case 'undelivered': return 'undelivered';
+    case 'failed':
+    case 'canceled': return 'failed';
+    default: return 'queued'; // accepted, scheduled, queued, sending
+  }
+}
+
+// Twilio error codes for texts that will never go through as they are
+const SEND_FAILURE_CODES: Record<number, SendFailureReason> = {
+  20003: 'auth', // Authentication failed
+  21211: 'invalid-number', // Invalid 'To' number
+  21612: 'invalid-number', // Can't route to this number
+  21614: 'invalid-number', // Not a mobile number
+  21608: 'unverified-recipient', // Trial accounts can only text verified numbers
+};
+
+// Twilio call statuses: queued, ringing, in-progress, completed, busy, no-answer, canceled, failed
+function toCallOutcome(twilioStatus: string): CallDetails['outcome'] {
+  switch (twilioStatus) {
+    case 'completed': return 'completed';
+    case 'busy':
+    case 'no-answer':
+    case 'canceled': return 'missed';
+    case 'failed': return 'failed';
+    default: return 'in-progress';
+  }
+}
+
+class TwilioProvider implements TelephonyProvider {
+  readonly id = 'twilio' as const;
+  readonly displayName = 'Twilio';
+  readonly requiresCredentials = true;
+
+  // API keys sign in as themselves; requests still go to the account (or subaccount) URL
+  private authHeader(config: TwilioConfig): string {
+    if (config.apiKeySid && config.apiKeySecret) {
+      return `Basic ${btoa(`${config.apiKeySid}:${config.apiKeySecret}`)}`;
+    }
+    return `Basic ${btoa(`${config.accountSid}:${config.authToken}`)}`;
+  }
+
+  private accountUrl(config: TwilioConfig, resource: string): string {
+    return `${API_BASE}/Accounts/${config.accountSid}/${resource}`;
+  }
+
+  async sendMessage(config: TwilioConfig, to: string, body: string, mediaUrls: string[] = []): Promise<SentMessage> {
+    const params = new URLSearchParams({
+      From: config.phoneNumber,
+      To: to,
+      Body: body,
+    });
+    mediaUrls.forEach(url => params.append('MediaUrl', url));
+
+    const response = await fetch(this.accountUrl(config, 'Messages.json'), {
+      method: 'POST',
+      headers: {
+        'Authorization': this.authHeader(config),
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: params.toString(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      const message = error.message || 'Failed to send SMS';
+      const reason = SEND_FAILURE_CODES[error.code]
+        || (response.status === 401 ? 'auth' : null)
+        // Other 4xx errors are about the request itself; rate limits and timeouts pass
+        || (response.status >= 400 && response.status < 500 && response.status !== 408 && response.status !== 429 ? 'rejected' : null);
+      if (reason) {
+        throw new PermanentSendError(message, reason, error.code);
+      }
+      throw new Error(message);
+    }
+
+    const data = await response.json();
+    return { sid: data.sid, status: toDeliveryStatus(data.status) };
+  }
+
+  async getDeliveryReport(config: TwilioConfig, messageSid: string): Promise<DeliveryReport> {
+    const response = await fetch(this.accountUrl(config, `Messages/${messageSid}.json`), {
+      headers: {
+        'Authorization': this.authHeader(config),
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Twilio API error ${response.status}: ${errorText}`);
+    }
+
+    const data = await response.json();
+    return {
+      status: toDeliveryStatus(data.status),
+      errorCode: data.error_code ?? undefined,
+    };
+  }
+
+  // Twilio has to download the photo itself, so it goes through our webhook server first
+  async uploadMedia(config: TwilioConfig, localUri: string, contentType: string): Promise<string> {
+    return ServerClient.uploadMedia(config, localUri, contentType);
+  }
+
+  async listInboundMessages(config: TwilioConfig, since: number): Promise<InboundMessage[]> {
+    const params = new URLSearchParams({
+      'DateSent>=': new Date(since).toISOString(),
+      'To': config.phoneNumber
+    });
+
+    const response = await fetch(`${this.accountUrl(config, 'Messages.json')}?${params.toString()}`, {
+      headers: {
+        'Authorization': this.authHeader(config),
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Twilio API error ${response.status}: ${errorText}`);
+    }
+
+    const data = await response.json();
+
+    // Handle case where messages might be undefined
+    if (!data || !Array.isArray(data.messages)) {
+      console.log('No messages array in response:', data);
+      return [];
+    }
+
+    return data.messages
+      .filter((msg: any) => msg && msg.direction === 'inbound')
+      .map((msg: any): InboundMessage => ({
+        sid: msg.sid,
+        from: msg.from,
+        to: msg.to,
+        body: msg.body || '',
+        dateSent: new Date(msg.date_sent).getTime(),
+        numMedia: parseInt(msg.num_media, 10) || 0,
+      }));
+  }
+
+  async listMessageMedia(config: TwilioConfig, messageSid: string): Promise<RemoteMedia[]> {
+    const response = await fetch(this.accountUrl(config, `Messages/${messageSid}/Media.json`), {
+      headers: {
+        'Authorization': this.authHeader(config),
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Twilio API error ${response.status}: ${errorText}`);
+    }
+
+    const data = await response.json();
+    if (!data || !Array.isArray(data.media_list)) {
+      return [];
+    }
+
+    // The media resource URI without .json redirects to the file itself
+    return data.media_list.map((media: any): RemoteMedia => ({
+      sid: media.sid,
+      contentType: media.content_type,
+      url: `${API_HOST}${media.uri.replace(/\.json$/, '')}`,
+    }));
+  }
+
+  async downloadMedia(config: TwilioConfig, media: RemoteMedia, destinationUri: string): Promise<string> {
+    const result = await FileSystem.downloadAsync(media.url, destinationUri, {
+      headers: {
+        'Authorization': this.authHeader(config),
+      },
+    });
+
+    if (result.status !== 200) {
+      throw new Error(`Media download failed with status ${result.status}`);
+    }
+    return result.uri;
+  }
+
+  async placeBridgedCall(config: TwilioConfig, to: string): Promise<string> {
+    // Simple approach: Call contact, when they answer, connect to user
+    // Both sides see Twilio number as caller ID
+    const response = await fetch(this.accountUrl(config, 'Calls.json'), {
+      method: 'POST',
+      headers: {
+        'Authorization': this.authHeader(config),
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        From: config.phoneNumber, // Twilio number (what contact sees)
+        To: to, // Contact's number
+        // When contact answers, dial the user's phone
+        Twiml: `<Response><Dial>${config.userPhoneNumber}</Dial></Response>`,
+      }).toString(),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.message || 'Failed to make call');
+    }
+    return data.sid;
+  }
+
+  async getCallDetails(config: TwilioConfig, callSid: string): Promise<CallDetails> {
+    const response = await fetch(this.accountUrl(config, `Calls/${callSid}.json`), {
+      headers: {
+        'Authorization': this.authHeader(config),
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Twilio API error ${response.status}: ${errorText}`);
+    }
+
+    const data = await response.json();
+    return {
+      outcome: toCallOutcome(data.status),
+      durationSeconds: parseInt(data.duration, 10) || 0,
+    };
+  }
+
+  async placeVoicemailCall(config: TwilioConfig, twimlUrl: string): Promise<string> {
+    // Ring the user from the Twilio number; our webhook server plays the greeting and records
+    const response = await fetch(this.accountUrl(config, 'Calls.json'), {
+      method: 'POST',
+      headers: {
+        'Authorization': this.authHeader(config),
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        From: config.phoneNumber,
+        To: config.userPhoneNumber,
+        Url: twimlUrl,
+      }).toString(),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.message || 'Failed to start voicemail call');
+    }
+    return data.sid;
+  }
+
+  async validateCredentials(config: TwilioConfig): Promise<CredentialCheck> {
+    const authMethod = config.apiKeySid ? 'api-key' : 'auth-token';
+    const get = (url: string) => fetch(url, { headers: { 'Authorization': this.authHeader(config) } });
+
+    // The number has to belong to this account - a key for a different subaccount can't use it
+    const numbersResponse = await get(this.accountUrl(config, `IncomingPhoneNumbers.json?PhoneNumber=${encodeURIComponent(config.phoneNumber)}`));
+    const numbers = await numbersResponse.json();
+    if (!numbersResponse.ok) {
+      return { ok: false, authMethod, error: numbers.message || 'Invalid credentials' };
+    }
+    if (!numbers.incoming_phone_numbers?.length) {
+      return {
+        ok: false,
+        authMethod,
+        error: `${config.phoneNumber} isn't on account ${config.accountSid}. If the number is on a subaccount, use the subaccount's SID.`,
+      };
+    }
+
+    // Everything the app does day to day
+    for (const [resource, purpose] of [['Messages.json?PageSize=1', 'texts'], ['Calls.json?PageSize=1', 'calls']]) {
+      const response = await get(this.accountUrl(config, resource));
+      if (!response.ok) {
+        const data = await response.json();
+        return { ok: false, authMethod, error: `These credentials can't read ${purpose}: ${data.message || response.status}` };
+      }
+    }
+
+    const warnings: string[] = [];
+    let accountName = config.accountSid;
+    let status: string | undefined;
+    let isSubaccount: boolean | undefined;
+
+    // Standard keys aren't allowed to read the account itself, so this part is best effort
+    const accountResponse = await get(`${API_BASE}/Accounts/${config.accountSid}.json`);
+    if (accountResponse.ok) {
+      const account = await accountResponse.json();
+      accountName = account.friendly_name || account.sid;
+      status = account.status;
+      isSubaccount = !!account.owner_account_sid && account.owner_account_sid !== account.sid;
+    }
+
+    if (authMethod === 'auth-token') {
+      warnings.push('This phone holds the account Auth Token. An API key can be revoked on its own if the phone is lost.');
+    } else if ((await get(this.accountUrl(config, 'Keys.json?PageSize=1'))).ok) {
+      warnings.push('This is a Main API key, which can create and delete other keys. A Standard key is all this phone needs.');
+    }
+    if (isSubaccount === false) {
+      warnings.push('These credentials are for the main Twilio account. A subaccount keeps this phone away from your other numbers.');
+    }
+
+    return { ok: true, accountName, status, authMethod, isSubaccount, warnings };
+  }
+}
+
+export default TwilioProvider;
@@ -0,0 +1,23 @@
+import { TelephonyProvider, TelephonyProviderId } from './TelephonyProvider';
+import TwilioProvider from './TwilioProvider';
+import StubProvider from './StubProvider';
+
+export const twilioProvider = new TwilioProvider();
+export const stubProvider = new StubProvider();
+
+const providers: Record<TelephonyProviderId, TelephonyProvider> = {
+  twilio: twilioProvider,
+  stub: stubProvider,
+};
+
+export function getTelephonyProvider(id: TelephonyProviderId = 'twilio'): TelephonyProvider {
+  return providers[id] || twilioProvider;
+}
+
+export function getAvailableProviders(): TelephonyProvider[] {
+  return Object.values(providers);
+}
+
+export { PermanentSendError } from './TelephonyProvider';
+export type { TelephonyProvider, TelephonyProviderId };
+export type { InboundMessage, RemoteMedia, SentMessage, DeliveryReport, CallDetails, CredentialCheck, SendFailureReason } from './TelephonyProvider';
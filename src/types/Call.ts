@@ -0,0 +1,17 @@
+export type CallDirection = 'outgoing' | 'incoming';
+
+// 'in-progress' until the carrier reports how the call ended. 'blocked' and 'voicemail'
+// are calls our limits stopped from ringing through.
+export type CallOutcome = 'in-progress' | 'completed' | 'missed' | 'failed' | 'blocked' | 'voicemail';
+
+export interface CallRecord {
+  id: string;
+  contactId: string; // 'unknown' for callers who aren't selected contacts
+  phoneNumber: string;
+  direction: CallDirection;
+  outcome: CallOutcome;
+  timestamp: number;
+  durationSeconds?: number;
+  providerSid?: string; // Carrier call SID, used to look up status and duration
+  reason?: string; // Why a call was blocked, e.g. 'frequency-limit' or 'unknown-caller'
+}
@@ -14,10 +14,19 @@ export interface ContactFrequencySettings {
   };
 }
 
+export type PhoneNumberLabel = 'mobile' | 'home' | 'work' | 'other';
+
+export interface ContactPhoneNumber {
+  label: PhoneNumberLabel;
+  number: string;
+}
+
 export interface Contact {
   id: string;
   name: string;
-  phoneNumber: string;
+  phoneNumber: string; // Number texts go to
+  phoneNumbers?: ContactPhoneNumber[]; // Every number the contact has in the address book
+  callNumber?: string; // Number calls go to, when it isn't phoneNumber
   birthdate: string;
   photoUri?: string;
   frequencySettings?: ContactFrequencySettings;
@@ -1,3 +1,22 @@
+export interface MessageMedia {
+  sid: string;
+  contentType: string;
+  remoteUrl: string;
+  localUri?: string; // Set once the file has been downloaded to the media cache
+}
+
+// Carrier delivery states we track for sent messages. 'sending' means we haven't
+// handed the message to the carrier yet.
+export type DeliveryStatus = 'sending' | 'queued' | 'sent' | 'delivered' | 'undelivered' | 'failed';
+
+// Result of the local scam check on a received text. 'high' risk texts are hidden from
+// the user; 'caution' ones are shown with a warning.
+export interface MessageRisk {
+  level: 'caution' | 'high';
+  score: number;
+  reasons: string[];
+}
+
 export interface Message {
   id: string;
   contactId: string;
@@ -5,8 +24,13 @@ export interface Message {
   text: string;
   timestamp: number;
   type: 'sent' | 'received';
-  status?: 'sending' | 'sent' | 'failed';
+  status?: DeliveryStatus;
+  providerSid?: string; // Carrier message SID, used to look up delivery status
+  statusUpdatedAt?: number;
+  errorCode?: number; // Carrier error code for undelivered/failed messages
   isVisible?: boolean; // False for caregiver notifications, system messages, etc.
+  media?: MessageMedia[];
+  risk?: MessageRisk;
 }
 
 export interface Conversation {
@@ -15,4 +39,4 @@ export interface Conversation {
   messages: Message[];
   lastMessage?: Message;
   unreadCount: number;
-}
\ No newline at end of file
+}
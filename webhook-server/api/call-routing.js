@@ -0,0 +1,40 @@
+// Call Routing Endpoint
+// The app reports its contacts, call limits and the user's real phone number so inbound
+// calls to its Twilio number can be forwarded without asking the device.
+
+import { isAuthorizedApp, isNumberOwner, NOT_NUMBER_OWNER } from '../lib/appAuth.js';
+import { saveCallRouting } from '../lib/callRouting.js';
+
+export default async function handler(req, res) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isAuthorizedApp(req)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const { twilioNumber, userPhoneNumber, unknownCallers, timeZone, contacts } = req.body || {};
+  if (!twilioNumber || !Array.isArray(contacts)) {
+    return res.status(400).json({ error: 'twilioNumber and contacts are required' });
+  }
+
+  try {
+    if (!(await isNumberOwner(req, twilioNumber))) {
+      return res.status(403).json(NOT_NUMBER_OWNER);
+    }
+    await saveCallRouting(twilioNumber, {
+      userPhoneNumber: userPhoneNumber || null,
+      unknownCallers: unknownCallers === 'voicemail' ? 'voicemail' : 'reject',
+      timeZone: timeZone || 'UTC',
+      contacts,
+    });
+
+    console.log('✅ Call routing updated:', { twilioNumber, contacts: contacts.length });
+    res.status(200).json({ status: 'saved' });
+
+  } catch (error) {
+    console.error('❌ Call routing error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,31 @@
+// Call History Endpoint
+// Lets the app fetch calls that came in to its Twilio number.
+
+import { isAuthorizedApp, isNumberOwner, NOT_NUMBER_OWNER } from '../lib/appAuth.js';
+import { listCalls } from '../lib/callLog.js';
+
+export default async function handler(req, res) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isAuthorizedApp(req)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const { twilioNumber, since } = req.query || {};
+  if (!twilioNumber) {
+    return res.status(400).json({ error: 'twilioNumber is required' });
+  }
+
+  try {
+    if (!(await isNumberOwner(req, twilioNumber))) {
+      return res.status(403).json(NOT_NUMBER_OWNER);
+    }
+    const calls = await listCalls(twilioNumber, parseInt(since, 10) || 0);
+    res.status(200).json({ calls });
+  } catch (error) {
+    console.error('❌ Call history error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
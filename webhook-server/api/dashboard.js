@@ -0,0 +1,121 @@
+// Caregiver Dashboard
+// A small web page where the caregiver can check on the phone from anywhere: when it last
+// checked in, battery and connection, blocked-communication counts and alert status.
+// Limit changes and alert resets made here go into the phone's change log and are picked
+// up through /api/sync. Sign in with DASHBOARD_PASSWORD.
+
+import { isDashboardConfigured, checkPassword, createSessionCookie, clearSessionCookie, hasValidSession } from '../lib/dashboardAuth.js';
+import { listDevices } from '../lib/deviceStatus.js';
+import { queueRemoteChange } from '../lib/sync.js';
+import { unregisterPushToken } from '../lib/pushTokens.js';
+import { releaseNumber } from '../lib/numberOwners.js';
+import { renderLogin, renderDashboard } from '../lib/dashboardPage.js';
+
+const NOTICES = {
+  limits: '✅ Saved. The new limits will reach the phone the next time it checks in.',
+  alerts: '✅ Alerts will be reset the next time the phone checks in.',
+  released: '✅ Released. The next phone to open the app with this number will take it over.',
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function sendHtml(res, status, html) {
+  res.setHeader('Content-Type', 'text/html; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-store');
+  res.setHeader('X-Frame-Options', 'DENY');
+  res.setHeader('Content-Security-Policy', "default-src 'none'; style-src 'unsafe-inline'; form-action 'self'");
+  res.status(status).send(html);
+}
+
+function redirect(res, location) {
+  res.setHeader('Location', location);
+  res.status(303).end();
+}
+
+function readLimit(body, prefix) {
+  const perHour = parseInt(body[`${prefix}PerHour`], 10);
+  const perDay = parseInt(body[`${prefix}PerDay`], 10);
+  if (!(perHour >= 1) || !(perDay >= 1)) return null;
+  return { enabled: body[`${prefix}Enabled`] === 'on', maxPerHour: perHour, maxPerDay: Math.max(perDay, perHour) };
+}
+
+export default async function handler(req, res) {
+  if (!isDashboardConfigured()) {
+    return sendHtml(res, 503, renderLogin('The dashboard is turned off. Set DASHBOARD_PASSWORD on the server to use it.'));
+  }
+
+  if (req.method === 'GET') {
+    if (!hasValidSession(req)) {
+      return sendHtml(res, 200, renderLogin());
+    }
+    try {
+      return sendHtml(res, 200, renderDashboard(await listDevices(), NOTICES[req.query?.done]));
+    } catch (error) {
+      console.error('❌ Dashboard error:', error);
+      return sendHtml(res, 500, renderLogin('Something went wrong loading the dashboard. Please try again.'));
+    }
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const body = req.body || {};
+
+  if (body.action === 'login') {
+    const result = await checkPassword(req, body.password);
+    if (result !== 'ok') {
+      console.log('🚫 Dashboard sign-in failed:', result);
+      return sendHtml(res, 401, renderLogin(result === 'locked'
+        ? 'Too many wrong passwords. Please wait 15 minutes.'
+        : 'Wrong password.'));
+    }
+    res.setHeader('Set-Cookie', createSessionCookie());
+    return redirect(res, '/api/dashboard');
+  }
+
+  if (!hasValidSession(req)) {
+    return sendHtml(res, 401, renderLogin('Please sign in again.'));
+  }
+
+  try {
+    switch (body.action) {
+      case 'logout':
+        res.setHeader('Set-Cookie', clearSessionCookie());
+        return redirect(res, '/api/dashboard');
+
+      case 'reset-alerts':
+        if (!body.twilioNumber) break;
+        await queueRemoteChange(body.twilioNumber, { type: 'reset-alerts' });
+        console.log('📊 Dashboard queued alert reset:', { twilioNumber: body.twilioNumber });
+        return redirect(res, '/api/dashboard?done=alerts');
+
+      case 'release-number':
+        if (!body.twilioNumber) break;
+        await releaseNumber(body.twilioNumber);
+        await unregisterPushToken(body.twilioNumber);
+        console.log('📊 Dashboard released number:', { twilioNumber: body.twilioNumber });
+        return redirect(res, '/api/dashboard?done=released');
+
+      case 'set-limits': {
+        const texts = readLimit(body, 'texts');
+        const calls = readLimit(body, 'calls');
+        const quietHours = TIME_PATTERN.test(body.quietStart || '') && TIME_PATTERN.test(body.quietEnd || '')
+          ? { start: body.quietStart, end: body.quietEnd }
+          : null;
+        // The version of the limits the caregiver was looking at, so the phone can spot edits made there meanwhile
+        const baseVersion = parseInt(body.baseVersion, 10);
+        if (!body.twilioNumber || !body.contactId || !texts || !calls || !(baseVersion >= 1)) break;
+
+        await queueRemoteChange(body.twilioNumber, { type: 'contact-limits', contactId: body.contactId, baseVersion, texts, calls, quietHours });
+        console.log('📊 Dashboard queued limit change:', { twilioNumber: body.twilioNumber, contactId: body.contactId });
+        return redirect(res, '/api/dashboard?done=limits');
+      }
+    }
+
+    return sendHtml(res, 400, renderDashboard(await listDevices(), 'That change could not be saved - please check the numbers and try again.'));
+  } catch (error) {
+    console.error('❌ Dashboard error:', error);
+    return sendHtml(res, 500, renderLogin('Something went wrong. Please try again.'));
+  }
+}
@@ -0,0 +1,35 @@
+// Device Status Endpoint
+// The app reports its health and blocked-communication counts for the caregiver dashboard.
+// Settings and the caregiver's changes to them go through /api/sync.
+
+import { isAuthorizedApp, isNumberOwner, NOT_NUMBER_OWNER } from '../lib/appAuth.js';
+import { saveDeviceStatus } from '../lib/deviceStatus.js';
+
+export default async function handler(req, res) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isAuthorizedApp(req)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const { twilioNumber, status } = req.body || {};
+  if (!twilioNumber || !status || typeof status !== 'object') {
+    return res.status(400).json({ error: 'twilioNumber and status are required' });
+  }
+
+  try {
+    if (!(await isNumberOwner(req, twilioNumber))) {
+      return res.status(403).json(NOT_NUMBER_OWNER);
+    }
+    await saveDeviceStatus(twilioNumber, status);
+
+    console.log('📊 Device status received:', { twilioNumber });
+    res.status(200).json({ success: true });
+
+  } catch (error) {
+    console.error('❌ Device status error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,107 @@
+// MMS Media Upload Endpoint
+// Twilio can only attach pictures that it can download from a public URL, so the app
+// uploads the photo here first and sends the returned URL as the MediaUrl.
+//
+// Twilio downloads the photo when the message is sent, seconds after the upload, so the
+// public copy is only kept for a short while. Old uploads are deleted on every upload and
+// by the daily cron in vercel.json, which calls GET with CRON_SECRET.
+
+import { put, list, del } from '@vercel/blob';
+import { isAuthorizedApp } from '../lib/appAuth.js';
+import { readRawBody } from '../lib/http.js';
+
+// Twilio accepts up to 5MB of media per message
+const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+const MEDIA_LIFETIME = 60 * 60 * 1000;
+const MEDIA_PREFIX = 'mms/';
+
+const EXTENSIONS = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+};
+
+// Returns how many photos were deleted
+async function deleteExpiredMedia() {
+  const cutoff = Date.now() - MEDIA_LIFETIME;
+  let deleted = 0;
+  let cursor;
+
+  do {
+    const page = await list({ prefix: MEDIA_PREFIX, cursor });
+    const expired = page.blobs
+      .filter(blob => new Date(blob.uploadedAt).getTime() < cutoff)
+      .map(blob => blob.url);
+    if (expired.length > 0) {
+      await del(expired);
+      deleted += expired.length;
+    }
+    cursor = page.hasMore ? page.cursor : undefined;
+  } while (cursor);
+
+  return deleted;
+}
+
+function isCronRequest(req) {
+  const secret = process.env.CRON_SECRET;
+  return !!secret && req.headers['authorization'] === `Bearer ${secret}`;
+}
+
+export default async function handler(req, res) {
+  if (req.method === 'GET') {
+    if (!isCronRequest(req)) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    try {
+      const deleted = await deleteExpiredMedia();
+      console.log('🧹 Expired media deleted:', { deleted });
+      return res.status(200).json({ deleted });
+    } catch (error) {
+      console.error('❌ Media cleanup error:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isAuthorizedApp(req)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const contentType = (req.headers['content-type'] || '').split(';')[0].trim();
+  const extension = EXTENSIONS[contentType];
+  if (!extension) {
+    return res.status(415).json({ error: `Unsupported media type: ${contentType}` });
+  }
+
+  try {
+    const body = await readRawBody(req, MAX_UPLOAD_BYTES);
+    if (body.length === 0) {
+      return res.status(400).json({ error: 'Empty upload' });
+    }
+
+    const filename = `${MEDIA_PREFIX}${Date.now()}-${Math.random().toString(36).substr(2, 9)}.${extension}`;
+    const blob = await put(filename, body, { access: 'public', contentType });
+
+    console.log('🖼️ Media uploaded:', { size: body.length, contentType });
+
+    // Done before responding, since the function may be stopped once it has. A failed
+    // cleanup mustn't fail the upload - it's retried next time.
+    try {
+      await deleteExpiredMedia();
+    } catch (error) {
+      console.error('❌ Media cleanup error:', error);
+    }
+
+    res.status(201).json({ url: blob.url });
+
+  } catch (error) {
+    if (error.message === 'Request body too large') {
+      return res.status(413).json({ error: 'Photo is too large (5MB max)' });
+    }
+    console.error('❌ Media upload error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,51 @@
+// Recording Status Callback
+// Twilio calls this once a voicemail recorded by /api/voice is ready.
+
+import { verifyTwilioRequest } from '../lib/twilioSignature.js';
+import { addVoicemail } from '../lib/voicemails.js';
+
+export default async function handler(req, res) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const verification = await verifyTwilioRequest(req);
+  if (!verification.ok) {
+    console.log('🚫 Rejected recording callback:', verification.reason);
+    return res.status(verification.status).json({ error: 'Forbidden' });
+  }
+
+  const { twilioNumber, contactId, from } = req.query || {};
+  const {
+    CallSid: callSid,
+    RecordingSid: recordingSid,
+    RecordingUrl: recordingUrl,
+    RecordingDuration: duration,
+    RecordingStatus: status
+  } = req.body;
+
+  if (status !== 'completed' || !twilioNumber) {
+    console.log('⏭️ Recording skipped:', { recordingSid, status });
+    return res.status(200).json({ status: 'ignored' });
+  }
+
+  try {
+    // The recording itself stays in Twilio; the app downloads it with its own credentials
+    await addVoicemail(twilioNumber, {
+      callSid,
+      recordingSid,
+      recordingUrl: `${recordingUrl}.mp3`,
+      durationSeconds: parseInt(duration, 10) || 0,
+      contactId: contactId || null,
+      from: from || null,
+      recordedAt: Date.now(),
+    });
+
+    console.log('📼 Voicemail stored:', { recordingSid, twilioNumber, duration });
+    res.status(200).json({ status: 'stored' });
+
+  } catch (error) {
+    console.error('❌ Recording callback error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,48 @@
+// Push Token Registration Endpoint
+// Each app instance registers its Expo push token against its Twilio number, so one
+// deployment can notify many devices. Only the device the number belongs to can change
+// its registration (see lib/numberOwners.js).
+
+import { isAuthorizedApp, isNumberOwner, NOT_NUMBER_OWNER } from '../lib/appAuth.js';
+import { registerPushToken, unregisterPushToken } from '../lib/pushTokens.js';
+
+const EXPO_TOKEN_PATTERN = /^Expo(nent)?PushToken\[.+\]$/;
+
+export default async function handler(req, res) {
+  if (req.method !== 'POST' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isAuthorizedApp(req)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const { twilioNumber, pushToken } = req.body || {};
+  if (!twilioNumber) {
+    return res.status(400).json({ error: 'twilioNumber is required' });
+  }
+
+  try {
+    if (!(await isNumberOwner(req, twilioNumber))) {
+      return res.status(403).json(NOT_NUMBER_OWNER);
+    }
+
+    if (req.method === 'DELETE') {
+      await unregisterPushToken(twilioNumber);
+      console.log('🗑️ Push token unregistered:', { twilioNumber });
+      return res.status(200).json({ status: 'unregistered' });
+    }
+
+    if (!pushToken || !EXPO_TOKEN_PATTERN.test(pushToken)) {
+      return res.status(400).json({ error: 'A valid Expo pushToken is required' });
+    }
+
+    await registerPushToken(twilioNumber, pushToken);
+    console.log('✅ Push token registered:', { twilioNumber });
+    res.status(200).json({ status: 'registered' });
+
+  } catch (error) {
+    console.error('❌ Registration error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
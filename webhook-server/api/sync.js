@@ -0,0 +1,54 @@
+// Sync Endpoint
+// The app sends its outbox of numbered changes and its cursor into the dashboard's change
+// log, along with what happened to the dashboard edits it received last time. The response
+// says how far its outbox was stored (ackedSeq), which copy it went into (epoch) and carries
+// any newer dashboard edits.
+// See lib/sync.js for the rules.
+
+import { isAuthorizedApp, isNumberOwner, NOT_NUMBER_OWNER } from '../lib/appAuth.js';
+import {
+  SUPPORTED_PROTOCOL_VERSIONS,
+  applyDeviceChanges,
+  recordRemoteResults,
+  getRemoteChanges,
+} from '../lib/sync.js';
+
+// Keeps a single request inside the function time limit; the app sends the rest next round
+const MAX_CHANGES_PER_REQUEST = 200;
+
+export default async function handler(req, res) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isAuthorizedApp(req)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const { protocolVersion, deviceId, twilioNumber, changes, cursor, results } = req.body || {};
+  if (!SUPPORTED_PROTOCOL_VERSIONS.includes(protocolVersion)) {
+    return res.status(426).json({ error: 'Unsupported sync protocol version', supportedVersions: SUPPORTED_PROTOCOL_VERSIONS });
+  }
+  if (!deviceId || !twilioNumber || !Array.isArray(changes)) {
+    return res.status(400).json({ error: 'deviceId, twilioNumber and changes are required' });
+  }
+  if (changes.length > MAX_CHANGES_PER_REQUEST) {
+    return res.status(413).json({ error: `At most ${MAX_CHANGES_PER_REQUEST} changes per request` });
+  }
+
+  try {
+    if (!(await isNumberOwner(req, twilioNumber))) {
+      return res.status(403).json(NOT_NUMBER_OWNER);
+    }
+    const { ackedSeq, epoch } = await applyDeviceChanges(twilioNumber, deviceId, changes);
+    await recordRemoteResults(twilioNumber, Array.isArray(results) ? results : []);
+    const remoteChanges = await getRemoteChanges(twilioNumber, parseInt(cursor, 10) || 0);
+
+    console.log('🔄 Sync:', { twilioNumber, received: changes.length, ackedSeq, remoteChanges: remoteChanges.length });
+    res.status(200).json({ protocolVersion: 1, ackedSeq, epoch, remoteChanges });
+
+  } catch (error) {
+    console.error('❌ Sync error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,102 @@
+// Voice Webhook Endpoint
+// Serves TwiML for calls through the Twilio number. Set this as the number's voice webhook.
+//
+//   (no mode)             Someone is calling the Twilio number - forward, voicemail or reject
+//   ?mode=voicemail       The app blocked the user's call to a contact (frequency limit), so
+//                         Twilio calls the user back and records a voicemail instead
+//   ?mode=voicemail-done  Where Twilio goes once the recording has finished
+//   ?mode=dial-done       Where Twilio goes once a forwarded call ends
+
+import { verifyTwilioRequest, getBaseUrl } from '../lib/twilioSignature.js';
+import { escapeXml, sendTwiml, voicemailVerbs } from '../lib/twiml.js';
+import { getCallRouting, findContact } from '../lib/callRouting.js';
+import { decideInboundCall } from '../lib/callPolicy.js';
+import { listCalls, logCall, updateCall } from '../lib/callLog.js';
+
+// Forwarded calls ring the user's phone this long before giving up (seconds)
+const FORWARD_TIMEOUT = 25;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export default async function handler(req, res) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const verification = await verifyTwilioRequest(req);
+  if (!verification.ok) {
+    console.log('🚫 Rejected voice webhook:', verification.reason);
+    return res.status(verification.status).json({ error: 'Forbidden' });
+  }
+
+  const { mode, contactId, name } = req.query || {};
+  const { CallSid: callSid, From: fromNumber, To: toNumber } = req.body;
+
+  console.log('📞 Voice webhook:', { mode: mode || 'inbound', callSid });
+
+  try {
+    if (mode === 'voicemail') {
+      // Outbound call from our number to the user, so the Twilio number is `From`
+      return sendTwiml(res, voicemailVerbs(getBaseUrl(req),
+        `${name || 'They'} can't come to the phone right now. Please leave a message after the beep.`,
+        { twilioNumber: fromNumber, contactId }
+      ));
+    }
+
+    if (mode === 'voicemail-done') {
+      return sendTwiml(res, '<Say>Thank you. Your message has been saved. Goodbye.</Say><Hangup/>');
+    }
+
+    if (mode === 'dial-done') {
+      await updateCall(toNumber, callSid, {
+        status: req.body.DialCallStatus,
+        durationSeconds: parseInt(req.body.DialCallDuration, 10) || 0,
+      });
+      return sendTwiml(res, '<Hangup/>');
+    }
+
+    await handleInboundCall(req, res, { callSid, fromNumber, toNumber });
+
+  } catch (error) {
+    console.error('❌ Voice webhook error:', error);
+    sendTwiml(res, '<Say>Sorry, this call could not be completed. Goodbye.</Say><Hangup/>');
+  }
+}
+
+async function handleInboundCall(req, res, { callSid, fromNumber, toNumber }) {
+  const routing = await getCallRouting(toNumber);
+  const contact = findContact(routing, fromNumber);
+  const recentCalls = await listCalls(toNumber, Date.now() - DAY);
+  const decision = decideInboundCall(routing, contact, recentCalls);
+
+  // Log every call, whatever happens to it (no names for unknown callers)
+  await logCall(toNumber, {
+    callSid,
+    direction: 'inbound',
+    from: fromNumber,
+    contactId: contact?.id || null,
+    outcome: decision.outcome,
+    reason: decision.reason || null,
+    startedAt: Date.now(),
+  });
+
+  console.log('📲 Inbound call:', { callSid, known: !!contact, ...decision });
+
+  if (decision.outcome === 'forwarded') {
+    const base = getBaseUrl(req);
+    return sendTwiml(res,
+      `<Dial timeout="${FORWARD_TIMEOUT}" action="${escapeXml(`${base}/api/voice?mode=dial-done`)}">` +
+      `${escapeXml(routing.userPhoneNumber)}</Dial>`
+    );
+  }
+
+  if (decision.outcome === 'voicemail') {
+    return sendTwiml(res, voicemailVerbs(getBaseUrl(req),
+      'Sorry, nobody can come to the phone right now. Please leave a message after the beep.',
+      { twilioNumber: toNumber, contactId: contact?.id, from: fromNumber }
+    ));
+  }
+
+  // Over the limit sounds like a busy line, just like blocked outgoing calls in the app
+  sendTwiml(res, decision.reason === 'unknown-caller' ? '<Reject/>' : '<Reject reason="busy"/>');
+}
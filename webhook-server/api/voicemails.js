@@ -0,0 +1,31 @@
+// Voicemail List Endpoint
+// Lets the app fetch voicemails recorded for its Twilio number.
+
+import { isAuthorizedApp, isNumberOwner, NOT_NUMBER_OWNER } from '../lib/appAuth.js';
+import { listVoicemails } from '../lib/voicemails.js';
+
+export default async function handler(req, res) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isAuthorizedApp(req)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const { twilioNumber } = req.query || {};
+  if (!twilioNumber) {
+    return res.status(400).json({ error: 'twilioNumber is required' });
+  }
+
+  try {
+    if (!(await isNumberOwner(req, twilioNumber))) {
+      return res.status(403).json(NOT_NUMBER_OWNER);
+    }
+    const voicemails = await listVoicemails(twilioNumber);
+    res.status(200).json({ voicemails });
+  } catch (error) {
+    console.error('❌ Voicemail list error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
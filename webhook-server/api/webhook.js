@@ -1,12 +1,25 @@
 // Twilio SMS Webhook Handler
 // This endpoint receives incoming SMS messages from Twilio
 
+import { getPushToken } from '../lib/pushTokens.js';
+import { verifyTwilioRequest, claimSid } from '../lib/twilioSignature.js';
+
+// Empty response - we're just receiving the message
+const EMPTY_TWIML = '<?xml version="1.0" encoding="UTF-8"?><Response></Response>';
+
 export default async function handler(req, res) {
   // Only allow POST requests from Twilio
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
+  // Reject anything that wasn't signed by Twilio with our auth token
+  const verification = await verifyTwilioRequest(req);
+  if (!verification.ok) {
+    console.log('🚫 Rejected webhook:', verification.reason);
+    return res.status(verification.status).json({ error: 'Forbidden' });
+  }
+
   console.log('📨 Webhook received:', {
     method: req.method,
     from: req.body.From,
@@ -23,6 +36,12 @@ export default async function handler(req, res) {
       NumMedia: numMedia
     } = req.body;
 
+    // A signed request can be replayed - only act on each message once
+    if (!(await claimSid(messageSid))) {
+      console.log('🔁 Duplicate webhook ignored:', { sid: messageSid });
+      return res.status(200).send(EMPTY_TWIML);
+    }
+
     // Log the incoming message (NO CONTENT for privacy)
     console.log('📱 New SMS received:', {
       from: fromNumber,
@@ -36,12 +55,7 @@ export default async function handler(req, res) {
     await sendPrivacySafePushNotification(fromNumber, toNumber);
 
     // Respond to Twilio with success
-    res.status(200).send(`
-      <?xml version="1.0" encoding="UTF-8"?>
-      <Response>
-        <!-- Empty response - we're just receiving the message -->
-      </Response>
-    `);
+    res.status(200).send(EMPTY_TWIML);
 
   } catch (error) {
     console.error('❌ Webhook error:', error);
@@ -51,12 +65,11 @@ export default async function handler(req, res) {
 
 async function sendPrivacySafePushNotification(fromNumber, toNumber) {
   try {
-    // TODO: In production, you'd look up the user's push token based on their Twilio number
-    // For now, we'll use a hardcoded token that you'll get from your app
-    const pushToken = process.env.USER_PUSH_TOKEN;
+    // Route to the device that registered the Twilio number the text was sent to
+    const pushToken = await getPushToken(toNumber);
     
     if (!pushToken) {
-      console.log('⚠️ No push token configured - skipping notification');
+      console.log('⚠️ No push token registered for this number - skipping notification', { to: toNumber });
       return;
     }
 
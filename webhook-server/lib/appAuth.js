@@ -0,0 +1,30 @@
+// Shared checks for requests coming from the Memory Care Phone app (not from Twilio).
+// The app sends the APP_API_KEY configured on this server as a Bearer token, and its
+// device secret as X-Device-Secret.
+
+import { claimNumber } from './numberOwners.js';
+
+export function isAuthorizedApp(req) {
+  const apiKey = process.env.APP_API_KEY;
+
+  if (!apiKey) {
+    console.log('⚠️ APP_API_KEY not configured - rejecting app request');
+    return false;
+  }
+
+  const header = req.headers['authorization'] || '';
+  return header === `Bearer ${apiKey}`;
+}
+
+// Every endpoint that reads or changes a number's data must check this as well as the key
+export async function isNumberOwner(req, twilioNumber) {
+  const owns = await claimNumber(twilioNumber, req.headers['x-device-secret']);
+  if (!owns) {
+    console.log('🚫 Request refused - number belongs to another device:', { twilioNumber });
+  }
+  return owns;
+}
+
+export const NOT_NUMBER_OWNER = {
+  error: 'This number is registered to another device. Release it on the caregiver dashboard first.',
+};
@@ -0,0 +1,32 @@
+// History of calls to each Twilio number. The app reads it to show incoming calls, and the
+// voice webhook uses it to count calls against each contact's limits.
+
+import { getStore } from './store.js';
+import { normalizeNumber } from './phoneNumbers.js';
+
+// Enough for a few weeks of calls; the app keeps its own copy once synced
+const MAX_CALLS = 200;
+
+const keyFor = (twilioNumber) => `call-log:${normalizeNumber(twilioNumber)}`;
+
+export async function listCalls(twilioNumber, since = 0) {
+  const store = await getStore();
+  const calls = (await store.get(keyFor(twilioNumber))) || [];
+  return calls.filter(call => call.startedAt > since);
+}
+
+export async function logCall(twilioNumber, call) {
+  const store = await getStore();
+  const calls = (await store.get(keyFor(twilioNumber))) || [];
+  await store.set(keyFor(twilioNumber), [...calls, call].slice(-MAX_CALLS));
+}
+
+export async function updateCall(twilioNumber, callSid, changes) {
+  const store = await getStore();
+  const calls = (await store.get(keyFor(twilioNumber))) || [];
+  const index = calls.findIndex(call => call.callSid === callSid);
+  if (index === -1) return;
+
+  calls[index] = { ...calls[index], ...changes };
+  await store.set(keyFor(twilioNumber), calls);
+}
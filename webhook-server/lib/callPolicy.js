@@ -0,0 +1,80 @@
+// Decides what happens to a call coming in to the Twilio number. Mirrors the app's
+// FrequencyTracker rules so contacts get the same limits in both directions.
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// "HH:MM" in the device's time zone, so quiet hours match what the caregiver set
+function localTime(now, timeZone) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timeZone || 'UTC',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(new Date(now));
+
+  const hour = parts.find(part => part.type === 'hour').value;
+  const minute = parts.find(part => part.type === 'minute').value;
+  return parseInt(hour, 10) * 100 + parseInt(minute, 10);
+}
+
+function parseTime(timeString) {
+  const [hours, minutes] = timeString.split(':').map(Number);
+  return hours * 100 + minutes;
+}
+
+function isQuietHours(quietHours, now, timeZone) {
+  if (!quietHours) return false;
+
+  const current = localTime(now, timeZone);
+  const start = parseTime(quietHours.start);
+  const end = parseTime(quietHours.end);
+
+  return start > end
+    ? current >= start || current <= end
+    : current >= start && current <= end;
+}
+
+function blockedReason(contact, contactCalls, now, timeZone) {
+  const limits = contact.calls;
+  if (!limits?.enabled) return null;
+
+  if (isQuietHours(contact.quietHours, now, timeZone)) {
+    return 'quiet-hours';
+  }
+
+  const forwarded = contactCalls.filter(call => call.outcome === 'forwarded');
+  const lastHour = forwarded.filter(call => call.startedAt > now - HOUR).length;
+  const lastDay = forwarded.filter(call => call.startedAt > now - DAY).length;
+
+  return lastHour >= limits.maxPerHour || lastDay >= limits.maxPerDay ? 'frequency-limit' : null;
+}
+
+// Returns { outcome: 'forwarded' | 'voicemail' | 'rejected', reason? }
+export function decideInboundCall(routing, contact, recentCalls, now = Date.now()) {
+  if (!routing?.userPhoneNumber) {
+    return { outcome: 'rejected', reason: 'not-configured' };
+  }
+
+  if (!contact) {
+    // Scam protection - strangers never ring through
+    return routing.unknownCallers === 'voicemail'
+      ? { outcome: 'voicemail', reason: 'unknown-caller' }
+      : { outcome: 'rejected', reason: 'unknown-caller' };
+  }
+
+  const contactCalls = recentCalls.filter(call => call.contactId === contact.id);
+  const reason = blockedReason(contact, contactCalls, now, routing.timeZone);
+  if (!reason) {
+    return { outcome: 'forwarded' };
+  }
+
+  const blockedToday = contactCalls.filter(call =>
+    call.outcome !== 'forwarded' && call.startedAt > now - DAY
+  ).length;
+  const voicemailAllowed = contact.voicemailAllowed ?? 2;
+
+  return blockedToday < voicemailAllowed
+    ? { outcome: 'voicemail', reason }
+    : { outcome: 'rejected', reason };
+}
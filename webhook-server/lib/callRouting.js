@@ -0,0 +1,27 @@
+// Who the Twilio number should put through, as last reported by the app. The contact list
+// and call limits live on the device; the app pushes a copy here whenever they change.
+
+import { getStore } from './store.js';
+import { normalizeNumber } from './phoneNumbers.js';
+
+const keyFor = (twilioNumber) => `call-routing:${normalizeNumber(twilioNumber)}`;
+
+export async function saveCallRouting(twilioNumber, routing) {
+  const store = await getStore();
+  await store.set(keyFor(twilioNumber), {
+    ...routing,
+    updatedAt: Date.now(),
+  });
+}
+
+export async function getCallRouting(twilioNumber) {
+  const store = await getStore();
+  return store.get(keyFor(twilioNumber));
+}
+
+export function findContact(routing, phoneNumber) {
+  const caller = normalizeNumber(phoneNumber);
+  return (routing?.contacts || []).find(contact =>
+    (contact.phoneNumbers || []).some(number => normalizeNumber(number) === caller)
+  ) || null;
+}
@@ -0,0 +1,88 @@
+// Caregiver sign-in for the web dashboard. It uses its own DASHBOARD_PASSWORD rather than
+// APP_API_KEY, so the key stored on the senior's phone can't open the dashboard.
+//
+// Sessions are a signed expiry time in an HttpOnly cookie - nothing to store server side.
+
+import crypto from 'crypto';
+import { getStore } from './store.js';
+
+const COOKIE_NAME = 'dashboard_session';
+const SESSION_SECONDS = 12 * 60 * 60;
+const MAX_FAILED_LOGINS = 10; // Per client address per 15 minutes
+const MAX_FAILED_LOGINS_TOTAL = 100; // From all addresses together, against guessing from many
+const FAILED_LOGIN_WINDOW = 15 * 60;
+const TOTAL_FAILED_LOGINS_KEY = 'dashboard-failed-logins:all';
+
+// Counted per address so someone guessing from elsewhere can't lock the caregiver out.
+// X-Forwarded-For is only believed behind a proxy we trust (Vercel, or TRUST_PROXY=1 when
+// self-hosting behind one), and then only its last entry - the one that proxy added.
+// Earlier entries come from the client and can be anything.
+function clientAddress(req) {
+  if (process.env.VERCEL || process.env.TRUST_PROXY === '1') {
+    const forwarded = String(req.headers['x-forwarded-for'] || '').split(',').map(hop => hop.trim()).filter(Boolean);
+    if (forwarded.length > 0) return forwarded[forwarded.length - 1];
+  }
+  return req.socket?.remoteAddress || 'unknown';
+}
+
+function sessionKey() {
+  const password = process.env.DASHBOARD_PASSWORD;
+  return password ? crypto.createHash('sha256').update(`dashboard-session:${password}`).digest() : null;
+}
+
+function sign(value) {
+  return crypto.createHmac('sha256', sessionKey()).update(value).digest('hex');
+}
+
+function safeEqual(a, b) {
+  const left = crypto.createHash('sha256').update(a).digest();
+  const right = crypto.createHash('sha256').update(b).digest();
+  return crypto.timingSafeEqual(left, right);
+}
+
+export function isDashboardConfigured() {
+  return !!process.env.DASHBOARD_PASSWORD;
+}
+
+// Returns 'ok', 'wrong' or 'locked'
+export async function checkPassword(req, password) {
+  if (!isDashboardConfigured()) return 'wrong';
+
+  const store = await getStore();
+  const key = `dashboard-failed-logins:${clientAddress(req)}`;
+  const failures = (await store.get(key)) || 0;
+  const totalFailures = (await store.get(TOTAL_FAILED_LOGINS_KEY)) || 0;
+  if (failures >= MAX_FAILED_LOGINS || totalFailures >= MAX_FAILED_LOGINS_TOTAL) return 'locked';
+
+  if (safeEqual(String(password || ''), process.env.DASHBOARD_PASSWORD)) {
+    await store.del(key);
+    return 'ok';
+  }
+
+  await store.set(key, failures + 1, { ttlSeconds: FAILED_LOGIN_WINDOW });
+  await store.set(TOTAL_FAILED_LOGINS_KEY, totalFailures + 1, { ttlSeconds: FAILED_LOGIN_WINDOW });
+  return 'wrong';
+}
+
+export function createSessionCookie() {
+  const expiresAt = String(Date.now() + SESSION_SECONDS * 1000);
+  return `${COOKIE_NAME}=${expiresAt}.${sign(expiresAt)}; HttpOnly; Secure; SameSite=Strict; Path=/api/dashboard; Max-Age=${SESSION_SECONDS}`;
+}
+
+export function clearSessionCookie() {
+  return `${COOKIE_NAME}=; HttpOnly; Secure; SameSite=Strict; Path=/api/dashboard; Max-Age=0`;
+}
+
+export function hasValidSession(req) {
+  if (!isDashboardConfigured()) return false;
+
+  const cookie = (req.headers['cookie'] || '')
+    .split(';')
+    .map(part => part.trim())
+    .find(part => part.startsWith(`${COOKIE_NAME}=`));
+  if (!cookie) return false;
+
+  const [expiresAt, signature] = cookie.slice(COOKIE_NAME.length + 1).split('.');
+  if (!expiresAt || !signature || parseInt(expiresAt, 10) < Date.now()) return false;
+  return safeEqual(signature, sign(expiresAt));
+}
@@ -0,0 +1,199 @@
+// HTML for the caregiver dashboard. Plain server-rendered pages with forms, so it works on
+// any phone browser without JavaScript.
+
+import { escapeXml as escapeHtml } from './twiml.js';
+
+// A phone that hasn't reported for this long is shown as possibly off or offline
+const STALE_AFTER = 60 * 60 * 1000;
+
+// Why the phone turned down a dashboard edit
+const REJECTION_LABELS = {
+  'conflict': 'the limits were changed on the phone at the same time. Check the new values and save again if needed.',
+  'contact-removed': 'this contact is no longer on the phone.',
+};
+
+// Rejected edits stay on the dashboard this long
+const SHOW_REJECTED_FOR = 24 * 60 * 60 * 1000;
+
+const ALERT_LABELS = {
+  'ready': 'No alerts sent',
+  'alert-sent': '⚠️ Alert sent',
+  'escalation-sent': '🚨 Escalation alert sent',
+};
+
+const STYLES = `
+  body { font-family: -apple-system, system-ui, sans-serif; background: #111; color: #eee; margin: 0; padding: 20px; font-size: 18px; }
+  h1 { font-size: 28px; } h2 { font-size: 24px; margin-top: 0; }
+  .card { background: #1e1e1e; border: 1px solid #333; border-radius: 12px; padding: 20px; margin-bottom: 20px; max-width: 900px; }
+  .stale { border-color: #FF9800; }
+  .grid { display: grid; grid-template-columns: repeat(auto-fit, minmax(180px, 1fr)); gap: 12px; margin-bottom: 16px; }
+  .stat { background: #2a2a2a; border-radius: 8px; padding: 12px; }
+  .stat b { display: block; font-size: 24px; }
+  table { width: 100%; border-collapse: collapse; } td, th { padding: 8px; border-bottom: 1px solid #333; text-align: left; vertical-align: top; }
+  input[type=number] { width: 60px; } input[type=time] { width: 110px; }
+  input, button { font-size: 16px; padding: 6px; }
+  button { background: #4CAF50; color: #fff; border: 0; border-radius: 6px; padding: 8px 14px; cursor: pointer; }
+  button.secondary { background: #555; }
+  .notice { background: #2a1a00; padding: 10px; border-radius: 8px; margin-bottom: 12px; }
+  .error { color: #ff6b6b; }
+`;
+
+function page(title, body) {
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1">` +
+    `<title>${escapeHtml(title)}</title><style>${STYLES}</style></head><body>${body}</body></html>`;
+}
+
+function timeAgo(timestamp) {
+  const minutes = Math.round((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours} hour${hours === 1 ? '' : 's'} ago`;
+  return `${Math.round(hours / 24)} days ago`;
+}
+
+export function renderLogin(error) {
+  return page('Caregiver Dashboard', `
+    <div class="card">
+      <h1>🔐 Caregiver Dashboard</h1>
+      ${error ? `<p class="error">${escapeHtml(error)}</p>` : ''}
+      <form method="POST" action="/api/dashboard">
+        <input type="hidden" name="action" value="login">
+        <p><input type="password" name="password" placeholder="Dashboard password" autofocus required></p>
+        <button type="submit">Sign In</button>
+      </form>
+    </div>`);
+}
+
+function renderHealth(status) {
+  const battery = typeof status.batteryLevel === 'number'
+    ? `${Math.round(status.batteryLevel * 100)}%${status.charging ? ' ⚡' : ''}`
+    : 'Unknown';
+  const stats = [
+    ['Last seen', timeAgo(status.lastSeenAt)],
+    ['Battery', battery],
+    ['Internet', status.online ? 'Connected' : '❌ Offline'],
+    ['Instant texts', status.pushEnabled ? 'On' : 'Off (slow checking)'],
+    ['Texts waiting to send', status.outboxCount ?? 0],
+    ['App', `${status.appVersion || '?'} on ${status.deviceModel || 'unknown phone'}`],
+  ];
+  return stats.map(([label, value]) => `<div class="stat">${escapeHtml(label)}<b>${escapeHtml(value)}</b></div>`).join('');
+}
+
+function renderActivity(status, alertState) {
+  const stats = [
+    ['Blocked today', status.blockedToday ?? 0],
+    ['Blocked in total', status.blockedTotal ?? 0],
+    ['Alerts', ALERT_LABELS[alertState?.alertStatus || status.alertStatus] || 'Unknown'],
+    ['Texts held for review', status.heldMessages ?? 0],
+    ['Texts from unknown numbers', status.quarantinedMessages ?? 0],
+  ];
+  return stats.map(([label, value]) => `<div class="stat">${escapeHtml(label)}<b>${escapeHtml(value)}</b></div>`).join('');
+}
+
+// Table rows can't contain a <form>, so each row's inputs point at a form in its first cell
+function limitInputs(formId, prefix, limit) {
+  const current = limit || { enabled: false, maxPerHour: 3, maxPerDay: 10 };
+  return `<label><input form="${formId}" type="checkbox" name="${prefix}Enabled" ${current.enabled ? 'checked' : ''}> Limit</label><br>` +
+    `<input form="${formId}" type="number" min="1" max="999" name="${prefix}PerHour" value="${escapeHtml(current.maxPerHour)}"> / hour<br>` +
+    `<input form="${formId}" type="number" min="1" max="999" name="${prefix}PerDay" value="${escapeHtml(current.maxPerDay)}"> / day`;
+}
+
+function renderContacts(twilioNumber, contacts, pendingChanges) {
+  if (contacts.length === 0) {
+    return '<p>No contacts on the phone yet.</p>';
+  }
+
+  const rows = [...contacts].sort((a, b) => String(a.data.name).localeCompare(String(b.data.name))).map((contact, index) => {
+    const formId = `limits-${String(twilioNumber).replace(/\W/g, '')}-${index}`;
+    const pending = pendingChanges.some(change => change.type === 'contact-limits' && change.contactId === contact.id);
+    const limits = contact.data.frequencySettings || {};
+    return `<tr>
+      <td>
+        <form id="${formId}" method="POST" action="/api/dashboard">
+          <input type="hidden" name="action" value="set-limits">
+          <input type="hidden" name="twilioNumber" value="${escapeHtml(twilioNumber)}">
+          <input type="hidden" name="contactId" value="${escapeHtml(contact.id)}">
+          <input type="hidden" name="baseVersion" value="${escapeHtml(contact.version)}">
+        </form>
+        <b>${escapeHtml(contact.data.name)}</b>${pending ? '<br>⏳ Change waiting for the phone' : ''}
+      </td>
+      <td>${limitInputs(formId, 'texts', limits.texts)}</td>
+      <td>${limitInputs(formId, 'calls', limits.calls)}</td>
+      <td><input form="${formId}" type="time" name="quietStart" value="${escapeHtml(limits.quietHours?.start || '')}"> to<br>
+          <input form="${formId}" type="time" name="quietEnd" value="${escapeHtml(limits.quietHours?.end || '')}"></td>
+      <td><button form="${formId}" type="submit">Save</button></td>
+    </tr>`;
+  }).join('');
+
+  return `<table><tr><th>Contact</th><th>Texts</th><th>Calls</th><th>Quiet hours</th><th></th></tr>${rows}</table>`;
+}
+
+function renderBlocked(blocked, contacts) {
+  if (blocked.length === 0) {
+    return '<p>Nothing has been blocked.</p>';
+  }
+
+  const names = Object.fromEntries(contacts.map(contact => [contact.id, contact.data.name]));
+  const rows = [...blocked]
+    .sort((a, b) => b.data.timestamp - a.data.timestamp)
+    .slice(0, 10)
+    .map(({ data }) => `<tr>
+      <td>${data.kind === 'call' ? '📞 Call' : '💬 Text'}</td>
+      <td>${escapeHtml(data.contactId ? names[data.contactId] || 'Removed contact' : 'Unknown caller')}</td>
+      <td>${escapeHtml(timeAgo(data.timestamp))}${data.hasVoicemail ? ' - left a voicemail' : ''}</td>
+    </tr>`).join('');
+
+  return `<table>${rows}</table>`;
+}
+
+function renderRejected(remoteChanges, contacts) {
+  const names = Object.fromEntries(contacts.map(contact => [contact.id, contact.data.name]));
+  return remoteChanges
+    .filter(change => change.status === 'rejected' && Date.now() - change.finishedAt < SHOW_REJECTED_FOR)
+    .map(change => `<div class="notice">❌ Your change to ${escapeHtml(names[change.contactId] || 'a contact')} ` +
+      `(${escapeHtml(timeAgo(change.queuedAt))}) was not applied: ${escapeHtml(REJECTION_LABELS[change.reason] || 'the phone could not apply it.')}</div>`)
+    .join('');
+}
+
+function renderDevice({ status, contacts, alertState, blocked, remoteChanges }) {
+  const stale = Date.now() - status.lastSeenAt > STALE_AFTER;
+  const pendingChanges = remoteChanges.filter(change => change.status === 'pending');
+  return `<div class="card ${stale ? 'stale' : ''}">
+    <h2>📱 ${escapeHtml(status.twilioNumber)}</h2>
+    ${stale ? `<div class="notice">⚠️ The phone hasn't checked in for ${escapeHtml(timeAgo(status.lastSeenAt))}. It may be switched off or without signal.</div>` : ''}
+    ${pendingChanges.length > 0 ? `<div class="notice">⏳ ${pendingChanges.length} change${pendingChanges.length === 1 ? '' : 's'} will be applied the next time the phone checks in.</div>` : ''}
+    ${renderRejected(remoteChanges, contacts)}
+    <div class="grid">${renderHealth(status)}</div>
+    <div class="grid">${renderActivity(status, alertState)}</div>
+    <form method="POST" action="/api/dashboard">
+      <input type="hidden" name="action" value="reset-alerts">
+      <input type="hidden" name="twilioNumber" value="${escapeHtml(status.twilioNumber)}">
+      <button type="submit" class="secondary">🔄 Reset Alerts</button>
+    </form>
+    <h2 style="margin-top: 20px">🚦 Limits</h2>
+    ${renderContacts(status.twilioNumber, contacts, pendingChanges)}
+    <h2 style="margin-top: 20px">🚫 Recently Blocked</h2>
+    ${renderBlocked(blocked, contacts)}
+    <form method="POST" action="/api/dashboard" style="margin-top: 20px">
+      <input type="hidden" name="action" value="release-number">
+      <input type="hidden" name="twilioNumber" value="${escapeHtml(status.twilioNumber)}">
+      <button type="submit" class="secondary">🔓 Release Number (after resetting or replacing the phone)</button>
+    </form>
+  </div>`;
+}
+
+export function renderDashboard(devices, notice) {
+  const body = devices.length > 0
+    ? devices.map(renderDevice).join('')
+    : '<div class="card">No phones have checked in yet. Enter this server\'s URL and key in the app\'s Twilio settings.</div>';
+
+  return page('Caregiver Dashboard', `
+    <h1>👀 Caregiver Dashboard</h1>
+    ${notice ? `<div class="card notice">${escapeHtml(notice)}</div>` : ''}
+    ${body}
+    <form method="POST" action="/api/dashboard">
+      <input type="hidden" name="action" value="logout">
+      <button type="submit" class="secondary">Sign Out</button>
+    </form>`);
+}
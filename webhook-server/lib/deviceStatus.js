@@ -0,0 +1,41 @@
+// What each phone last reported about itself for the caregiver dashboard. Its records and
+// the caregiver's edits travel through the sync protocol in sync.js.
+
+import { getStore } from './store.js';
+import { normalizeNumber } from './phoneNumbers.js';
+import { getSyncState, listRecords, listRemoteChanges } from './sync.js';
+
+const INDEX_KEY = 'device-index';
+const statusKey = (twilioNumber) => `device-status:${normalizeNumber(twilioNumber)}`;
+
+export async function saveDeviceStatus(twilioNumber, status) {
+  const store = await getStore();
+  await store.set(statusKey(twilioNumber), {
+    ...status,
+    twilioNumber: normalizeNumber(twilioNumber),
+    lastSeenAt: Date.now(),
+  });
+
+  // The store can't list keys, so keep our own list of devices for the dashboard
+  const index = (await store.get(INDEX_KEY)) || [];
+  if (!index.includes(normalizeNumber(twilioNumber))) {
+    await store.set(INDEX_KEY, [...index, normalizeNumber(twilioNumber)]);
+  }
+}
+
+export async function listDevices() {
+  const store = await getStore();
+  const index = (await store.get(INDEX_KEY)) || [];
+  const devices = await Promise.all(index.map(async (twilioNumber) => {
+    const syncState = await getSyncState(twilioNumber);
+    return {
+      status: await store.get(statusKey(twilioNumber)),
+      contacts: listRecords(syncState, 'contact-settings'),
+      alertState: listRecords(syncState, 'alert-state')[0]?.data || null,
+      blocked: listRecords(syncState, 'blocked-message').concat(listRecords(syncState, 'blocked-call')),
+      remoteChanges: await listRemoteChanges(twilioNumber),
+      lastSyncAt: syncState?.lastSyncAt || null,
+    };
+  }));
+  return devices.filter(device => device.status);
+}
@@ -0,0 +1,39 @@
+// Which device each Twilio number belongs to.
+//
+// APP_API_KEY is in every build of the app, so it only shows a request comes from some copy
+// of the app. The first device to use a number claims it with a secret only it knows (we
+// keep a hash), and every later request about that number must carry the same secret in
+// X-Device-Secret. A phone that was reset or replaced can take its number back once the
+// caregiver releases it on the dashboard.
+
+import crypto from 'crypto';
+import { getStore } from './store.js';
+import { normalizeNumber } from './phoneNumbers.js';
+
+export const MIN_SECRET_LENGTH = 32;
+
+const keyFor = (twilioNumber) => `number-owner:${normalizeNumber(twilioNumber)}`;
+
+function hashSecret(deviceSecret) {
+  return crypto.createHash('sha256').update(String(deviceSecret)).digest('hex');
+}
+
+// True if the secret belongs to the number's device. An unclaimed number is claimed by it.
+export async function claimNumber(twilioNumber, deviceSecret) {
+  if (typeof deviceSecret !== 'string' || deviceSecret.length < MIN_SECRET_LENGTH) return false;
+
+  const store = await getStore();
+  const claimed = await store.setIfAbsent(keyFor(twilioNumber), { secretHash: hashSecret(deviceSecret), claimedAt: Date.now() });
+  if (claimed) {
+    console.log('🔐 Number claimed by device:', { twilioNumber });
+    return true;
+  }
+  const record = await store.get(keyFor(twilioNumber));
+  if (!record) return false;
+  return crypto.timingSafeEqual(Buffer.from(record.secretHash), Buffer.from(hashSecret(deviceSecret)));
+}
+
+export async function releaseNumber(twilioNumber) {
+  const store = await getStore();
+  await store.del(keyFor(twilioNumber));
+}
@@ -0,0 +1,8 @@
+// Twilio sends numbers in E.164, but the app may register them as typed by the caregiver
+export function normalizeNumber(phoneNumber) {
+  const raw = String(phoneNumber || '').trim();
+  const digits = raw.replace(/\D/g, '');
+  if (raw.startsWith('+')) return `+${digits}`; // Already international - don't assume +1
+  if (digits.length === 10) return `+1${digits}`;
+  return `+${digits}`;
+}
@@ -0,0 +1,25 @@
+// Registry mapping each app instance's Twilio number to its Expo push token
+
+import { getStore } from './store.js';
+import { normalizeNumber } from './phoneNumbers.js';
+
+const keyFor = (twilioNumber) => `push-token:${normalizeNumber(twilioNumber)}`;
+
+export async function registerPushToken(twilioNumber, pushToken) {
+  const store = await getStore();
+  await store.set(keyFor(twilioNumber), {
+    pushToken,
+    registeredAt: Date.now(),
+  });
+}
+
+export async function unregisterPushToken(twilioNumber) {
+  const store = await getStore();
+  await store.del(keyFor(twilioNumber));
+}
+
+export async function getPushToken(twilioNumber) {
+  const store = await getStore();
+  const record = await store.get(keyFor(twilioNumber));
+  return record?.pushToken || null;
+}
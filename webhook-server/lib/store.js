@@ -0,0 +1,120 @@
+// Pluggable key-value store for the webhook server.
+//
+//   STORE_BACKEND=file (default)  JSON file on disk - for `vercel dev` and self-hosting
+//   STORE_BACKEND=kv              Vercel KV - for production deployments
+//
+// Values are JSON-serialisable. Keys are namespaced by the caller, e.g. "push-token:+15551234567".
+// setIfAbsent(key, value, options) writes only if the key is missing (or expired) and returns
+// whether it did, atomically - use it for anything two requests may race to claim.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+const isExpired = (entry) => Boolean(entry.expiresAt && entry.expiresAt < Date.now());
+
+function createFileStore(filePath) {
+  // Every operation reads and rewrites the whole file, so run them one at a time
+  let queue = Promise.resolve();
+  function exclusive(operation) {
+    const result = queue.then(operation);
+    queue = result.catch(() => {});
+    return result;
+  }
+
+  async function readAll() {
+    try {
+      const contents = await fs.readFile(filePath, 'utf8');
+      return JSON.parse(contents);
+    } catch (error) {
+      if (error.code === 'ENOENT') return {};
+      throw error;
+    }
+  }
+
+  // Expired entries are dropped on every write so the file doesn't grow forever
+  async function writeAll(data) {
+    for (const key of Object.keys(data)) {
+      if (isExpired(data[key])) delete data[key];
+    }
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(data, null, 2));
+  }
+
+  const entryFor = (value, options) => ({
+    value,
+    expiresAt: options.ttlSeconds ? Date.now() + options.ttlSeconds * 1000 : undefined,
+  });
+
+  return {
+    get: (key) => exclusive(async () => {
+      const data = await readAll();
+      const entry = data[key];
+      if (!entry || isExpired(entry)) return null;
+      return entry.value;
+    }),
+
+    set: (key, value, options = {}) => exclusive(async () => {
+      const data = await readAll();
+      data[key] = entryFor(value, options);
+      await writeAll(data);
+    }),
+
+    setIfAbsent: (key, value, options = {}) => exclusive(async () => {
+      const data = await readAll();
+      if (data[key] && !isExpired(data[key])) return false;
+      data[key] = entryFor(value, options);
+      await writeAll(data);
+      return true;
+    }),
+
+    del: (key) => exclusive(async () => {
+      const data = await readAll();
+      delete data[key];
+      await writeAll(data);
+    }),
+  };
+}
+
+async function createKvStore() {
+  const { kv } = await import('@vercel/kv');
+
+  return {
+    async get(key) {
+      return (await kv.get(key)) ?? null;
+    },
+
+    async set(key, value, options = {}) {
+      if (options.ttlSeconds) {
+        await kv.set(key, value, { ex: options.ttlSeconds });
+      } else {
+        await kv.set(key, value);
+      }
+    },
+
+    // SET NX returns null when the key already exists
+    async setIfAbsent(key, value, options = {}) {
+      const result = options.ttlSeconds
+        ? await kv.set(key, value, { nx: true, ex: options.ttlSeconds })
+        : await kv.set(key, value, { nx: true });
+      return result === 'OK';
+    },
+
+    async del(key) {
+      await kv.del(key);
+    },
+  };
+}
+
+let store = null;
+
+export async function getStore() {
+  if (store) return store;
+
+  const backend = process.env.STORE_BACKEND || 'file';
+  if (backend === 'kv') {
+    store = await createKvStore();
+  } else {
+    store = createFileStore(process.env.STORE_FILE || path.join(process.cwd(), '.data', 'store.json'));
+  }
+  return store;
+}
@@ -0,0 +1,132 @@
+// Two-way sync between the phone and the caregiver dashboard.
+//
+// Phone -> server: the phone sends numbered changes to records it owns (blocked
+// communications, alert state, each contact's limits). Each change has a record version
+// that only the phone increments. Changes at or below the last sequence number we stored
+// are ignored, so retries are safe. A deleted record is dropped, and comes back at version 1
+// if the phone adds it again.
+//
+// Our copy has an epoch that changes whenever we start it over (a new device, or a lost
+// store). The phone sees the new epoch in the response and uploads everything again, since
+// what it remembers uploading is no longer here.
+//
+// Server -> phone: dashboard edits go into a per-phone log with increasing sequence
+// numbers. The phone asks for everything after its cursor and reports back whether each
+// edit was applied or rejected. A limits edit carries the record version the caregiver was
+// looking at; the phone rejects it if the contact was changed on the phone since.
+
+import crypto from 'crypto';
+import { getStore } from './store.js';
+import { normalizeNumber } from './phoneNumbers.js';
+
+export const SUPPORTED_PROTOCOL_VERSIONS = [1];
+
+// Finished dashboard edits kept for showing their outcome
+const MAX_FINISHED_REMOTE_CHANGES = 50;
+
+const stateKey = (twilioNumber) => `sync-state:${normalizeNumber(twilioNumber)}`;
+const remoteKey = (twilioNumber) => `sync-remote:${normalizeNumber(twilioNumber)}`;
+
+export async function getSyncState(twilioNumber) {
+  const store = await getStore();
+  return store.get(stateKey(twilioNumber));
+}
+
+// Returns { ackedSeq, epoch }: the highest sequence number now stored, for the phone to
+// clear its outbox up to, and the epoch of our copy
+export async function applyDeviceChanges(twilioNumber, deviceId, changes) {
+  const store = await getStore();
+  let state = await store.get(stateKey(twilioNumber));
+
+  // A reinstalled or replaced phone starts over with its own numbering
+  if (!state || state.deviceId !== deviceId) {
+    console.log('🔄 Sync state reset for new device:', { twilioNumber });
+    state = { deviceId, epoch: crypto.randomUUID(), lastSeq: 0, records: {} };
+  }
+  // Copies stored before epochs existed get one now; the phone uploads everything once more
+  state.epoch = state.epoch || crypto.randomUUID();
+
+  for (const change of [...changes].sort((a, b) => a.seq - b.seq)) {
+    if (change.seq <= state.lastSeq) continue;
+
+    const key = `${change.entity}:${change.id}`;
+    if (change.op === 'delete') {
+      delete state.records[key];
+    } else {
+      state.records[key] = { version: change.version, data: change.data, updatedAt: Date.now() };
+    }
+    state.lastSeq = change.seq;
+  }
+
+  state.lastSyncAt = Date.now();
+  await store.set(stateKey(twilioNumber), state);
+  return { ackedSeq: state.lastSeq, epoch: state.epoch };
+}
+
+// Live records of one kind, e.g. 'contact-settings', as { id, version, data }
+export function listRecords(state, entity) {
+  return Object.entries(state?.records || {})
+    .filter(([key]) => key.startsWith(`${entity}:`))
+    .map(([key, record]) => ({ id: key.slice(entity.length + 1), version: record.version, data: record.data }));
+}
+
+async function getRemoteLog(store, twilioNumber) {
+  return (await store.get(remoteKey(twilioNumber))) || { nextSeq: 1, changes: [] };
+}
+
+// change is { type: 'contact-limits', contactId, baseVersion, texts, calls, quietHours }
+// or { type: 'reset-alerts' }
+export async function queueRemoteChange(twilioNumber, change) {
+  const store = await getStore();
+  const log = await getRemoteLog(store, twilioNumber);
+
+  // A newer edit to the same contact replaces one the phone hasn't collected yet
+  for (const existing of log.changes) {
+    if (existing.status === 'pending' && existing.type === change.type && existing.contactId === change.contactId) {
+      existing.status = 'superseded';
+    }
+  }
+
+  const queued = { ...change, id: crypto.randomUUID(), seq: log.nextSeq, status: 'pending', queuedAt: Date.now() };
+  log.nextSeq += 1;
+  log.changes.push(queued);
+  await saveRemoteLog(store, twilioNumber, log);
+  return queued;
+}
+
+// results is [{ seq, status: 'applied' | 'rejected', reason }] from the phone
+export async function recordRemoteResults(twilioNumber, results) {
+  if (!results?.length) return;
+
+  const store = await getStore();
+  const log = await getRemoteLog(store, twilioNumber);
+  for (const result of results) {
+    const change = log.changes.find(existing => existing.seq === result.seq);
+    if (change && change.status === 'pending') {
+      change.status = result.status === 'applied' ? 'applied' : 'rejected';
+      change.reason = result.reason || null;
+      change.finishedAt = Date.now();
+    }
+  }
+  await saveRemoteLog(store, twilioNumber, log);
+}
+
+export async function getRemoteChanges(twilioNumber, cursor) {
+  const store = await getStore();
+  const log = await getRemoteLog(store, twilioNumber);
+  return log.changes.filter(change => change.status === 'pending' && change.seq > cursor);
+}
+
+export async function listRemoteChanges(twilioNumber) {
+  const store = await getStore();
+  return (await getRemoteLog(store, twilioNumber)).changes;
+}
+
+async function saveRemoteLog(store, twilioNumber, log) {
+  const pending = log.changes.filter(change => change.status === 'pending');
+  const finished = log.changes.filter(change => change.status !== 'pending').slice(-MAX_FINISHED_REMOTE_CHANGES);
+  await store.set(remoteKey(twilioNumber), {
+    nextSeq: log.nextSeq,
+    changes: [...finished, ...pending].sort((a, b) => a.seq - b.seq),
+  });
+}
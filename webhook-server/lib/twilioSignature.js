@@ -0,0 +1,62 @@
+// Verifies the X-Twilio-Signature header Twilio adds to every webhook request.
+// https://www.twilio.com/docs/usage/webhooks/webhooks-security
+
+import crypto from 'crypto';
+import { getStore } from './store.js';
+
+// Twilio retries for at most a few hours - remember SIDs for a day
+const REPLAY_WINDOW_SECONDS = 24 * 60 * 60;
+
+// HMAC-SHA1 over the full URL followed by each POST parameter (sorted by name) as name+value
+export function computeSignature(authToken, url, params = {}) {
+  const data = Object.keys(params)
+    .sort()
+    .reduce((acc, key) => acc + key + params[key], url);
+
+  return crypto.createHmac('sha1', authToken).update(Buffer.from(data, 'utf-8')).digest('base64');
+}
+
+export function isValidSignature(authToken, signature, url, params) {
+  if (!signature) return false;
+
+  const expected = Buffer.from(computeSignature(authToken, url, params));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+// Public origin of this server. Behind Vercel's proxy the host/proto come from forwarded
+// headers; PUBLIC_BASE_URL overrides both when the server sits behind another proxy.
+export function getBaseUrl(req) {
+  const base = process.env.PUBLIC_BASE_URL
+    || `${req.headers['x-forwarded-proto'] || 'https'}://${req.headers['x-forwarded-host'] || req.headers.host}`;
+  return base.replace(/\/+$/, '');
+}
+
+// The URL Twilio requested, which is what it signed
+export function getRequestUrl(req) {
+  return `${getBaseUrl(req)}${req.url}`;
+}
+
+// Returns { ok: true } or { ok: false, status, reason } for the route to respond with
+export async function verifyTwilioRequest(req) {
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  if (!authToken) {
+    console.error('⚠️ TWILIO_AUTH_TOKEN not configured - rejecting webhook');
+    return { ok: false, status: 403, reason: 'Signature validation not configured' };
+  }
+
+  const signature = req.headers['x-twilio-signature'];
+  if (!isValidSignature(authToken, signature, getRequestUrl(req), req.body || {})) {
+    return { ok: false, status: 403, reason: signature ? 'Invalid signature' : 'Missing signature' };
+  }
+
+  return { ok: true };
+}
+
+// Returns true the first time a SID is seen, false for replays (or Twilio retries)
+export async function claimSid(sid) {
+  if (!sid) return true;
+
+  const store = await getStore();
+  return store.setIfAbsent(`seen-sid:${sid}`, Date.now(), { ttlSeconds: REPLAY_WINDOW_SECONDS });
+}
@@ -0,0 +1,33 @@
+// Helpers for answering Twilio voice webhooks with TwiML
+
+export function escapeXml(text) {
+  return String(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+export function sendTwiml(res, verbs) {
+  res.setHeader('Content-Type', 'text/xml');
+  res.status(200).send(`<?xml version="1.0" encoding="UTF-8"?><Response>${verbs}</Response>`);
+}
+
+// Seconds - long enough for a proper message, short enough to not fill up storage
+const MAX_VOICEMAIL_LENGTH = 120;
+
+// Greeting plus <Record>. The recording is filed by /api/recording under the Twilio number,
+// with whatever we know about who left it.
+export function voicemailVerbs(baseUrl, greeting, { twilioNumber, contactId, from }) {
+  const recordingCallback = `${baseUrl}/api/recording?${new URLSearchParams({
+    twilioNumber: twilioNumber || '',
+    contactId: contactId || '',
+    from: from || '',
+  }).toString()}`;
+
+  return `<Say>${escapeXml(greeting)}</Say>` +
+    `<Record maxLength="${MAX_VOICEMAIL_LENGTH}" playBeep="true" trim="trim-silence"` +
+    ` action="${escapeXml(`${baseUrl}/api/voice?mode=voicemail-done`)}"` +
+    ` recordingStatusCallback="${escapeXml(recordingCallback)}" recordingStatusCallbackEvent="completed"/>`;
+}
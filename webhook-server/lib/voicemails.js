@@ -0,0 +1,26 @@
+// Voicemails recorded through /api/voice, kept per Twilio number until the app fetches them
+
+import { getStore } from './store.js';
+import { normalizeNumber } from './phoneNumbers.js';
+
+// Oldest voicemails are dropped beyond this - the app keeps its own copy once synced
+const MAX_VOICEMAILS = 50;
+
+const keyFor = (twilioNumber) => `voicemails:${normalizeNumber(twilioNumber)}`;
+
+export async function addVoicemail(twilioNumber, voicemail) {
+  const store = await getStore();
+  const existing = (await store.get(keyFor(twilioNumber))) || [];
+
+  // Twilio can deliver the same recording callback more than once
+  if (existing.some(item => item.recordingSid === voicemail.recordingSid)) {
+    return;
+  }
+
+  await store.set(keyFor(twilioNumber), [...existing, voicemail].slice(-MAX_VOICEMAILS));
+}
+
+export async function listVoicemails(twilioNumber) {
+  const store = await getStore();
+  return (await store.get(keyFor(twilioNumber))) || [];
+}
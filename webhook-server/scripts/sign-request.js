@@ -0,0 +1,36 @@
+// Builds a curl command for a webhook request signed the way Twilio signs it, so the
+// signature checks can be exercised against `vercel dev` without a real Twilio number.
+//
+//   TWILIO_AUTH_TOKEN=xxx npm run sign-request -- http://localhost:3000/api/webhook \
+//     From=+15551234567 To=+15557654321 MessageSid=SM123 NumMedia=0
+//
+// Add --tamper to change a parameter after signing (should get 403), and run the same
+// command twice to see the replay protection ignore the second request.
+
+import { computeSignature } from '../lib/twilioSignature.js';
+
+const args = process.argv.slice(2);
+const tamper = args.includes('--tamper');
+const [url, ...pairs] = args.filter(arg => arg !== '--tamper');
+
+if (!url || !process.env.TWILIO_AUTH_TOKEN) {
+  console.error('Usage: TWILIO_AUTH_TOKEN=xxx node scripts/sign-request.js <url> [Name=value ...] [--tamper]');
+  process.exit(1);
+}
+
+const params = Object.fromEntries(pairs.map(pair => {
+  const index = pair.indexOf('=');
+  return [pair.slice(0, index), pair.slice(index + 1)];
+}));
+
+const signature = computeSignature(process.env.TWILIO_AUTH_TOKEN, url, params);
+
+if (tamper) {
+  params.From = '+10000000000';
+}
+
+const body = new URLSearchParams(params).toString();
+console.log(`curl -i -X POST '${url}' \\
+  -H 'Content-Type: application/x-www-form-urlencoded' \\
+  -H 'X-Twilio-Signature: ${signature}' \\
+  --data '${body}'`);
@@ -0,0 +1,63 @@
+// Wrong-password lockout for the caregiver dashboard. Run with `npm test`.
+
+import { test, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+let storeDir;
+let checkPassword;
+
+before(async () => {
+  storeDir = await mkdtemp(path.join(tmpdir(), 'webhook-store-'));
+  process.env.STORE_BACKEND = 'file';
+  process.env.STORE_FILE = path.join(storeDir, 'store.json');
+  process.env.DASHBOARD_PASSWORD = 'correct horse';
+
+  ({ checkPassword } = await import('../lib/dashboardAuth.js'));
+});
+
+after(async () => {
+  await rm(storeDir, { recursive: true, force: true });
+});
+
+beforeEach(async () => {
+  await rm(process.env.STORE_FILE, { force: true });
+  delete process.env.VERCEL;
+  delete process.env.TRUST_PROXY;
+});
+
+function request(remoteAddress, forwardedFor) {
+  return { headers: forwardedFor ? { 'x-forwarded-for': forwardedFor } : {}, socket: { remoteAddress } };
+}
+
+async function failTimes(count, makeRequest) {
+  for (let i = 0; i < count; i++) {
+    assert.equal(await checkPassword(makeRequest(i), 'wrong'), 'wrong');
+  }
+}
+
+test('an address is locked out after 10 wrong passwords, others are not', async () => {
+  await failTimes(10, () => request('203.0.113.1'));
+  assert.equal(await checkPassword(request('203.0.113.1'), 'correct horse'), 'locked');
+  assert.equal(await checkPassword(request('203.0.113.2'), 'correct horse'), 'ok');
+});
+
+test('a made-up X-Forwarded-For is ignored without a trusted proxy', async () => {
+  await failTimes(10, i => request('203.0.113.1', `10.0.0.${i}`));
+  assert.equal(await checkPassword(request('203.0.113.1', '10.0.0.99'), 'correct horse'), 'locked');
+});
+
+test('behind a trusted proxy only the hop it added counts', async () => {
+  process.env.TRUST_PROXY = '1';
+  // The client controls everything before the proxy's own entry
+  await failTimes(10, i => request('10.0.0.1', `198.51.100.${i}, 203.0.113.1`));
+  assert.equal(await checkPassword(request('10.0.0.1', '198.51.100.99, 203.0.113.1'), 'correct horse'), 'locked');
+  assert.equal(await checkPassword(request('10.0.0.1', '203.0.113.2'), 'correct horse'), 'ok');
+});
+
+test('sign-in is paused for everyone after 100 wrong passwords from many addresses', async () => {
+  await failTimes(100, i => request(`203.0.113.${i}`));
+  assert.equal(await checkPassword(request('198.51.100.1'), 'correct horse'), 'locked');
+});
@@ -0,0 +1,78 @@
+// Only the device that first used a Twilio number can read or change that number's data,
+// even though every copy of the app has APP_API_KEY. Run with `npm test`.
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+const TWILIO_NUMBER = '+15557654321';
+const OWNER_SECRET = 'a'.repeat(64);
+const OTHER_SECRET = 'b'.repeat(64);
+
+let storeDir;
+let callRouting;
+let calls;
+let releaseNumber;
+
+before(async () => {
+  storeDir = await mkdtemp(path.join(tmpdir(), 'webhook-store-'));
+  process.env.STORE_BACKEND = 'file';
+  process.env.STORE_FILE = path.join(storeDir, 'store.json');
+  process.env.APP_API_KEY = 'test-app-key';
+
+  callRouting = (await import('../api/call-routing.js')).default;
+  calls = (await import('../api/calls.js')).default;
+  ({ releaseNumber } = await import('../lib/numberOwners.js'));
+});
+
+after(async () => {
+  await rm(storeDir, { recursive: true, force: true });
+});
+
+function appRequest(method, deviceSecret, { body, query } = {}) {
+  const headers = { authorization: 'Bearer test-app-key' };
+  if (deviceSecret) headers['x-device-secret'] = deviceSecret;
+  return { method, headers, body, query };
+}
+
+async function call(handler, req) {
+  const res = {
+    statusCode: 200,
+    status(code) { this.statusCode = code; return this; },
+    json(body) { this.body = body; return this; },
+  };
+  await handler(req, res);
+  return res;
+}
+
+const ROUTING = { twilioNumber: TWILIO_NUMBER, userPhoneNumber: '+15551112222', contacts: [] };
+
+test('the first device to use a number claims it', async () => {
+  const res = await call(callRouting, appRequest('POST', OWNER_SECRET, { body: ROUTING }));
+  assert.equal(res.statusCode, 200);
+});
+
+test('another device with the app key is refused', async () => {
+  const hijack = { ...ROUTING, userPhoneNumber: '+15559990000' };
+  assert.equal((await call(callRouting, appRequest('POST', OTHER_SECRET, { body: hijack }))).statusCode, 403);
+  assert.equal((await call(calls, appRequest('GET', OTHER_SECRET, { query: { twilioNumber: TWILIO_NUMBER } }))).statusCode, 403);
+});
+
+test('a request without a secret is refused', async () => {
+  const res = await call(calls, appRequest('GET', null, { query: { twilioNumber: TWILIO_NUMBER } }));
+  assert.equal(res.statusCode, 403);
+});
+
+test('the owner can still read its data', async () => {
+  const res = await call(calls, appRequest('GET', OWNER_SECRET, { query: { twilioNumber: '(555) 765-4321' } }));
+  assert.equal(res.statusCode, 200);
+  assert.deepEqual(res.body, { calls: [] });
+});
+
+test('a released number can be claimed by a new device', async () => {
+  await releaseNumber(TWILIO_NUMBER);
+  assert.equal((await call(calls, appRequest('GET', OTHER_SECRET, { query: { twilioNumber: TWILIO_NUMBER } }))).statusCode, 200);
+  assert.equal((await call(calls, appRequest('GET', OWNER_SECRET, { query: { twilioNumber: TWILIO_NUMBER } }))).statusCode, 403);
+});
@@ -0,0 +1,72 @@
+// The server's copy of a phone's records and the epoch that tells the phone when that copy
+// has started over. Run with `npm test`.
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+const TWILIO_NUMBER = '+15557654321';
+
+let storeDir;
+let sync;
+let store;
+
+before(async () => {
+  storeDir = await mkdtemp(path.join(tmpdir(), 'webhook-store-'));
+  process.env.STORE_BACKEND = 'file';
+  process.env.STORE_FILE = path.join(storeDir, 'store.json');
+
+  sync = await import('../lib/sync.js');
+  store = await (await import('../lib/store.js')).getStore();
+});
+
+after(async () => {
+  await rm(storeDir, { recursive: true, force: true });
+});
+
+const contact = (seq, version, name) => ({ seq, entity: 'contact-settings', id: 'c1', op: 'upsert', version, data: { name } });
+
+async function contacts() {
+  return sync.listRecords(await sync.getSyncState(TWILIO_NUMBER), 'contact-settings');
+}
+
+test('the epoch stays the same while the copy is kept', async () => {
+  const first = await sync.applyDeviceChanges(TWILIO_NUMBER, 'phone-1', [contact(1, 1, 'Mary')]);
+  const second = await sync.applyDeviceChanges(TWILIO_NUMBER, 'phone-1', []);
+
+  assert.equal(first.ackedSeq, 1);
+  assert.equal(second.ackedSeq, 1);
+  assert.equal(second.epoch, first.epoch);
+});
+
+test('a new device gets a new epoch and an empty copy', async () => {
+  const earlier = await sync.applyDeviceChanges(TWILIO_NUMBER, 'phone-1', []);
+  const later = await sync.applyDeviceChanges(TWILIO_NUMBER, 'phone-2', []);
+
+  assert.notEqual(later.epoch, earlier.epoch);
+  assert.equal(later.ackedSeq, 0);
+  assert.deepEqual(await contacts(), []);
+});
+
+test('a lost store gives a new epoch, and records sent again at version 1 are kept', async () => {
+  const earlier = await sync.applyDeviceChanges(TWILIO_NUMBER, 'phone-2', [contact(5, 3, 'Mary')]);
+  await store.del(`sync-state:${TWILIO_NUMBER}`);
+
+  // The phone still sends its next change with its own numbering
+  const lost = await sync.applyDeviceChanges(TWILIO_NUMBER, 'phone-2', []);
+  assert.notEqual(lost.epoch, earlier.epoch);
+
+  // Seeing the new epoch, the phone forgets what it uploaded and sends everything again
+  const resent = await sync.applyDeviceChanges(TWILIO_NUMBER, 'phone-2', [contact(6, 1, 'Mary')]);
+  assert.equal(resent.epoch, lost.epoch);
+  assert.equal(resent.ackedSeq, 6);
+  assert.deepEqual(await contacts(), [{ id: 'c1', version: 1, data: { name: 'Mary' } }]);
+});
+
+test('copies saved before epochs existed get one', async () => {
+  await store.set(`sync-state:${TWILIO_NUMBER}`, { deviceId: 'phone-2', lastSeq: 6, records: {} });
+  const { epoch } = await sync.applyDeviceChanges(TWILIO_NUMBER, 'phone-2', []);
+  assert.equal(typeof epoch, 'string');
+});
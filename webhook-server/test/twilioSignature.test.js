@@ -0,0 +1,138 @@
+// Signature and replay checks for the Twilio webhooks, using requests signed locally with a
+// made-up auth token. Run with `npm test`.
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, readFile, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+const AUTH_TOKEN = 'test-auth-token';
+const WEBHOOK_URL = 'https://care-phone.example.com/api/webhook';
+const PARAMS = { From: '+15551234567', To: '+15557654321', MessageSid: 'SM0123456789', NumMedia: '0' };
+
+let storeDir;
+let signature;
+
+before(async () => {
+  // The file store reads STORE_FILE the first time it is used
+  storeDir = await mkdtemp(path.join(tmpdir(), 'webhook-store-'));
+  process.env.STORE_BACKEND = 'file';
+  process.env.STORE_FILE = path.join(storeDir, 'store.json');
+  process.env.TWILIO_AUTH_TOKEN = AUTH_TOKEN;
+  delete process.env.PUBLIC_BASE_URL;
+
+  signature = await import('../lib/twilioSignature.js');
+});
+
+after(async () => {
+  await rm(storeDir, { recursive: true, force: true });
+});
+
+// A request as Vercel hands it to the route: body already parsed, proxy headers set
+function signedRequest({ url = WEBHOOK_URL, params = PARAMS, headers = {} } = {}) {
+  const target = new URL(url);
+  return {
+    method: 'POST',
+    url: target.pathname + target.search,
+    headers: {
+      'x-forwarded-proto': target.protocol.replace(':', ''),
+      'x-forwarded-host': target.host,
+      'x-twilio-signature': signature.computeSignature(AUTH_TOKEN, url, params),
+      ...headers,
+    },
+    body: { ...params },
+  };
+}
+
+test('a request signed with our auth token is accepted', async () => {
+  const req = signedRequest();
+  assert.equal(signature.isValidSignature(AUTH_TOKEN, req.headers['x-twilio-signature'], WEBHOOK_URL, PARAMS), true);
+  assert.deepEqual(await signature.verifyTwilioRequest(req), { ok: true });
+});
+
+test('a parameter changed after signing is rejected with 403', async () => {
+  const req = signedRequest();
+  req.body.From = '+10000000000';
+
+  const result = await signature.verifyTwilioRequest(req);
+  assert.equal(result.ok, false);
+  assert.equal(result.status, 403);
+  assert.equal(result.reason, 'Invalid signature');
+});
+
+test('a request without X-Twilio-Signature is rejected with 403', async () => {
+  const req = signedRequest();
+  delete req.headers['x-twilio-signature'];
+
+  const result = await signature.verifyTwilioRequest(req);
+  assert.equal(result.ok, false);
+  assert.equal(result.status, 403);
+  assert.equal(result.reason, 'Missing signature');
+});
+
+test('a signature made for a different URL is rejected with 403', async () => {
+  const req = signedRequest();
+  req.headers['x-twilio-signature'] = signature.computeSignature(AUTH_TOKEN, 'https://care-phone.example.com/api/voice', PARAMS);
+
+  const result = await signature.verifyTwilioRequest(req);
+  assert.equal(result.ok, false);
+  assert.equal(result.status, 403);
+});
+
+test('a request reaching us through a different base URL is rejected with 403', async () => {
+  const req = signedRequest();
+  req.headers['x-forwarded-host'] = 'attacker.example.com';
+  assert.equal((await signature.verifyTwilioRequest(req)).status, 403);
+
+  // PUBLIC_BASE_URL takes precedence over the forwarded headers
+  process.env.PUBLIC_BASE_URL = 'https://other-proxy.example.com';
+  try {
+    const proxied = signedRequest();
+    assert.equal((await signature.verifyTwilioRequest(proxied)).status, 403);
+  } finally {
+    delete process.env.PUBLIC_BASE_URL;
+  }
+});
+
+test('the webhook route answers 403 to an unsigned request', async () => {
+  const { default: webhook } = await import('../api/webhook.js');
+  const req = signedRequest();
+  delete req.headers['x-twilio-signature'];
+
+  const res = {
+    statusCode: 200,
+    status(code) { this.statusCode = code; return this; },
+    json() { return this; },
+    send() { return this; },
+  };
+  await webhook(req, res);
+  assert.equal(res.statusCode, 403);
+});
+
+test('each MessageSid is only claimed once', async () => {
+  assert.equal(await signature.claimSid('SMreplay000001'), true);
+  assert.equal(await signature.claimSid('SMreplay000001'), false);
+  assert.equal(await signature.claimSid('SMreplay000002'), true);
+});
+
+test('a Twilio retry racing the original request is only claimed once', async () => {
+  const results = await Promise.all([
+    signature.claimSid('SMrace0000001'),
+    signature.claimSid('SMrace0000001'),
+  ]);
+  assert.deepEqual(results.sort(), [false, true]);
+});
+
+test('expired SIDs are pruned from the file store on the next write', async () => {
+  const { getStore } = await import('../lib/store.js');
+  const store = await getStore();
+  const data = JSON.parse(await readFile(process.env.STORE_FILE, 'utf8'));
+  data['seen-sid:SMexpired00001'] = { value: 1, expiresAt: Date.now() - 1000 };
+  await writeFile(process.env.STORE_FILE, JSON.stringify(data));
+
+  assert.equal(await signature.claimSid('SMfresh000001'), true);
+  const pruned = JSON.parse(await readFile(process.env.STORE_FILE, 'utf8'));
+  assert.equal(pruned['seen-sid:SMexpired00001'], undefined);
+  assert.notEqual(await store.get('seen-sid:SMfresh000001'), null);
+});